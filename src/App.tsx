@@ -1,5 +1,5 @@
 import React, { useState, useMemo } from 'react';
-import { Upload, BarChart3, Users, DollarSign, FileDown, Search, Filter, LogOut, Trophy, AlertCircle, CreditCard } from 'lucide-react';
+import { Upload, BarChart3, Users, DollarSign, Filter, LogOut, Trophy, AlertCircle, CreditCard, History, GitCompare, Tags, ClipboardList, CalendarDays, Ticket, BadgePercent, LineChart, Gauge, Clock, Repeat, Merge, Target, Grid3x3 } from 'lucide-react';
 import { LoginScreen } from './components/LoginScreen';
 import { CitySelector } from './components/CitySelector';
 import { DataUploader } from './components/DataUploader';
@@ -7,29 +7,96 @@ import { DashboardStats } from './components/DashboardStats';
 import { ClassBreakdown } from './components/ClassBreakdown';
 import { CustomerLists } from './components/CustomerLists';
 import { MultiPurchaseCustomers } from './components/MultiPurchaseCustomers';
+import { CrossEventCustomers } from './components/CrossEventCustomers';
+import { CustomerSegments } from './components/CustomerSegments';
+import { CustomerProfileDrawer } from './components/CustomerProfileDrawer';
 import { Leaderboard } from './components/Leaderboard';
 import { SalesByMOP } from './components/SalesByMOP';
+import { SalesTimeline } from './components/SalesTimeline';
+import { PacingComparison } from './components/PacingComparison';
+import { PurchaseHeatmap } from './components/PurchaseHeatmap';
+import { UploadHistory } from './components/UploadHistory';
+import { WhatChanged } from './components/WhatChanged';
+import { ClassAliasManager } from './components/ClassAliasManager';
+import { ClassCatalogManager } from './components/ClassCatalogManager';
+import { CustomerMergeManager } from './components/CustomerMergeManager';
+import { Timetable } from './components/Timetable';
+import { BundleTracker } from './components/BundleTracker';
+import { ClassAffinityMatrix } from './components/ClassAffinityMatrix';
+import { PromoPerformance } from './components/PromoPerformance';
 import { useAuth } from './hooks/useAuth';
 import { useOrderData } from './hooks/useOrderData';
-import type { ParsedOrder } from './utils/csvParser';
+import { useClassAliases } from './hooks/useClassAliases';
+import { useEvents } from './hooks/useEvents';
+import { useClassCatalog } from './hooks/useClassCatalog';
+import { useAllocationStrategy } from './hooks/useAllocationStrategy';
+import { usePaymentFees } from './hooks/usePaymentFees';
+import { useCustomerMerges } from './hooks/useCustomerMerges';
+import { useHistoricalOrders } from './hooks/useHistoricalOrders';
+import { compareEvents } from './utils/crossEvent';
+import type { ColumnMapping } from './utils/columnMapping';
+import type { CustomerContact } from './utils/customerProfile';
+import { isActiveTicket } from './utils/revenue';
+import { applyClassAliases } from './utils/classAliases';
+import { applyCustomerMerges } from './utils/customerIdentity';
+import { computeMetrics } from './utils/metrics';
+import { buildHistoricalCurve, forecastSales } from './utils/forecast';
 
 function App() {
   const { isAuthenticated, user, login, logout, selectCity } = useAuth();
-  const { data: csvData, isLoading, error, uploadData, lastUpdated, fileName } = useOrderData(user?.selectedCity);
-  const [activeTab, setActiveTab] = useState<'overview' | 'classes' | 'leaderboard' | 'customers' | 'multi' | 'mop'>('overview');
+  const { events, isLoading: eventsLoading, error: eventsError, updateEvent } = useEvents();
+  const selectedEvent = events.find(event => event.id === user?.selectedCity);
+  const { data: rawData, isLoading, error, uploadData, reloadData, lastUpdated } = useOrderData(selectedEvent, user?.role);
+  const { aliases: classAliases, saveAliases } = useClassAliases(selectedEvent?.id);
+  const { classes: classCatalog, saveClasses, deleteClass } = useClassCatalog(selectedEvent?.id);
+  const { strategy: allocationStrategy, setStrategy: setAllocationStrategy } = useAllocationStrategy();
+  const { fees: paymentFees, saveFees: savePaymentFees } = usePaymentFees(selectedEvent?.id);
+  const { merges: customerMerges, mergeCustomers, unmergeCustomer } = useCustomerMerges();
+  // Events before the selected one, loaded once for customer profiles and the forecast
+  const priorEvents = useMemo(
+    () => (selectedEvent ? events.filter(event => event.id !== selectedEvent.id && compareEvents(event, selectedEvent) < 0) : []),
+    [events, selectedEvent]
+  );
+  const { history: priorHistory, isLoading: priorHistoryLoading, error: priorHistoryError } = useHistoricalOrders(priorEvents);
+  // Earlier dated events whose sales curves the forecast is fitted from
+  const history = useMemo(() => priorHistory.filter(({ event }) =>
+    event.event_date && selectedEvent?.event_date && event.event_date < selectedEvent.event_date
+  ), [priorHistory, selectedEvent]);
+  const [activeTab, setActiveTab] = useState<'overview' | 'classes' | 'leaderboard' | 'timeline' | 'pacing' | 'times' | 'schedule' | 'customers' | 'bundles' | 'affinity' | 'multi' | 'segments' | 'returning' | 'mop' | 'promo' | 'changes'>('overview');
+  // Roster the Customer Lists tab opens on, set when a timetable session is selected
+  const [rosterClass, setRosterClass] = useState<string | undefined>();
+  // Customer whose profile drawer is open, from any customer list
+  const [profileCustomer, setProfileCustomer] = useState<CustomerContact | null>(null);
   const [showUploader, setShowUploader] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showClassNames, setShowClassNames] = useState(false);
+  const [showCatalog, setShowCatalog] = useState(false);
+  const [showMerges, setShowMerges] = useState(false);
+  // Every tab sees canonical class names and resolved customer identities
+  const csvData = useMemo(
+    () => applyCustomerMerges(applyClassAliases(rawData, classAliases), customerMerges),
+    [rawData, classAliases, customerMerges]
+  );
+  // Customer-facing tabs only list people still holding tickets
+  const activeData = useMemo(() => csvData.filter(isActiveTicket), [csvData]);
+  // Revenue and aggregates shared by every tab
+  const metrics = useMemo(
+    () => computeMetrics(csvData, classCatalog, allocationStrategy),
+    [csvData, classCatalog, allocationStrategy]
+  );
+  const forecast = useMemo(() => forecastSales(
+    metrics,
+    selectedEvent?.event_date ?? null,
+    history.flatMap(({ event, orders }) => buildHistoricalCurve(event, orders, allocationStrategy) || [])
+  ), [metrics, selectedEvent?.event_date, history, allocationStrategy]);
 
   const hasData = csvData.length > 0;
   const isMaster = user?.role === 'master';
   const isTeam = user?.role === 'team';
 
-  const handleDataUpload = async (csvText: string, fileName?: string) => {
-    const result = await uploadData(csvText, fileName);
-    if (result.success) {
-      setShowUploader(false);
-    }
-    return result;
-  };
+  // The uploader stays open after a successful upload to show its import diagnostics
+  const handleDataUpload = (csvText: string, fileName?: string, columnMapping?: ColumnMapping) =>
+    uploadData(csvText, fileName, columnMapping);
 
   // Set default tab based on user role
   React.useEffect(() => {
@@ -42,26 +109,50 @@ function App() {
 
   const handleTabChange = (tabId: typeof activeTab) => {
     setActiveTab(tabId);
+    setRosterClass(undefined);
     localStorage.setItem('manual-tab-selection', 'true');
   };
 
+  const openRoster = (className: string) => {
+    handleTabChange('customers');
+    setRosterClass(className);
+  };
+
   // Show login screen if not authenticated
   if (!isAuthenticated) {
     return <LoginScreen onLogin={login} />;
   }
 
-  // Show city selector if no city is selected
-  if (!user?.selectedCity) {
-    return <CitySelector onCitySelect={selectCity} />;
+  if (eventsLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex items-center justify-center">
+        <div className="w-12 h-12 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  // Show city selector if no city is selected (or the saved one is no longer in the registry)
+  if (!selectedEvent) {
+    return <CitySelector events={events.filter(event => event.is_active)} error={eventsError} onCitySelect={selectCity} />;
   }
   // Filter tabs based on user role
   const allTabs = [
-    { id: 'overview' as const, label: 'Overview', icon: BarChart3, masterOnly: true },
-    { id: 'classes' as const, label: 'Class Breakdown', icon: Filter },
-    { id: 'leaderboard' as const, label: 'Leaderboard', icon: Trophy },
-    { id: 'customers' as const, label: 'Customer Lists', icon: Users },
-    { id: 'multi' as const, label: 'Multi-Purchase', icon: DollarSign, masterOnly: true },
-    { id: 'mop' as const, label: 'Sales by MOP', icon: CreditCard, masterOnly: true },
+    { id: 'overview' as const, label: 'Overview', shortLabel: 'Stats', icon: BarChart3, masterOnly: true },
+    { id: 'classes' as const, label: 'Class Breakdown', shortLabel: 'Classes', icon: Filter },
+    { id: 'leaderboard' as const, label: 'Leaderboard', shortLabel: 'Ranks', icon: Trophy },
+    { id: 'timeline' as const, label: 'Sales Timeline', shortLabel: 'Timeline', icon: LineChart },
+    { id: 'pacing' as const, label: 'Pacing', shortLabel: 'Pace', icon: Gauge },
+    { id: 'times' as const, label: 'Purchase Times', shortLabel: 'Hours', icon: Clock },
+    { id: 'schedule' as const, label: 'Timetable', shortLabel: 'Times', icon: CalendarDays },
+    { id: 'customers' as const, label: 'Customer Lists', shortLabel: 'Lists', icon: Users },
+    { id: 'bundles' as const, label: 'Bundles', shortLabel: 'Bundles', icon: Ticket },
+    { id: 'affinity' as const, label: 'Class Affinity', shortLabel: 'Affinity', icon: Grid3x3 },
+    { id: 'multi' as const, label: 'Multi-Purchase', shortLabel: 'Multi', icon: DollarSign, masterOnly: true },
+    { id: 'segments' as const, label: 'Segments', shortLabel: 'Segments', icon: Target, masterOnly: true },
+    { id: 'returning' as const, label: 'Returning Customers', shortLabel: 'Returning', icon: Repeat, masterOnly: true },
+    { id: 'mop' as const, label: 'Sales by MOP', shortLabel: 'MOP', icon: CreditCard, masterOnly: true },
+    { id: 'promo' as const, label: 'Promo Performance', shortLabel: 'Promo', icon: BadgePercent, masterOnly: true },
+    { id: 'changes' as const, label: 'What Changed', shortLabel: 'Changes', icon: GitCompare },
   ];
 
   const tabs = allTabs.filter(tab => isMaster || !tab.masterOnly);
@@ -88,11 +179,10 @@ function App() {
               </div>
               <div>
                 <h1 className="text-lg sm:text-xl font-bold text-gray-900">
-                  Ebony Fit Weekend - {user?.selectedCity === 'dc' ? 'DC' : user?.selectedCity === 'atlanta' ? 'Atlanta' : 'Houston'}
-                  {user?.selectedCity === 'dc' || user?.selectedCity === 'atlanta' ? ' 2025' : ' 2026'}
+                  Ebony Fit Weekend - {selectedEvent.short_name} {selectedEvent.year}
                 </h1>
                 <p className="text-xs sm:text-sm text-gray-500">
-                  {user?.selectedCity === 'dc' ? 'DC' : user?.selectedCity === 'atlanta' ? 'Atlanta' : 'Houston'} Event Dashboard{user?.role === 'master' ? ' • Master Access' : user?.role === 'team' ? ' • Team Access' : ''}
+                  {selectedEvent.short_name} Event Dashboard{user?.role === 'master' ? ' • Master Access' : user?.role === 'team' ? ' • Team Access' : ''}
                 </p>
               </div>
             </div>
@@ -101,12 +191,13 @@ function App() {
                 <div className="text-left sm:text-right">
                   {lastUpdated && (
                     <div className="text-xs sm:text-sm text-gray-600">
-                      Updated: {new Date(lastUpdated).toLocaleDateString()} at {new Date(lastUpdated).toLocaleTimeString('en-US', {
-                        timeZone: 'America/New_York',
+                      Updated: {new Date(lastUpdated).toLocaleDateString('en-US', { timeZone: selectedEvent.timezone })} at {new Date(lastUpdated).toLocaleTimeString('en-US', {
+                        timeZone: selectedEvent.timezone,
                         hour: 'numeric',
                         minute: '2-digit',
-                        hour12: true
-                      })} EST
+                        hour12: true,
+                        timeZoneName: 'short'
+                      })}
                     </div>
                   )}
                 </div>
@@ -114,7 +205,7 @@ function App() {
               <div className="flex items-center space-x-2 sm:space-x-3">
                 {user?.selectedCity && (
                   <select
-                    onChange={(e) => selectCity(e.target.value as 'dc' | 'atlanta' | 'houston')}
+                    onChange={(e) => selectCity(e.target.value)}
                     value={user.selectedCity}
                     className="inline-flex items-center space-x-1 sm:space-x-2 px-2 sm:px-3 py-2 bg-purple-600 text-white font-medium rounded-lg hover:bg-purple-700 transition-colors duration-200 text-xs sm:text-sm border-none cursor-pointer appearance-none bg-no-repeat bg-right pr-8"
                     style={{
@@ -123,9 +214,11 @@ function App() {
                       paddingRight: '2rem'
                     }}
                   >
-                    <option value="dc" className="bg-white text-gray-900">DC 2025</option>
-                    <option value="atlanta" className="bg-white text-gray-900">Atlanta 2025</option>
-                    <option value="houston" className="bg-white text-gray-900">Houston 2026</option>
+                    {events.filter(event => event.is_active || event.id === selectedEvent.id).map(event => (
+                      <option key={event.id} value={event.id} className="bg-white text-gray-900">
+                        {event.short_name} {event.year}
+                      </option>
+                    ))}
                   </select>
                 )}
                 <button
@@ -136,6 +229,42 @@ function App() {
                   <span className="hidden xs:inline">{hasData ? 'Update' : 'Upload'}</span>
                   <span className="xs:hidden">Data</span>
                 </button>
+                {isMaster && (
+                  <button
+                    onClick={() => setShowHistory(!showHistory)}
+                    className="inline-flex items-center space-x-1 sm:space-x-2 px-2 sm:px-3 py-2 bg-white text-gray-700 font-medium rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors duration-200 text-xs sm:text-sm"
+                  >
+                    <History className="w-3 h-3 sm:w-4 sm:h-4" />
+                    <span className="hidden sm:inline">History</span>
+                  </button>
+                )}
+                {isMaster && hasData && (
+                  <button
+                    onClick={() => setShowClassNames(!showClassNames)}
+                    className="inline-flex items-center space-x-1 sm:space-x-2 px-2 sm:px-3 py-2 bg-white text-gray-700 font-medium rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors duration-200 text-xs sm:text-sm"
+                  >
+                    <Tags className="w-3 h-3 sm:w-4 sm:h-4" />
+                    <span className="hidden sm:inline">Class Names</span>
+                  </button>
+                )}
+                {isMaster && hasData && (
+                  <button
+                    onClick={() => setShowMerges(!showMerges)}
+                    className="inline-flex items-center space-x-1 sm:space-x-2 px-2 sm:px-3 py-2 bg-white text-gray-700 font-medium rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors duration-200 text-xs sm:text-sm"
+                  >
+                    <Merge className="w-3 h-3 sm:w-4 sm:h-4" />
+                    <span className="hidden sm:inline">Duplicates</span>
+                  </button>
+                )}
+                {isMaster && (
+                  <button
+                    onClick={() => setShowCatalog(!showCatalog)}
+                    className="inline-flex items-center space-x-1 sm:space-x-2 px-2 sm:px-3 py-2 bg-white text-gray-700 font-medium rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors duration-200 text-xs sm:text-sm"
+                  >
+                    <ClipboardList className="w-3 h-3 sm:w-4 sm:h-4" />
+                    <span className="hidden sm:inline">Catalog</span>
+                  </button>
+                )}
                 <button
                   onClick={logout}
                   className="inline-flex items-center space-x-1 sm:space-x-2 px-2 sm:px-3 py-2 bg-gray-600 text-white font-medium rounded-lg hover:bg-gray-700 transition-colors duration-200 text-xs sm:text-sm"
@@ -176,7 +305,61 @@ function App() {
 
         {showUploader && (
           <div className="mb-8">
-            <DataUploader onDataUpload={handleDataUpload} hasExistingData={hasData} />
+            <DataUploader
+              onDataUpload={handleDataUpload}
+              hasExistingData={hasData}
+              onClose={() => setShowUploader(false)}
+            />
+          </div>
+        )}
+
+        {showHistory && isMaster && (
+          <div className="mb-8">
+            <UploadHistory
+              key={selectedEvent.id}
+              event={selectedEvent}
+              classAliases={classAliases}
+              customerMerges={customerMerges}
+              catalog={classCatalog}
+              allocationStrategy={allocationStrategy}
+              onRestored={reloadData}
+              onClose={() => setShowHistory(false)}
+            />
+          </div>
+        )}
+
+        {showClassNames && isMaster && hasData && (
+          <div className="mb-8">
+            <ClassAliasManager
+              data={rawData}
+              aliases={classAliases}
+              onSave={saveAliases}
+              onClose={() => setShowClassNames(false)}
+            />
+          </div>
+        )}
+
+        {showMerges && isMaster && hasData && (
+          <div className="mb-8">
+            <CustomerMergeManager
+              data={csvData}
+              merges={customerMerges}
+              onMerge={mergeCustomers}
+              onUnmerge={unmergeCustomer}
+              onClose={() => setShowMerges(false)}
+            />
+          </div>
+        )}
+
+        {showCatalog && isMaster && (
+          <div className="mb-8">
+            <ClassCatalogManager
+              data={csvData}
+              classes={classCatalog}
+              onSave={saveClasses}
+              onDelete={deleteClass}
+              onClose={() => setShowCatalog(false)}
+            />
           </div>
         )}
 
@@ -188,7 +371,7 @@ function App() {
               </div>
               <h2 className="text-2xl font-bold text-gray-900 mb-2">No Data Available</h2>
               <p className="text-gray-600">
-                Click "Upload Data" to load your Ebony Fit Weekend {user?.selectedCity === 'dc' ? 'DC' : user?.selectedCity === 'atlanta' ? 'Atlanta' : 'Houston'} order CSV file and view comprehensive analytics.
+                Click "Upload Data" to load your Ebony Fit Weekend {selectedEvent.short_name} order CSV file and view comprehensive analytics.
               </p>
             </div>
             <div className="text-center">
@@ -207,7 +390,7 @@ function App() {
             <nav className="mb-8">
               <div className="bg-white p-1 rounded-lg shadow-sm">
                 <div className="flex space-x-1 overflow-x-auto scrollbar-hide">
-                {tabs.map(({ id, label, icon: Icon }) => (
+                {tabs.map(({ id, label, shortLabel, icon: Icon }) => (
                   <button
                     key={id}
                     onClick={() => handleTabChange(id)}
@@ -219,30 +402,47 @@ function App() {
                   >
                     <Icon className="w-3 h-3 sm:w-4 sm:h-4" />
                     <span className="hidden xs:inline sm:inline">{label}</span>
-                    <span className="xs:hidden sm:hidden">
-                      {id === 'overview' ? 'Stats' : 
-                       id === 'classes' ? 'Classes' : 
-                       id === 'leaderboard' ? 'Ranks' :
-                       id === 'customers' ? 'Lists' : 
-                       id === 'multi' ? 'Multi' :
-                       'MOP'}
-                    </span>
+                    <span className="xs:hidden sm:hidden">{shortLabel}</span>
                   </button>
                 ))}
                 </div>
               </div>
             </nav>
 
-            {activeTab === 'overview' && isMaster && <DashboardStats data={csvData} />}
-            {activeTab === 'classes' && <ClassBreakdown data={csvData} userRole={user?.role} />}
-            {activeTab === 'leaderboard' && <Leaderboard data={csvData} userRole={user?.role} />}
-            {activeTab === 'customers' && <CustomerLists data={csvData} />}
-            {activeTab === 'multi' && isMaster && <MultiPurchaseCustomers data={csvData} />}
-            {activeTab === 'mop' && isMaster && <SalesByMOP data={csvData} />}
+            {activeTab === 'overview' && isMaster && <DashboardStats metrics={metrics} forecast={forecast} onStrategyChange={setAllocationStrategy} />}
+            {activeTab === 'classes' && <ClassBreakdown metrics={metrics} forecast={forecast} userRole={user?.role} />}
+            {activeTab === 'leaderboard' && <Leaderboard metrics={metrics} userRole={user?.role} />}
+            {activeTab === 'timeline' && <SalesTimeline metrics={metrics} userRole={user?.role} />}
+            {activeTab === 'pacing' && <PacingComparison event={selectedEvent} events={events} metrics={metrics} userRole={user?.role} onSetEventDate={(id, eventDate) => updateEvent(id, { event_date: eventDate })} />}
+            {activeTab === 'times' && <PurchaseHeatmap metrics={metrics} event={selectedEvent} userRole={user?.role} onSetOrderTimezone={(timeZone) => updateEvent(selectedEvent.id, { order_timezone: timeZone })} />}
+            {activeTab === 'schedule' && <Timetable data={activeData} catalog={classCatalog} onOpenRoster={openRoster} />}
+            {activeTab === 'customers' && <CustomerLists data={activeData} catalog={classCatalog} initialClass={rosterClass} onOpenCustomer={setProfileCustomer} />}
+            {activeTab === 'bundles' && <BundleTracker analysis={metrics.bundles} userRole={user?.role} />}
+            {activeTab === 'affinity' && <ClassAffinityMatrix metrics={metrics} />}
+            {activeTab === 'multi' && isMaster && <MultiPurchaseCustomers metrics={metrics} onOpenCustomer={setProfileCustomer} />}
+            {activeTab === 'segments' && isMaster && <CustomerSegments metrics={metrics} event={selectedEvent} onOpenCustomer={setProfileCustomer} />}
+            {activeTab === 'returning' && isMaster && <CrossEventCustomers event={selectedEvent} events={events} data={csvData} merges={customerMerges} />}
+            {activeTab === 'mop' && isMaster && <SalesByMOP metrics={metrics} fees={paymentFees} onSaveFees={savePaymentFees} />}
+            {activeTab === 'promo' && isMaster && <PromoPerformance metrics={metrics} />}
+            {activeTab === 'changes' && <WhatChanged key={selectedEvent.id} event={selectedEvent} userRole={user?.role} classAliases={classAliases} customerMerges={customerMerges} catalog={classCatalog} allocationStrategy={allocationStrategy} />}
           </div>
           )
         )}
       </main>
+
+      {profileCustomer && (
+        <CustomerProfileDrawer
+          customer={profileCustomer}
+          event={selectedEvent}
+          priorEvents={priorEvents}
+          history={priorHistory}
+          isHistoryLoading={priorHistoryLoading}
+          historyError={priorHistoryError}
+          data={csvData}
+          merges={customerMerges}
+          onClose={() => setProfileCustomer(null)}
+        />
+      )}
     </div>
   );
 }
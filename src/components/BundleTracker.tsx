@@ -0,0 +1,229 @@
+import { useMemo, useState } from 'react';
+import { Download, Mail, Phone, Ticket } from 'lucide-react';
+import type { BundleAnalysis } from '../utils/bundles';
+
+interface BundleTrackerProps {
+  analysis: BundleAnalysis;
+  userRole?: 'master' | 'team';
+}
+
+const downloadCSV = (csvContent: string, fileName: string) => {
+  const blob = new Blob([csvContent], { type: 'text/csv' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
+
+export function BundleTracker({ analysis, userRole }: BundleTrackerProps) {
+  const [showAllHolders, setShowAllHolders] = useState(false);
+
+  const isMaster = userRole === 'master';
+
+  const redeemedClasses = useMemo(() => {
+    const byClass = analysis.allocations.reduce((acc, allocation) => {
+      if (!acc[allocation.className]) {
+        acc[allocation.className] = { className: allocation.className, slots: 0, revenue: 0 };
+      }
+      acc[allocation.className].slots += allocation.slots;
+      acc[allocation.className].revenue += allocation.revenue;
+      return acc;
+    }, {} as Record<string, { className: string; slots: number; revenue: number }>);
+    return Object.values(byClass).sort((a, b) => b.slots - a.slots);
+  }, [analysis]);
+
+  const holders = showAllHolders
+    ? analysis.holders
+    : analysis.holders.filter(holder => holder.remainingSlots > 0);
+
+  const exportHolders = () => {
+    const headers = isMaster
+      ? 'Customer Name,Email,Phone,Bundles,Slots Purchased,Slots Redeemed,Slots Remaining,Bundle Revenue,Redeemed Classes'
+      : 'Customer Name,Email,Phone,Bundles,Slots Purchased,Slots Redeemed,Slots Remaining,Redeemed Classes';
+    const rows = holders.map(holder => {
+      const classes = holder.redemptions.map(redemption => redemption.className).join('; ');
+      return isMaster
+        ? `"${holder.customerName}","${holder.customerEmail}","${holder.customerPhone}","${holder.bundles.join('; ')}",${holder.purchasedSlots},${holder.redeemedSlots},${holder.remainingSlots},$${holder.bundleRevenue.toFixed(2)},"${classes}"`
+        : `"${holder.customerName}","${holder.customerEmail}","${holder.customerPhone}","${holder.bundles.join('; ')}",${holder.purchasedSlots},${holder.redeemedSlots},${holder.remainingSlots},"${classes}"`;
+    });
+    downloadCSV([headers, ...rows].join('\n'), showAllHolders ? 'ebony-fit-bundle-holders.csv' : 'ebony-fit-unredeemed-bundles.csv');
+  };
+
+  const exportRedemptions = () => {
+    const headers = isMaster ? 'Class Name,Slots Redeemed,Allocated Revenue' : 'Class Name,Slots Redeemed';
+    const rows = redeemedClasses.map(cls => isMaster
+      ? `"${cls.className}",${cls.slots},$${cls.revenue.toFixed(2)}`
+      : `"${cls.className}",${cls.slots}`
+    );
+    downloadCSV([headers, ...rows].join('\n'), 'ebony-fit-bundle-redemptions.csv');
+  };
+
+  if (analysis.holders.length === 0) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-12 text-center">
+        <Ticket className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">No Bundles Sold</h3>
+        <p className="text-gray-600">Class ticket bundles show up here once they sell. Set the number of classes a bundle covers in the class catalog.</p>
+      </div>
+    );
+  }
+
+  const redemptionRate = analysis.purchasedSlots > 0 ? analysis.redeemedSlots / analysis.purchasedSlots : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <h2 className="text-xl font-semibold text-gray-900">Class Ticket Bundles</h2>
+        <p className="text-gray-600 mb-6">
+          A bundle slot counts as redeemed when the holder checks out a free ticket for a class with the same email, on or after buying the bundle. Slots are used oldest bundle first, and each redeemed slot moves an equal share of the bundle's revenue to that class.
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div className="bg-purple-50 p-4 rounded-lg">
+            <p className="text-sm font-medium text-purple-800">Bundle Holders</p>
+            <p className="text-2xl font-bold text-purple-900 mt-1">{analysis.holders.length}</p>
+          </div>
+          <div className="bg-blue-50 p-4 rounded-lg">
+            <p className="text-sm font-medium text-blue-800">Slots Redeemed</p>
+            <p className="text-2xl font-bold text-blue-900 mt-1">
+              {analysis.redeemedSlots} / {analysis.purchasedSlots}
+            </p>
+            <p className="text-xs text-blue-700 mt-1">{Math.round(redemptionRate * 100)}% redeemed</p>
+          </div>
+          <div className="bg-orange-50 p-4 rounded-lg">
+            <p className="text-sm font-medium text-orange-800">Unredeemed Slots</p>
+            <p className="text-2xl font-bold text-orange-900 mt-1">{analysis.purchasedSlots - analysis.redeemedSlots}</p>
+            <p className="text-xs text-orange-700 mt-1">
+              {analysis.holders.filter(holder => holder.remainingSlots > 0).length} holders with slots left
+            </p>
+          </div>
+          {isMaster && (
+            <div className="bg-green-50 p-4 rounded-lg">
+              <p className="text-sm font-medium text-green-800">Bundle Revenue</p>
+              <p className="text-2xl font-bold text-green-900 mt-1">${analysis.bundleRevenue.toFixed(2)}</p>
+              <p className="text-xs text-green-700 mt-1">
+                ${analysis.allocatedRevenue.toFixed(2)} allocated to classes • ${(analysis.bundleRevenue - analysis.allocatedRevenue).toFixed(2)} unredeemed
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Classes Attended With Bundles</h3>
+            <p className="text-sm text-gray-600">Redeemed slots per class{isMaster ? ' and the bundle revenue they carry' : ''}</p>
+          </div>
+          <button
+            onClick={exportRedemptions}
+            disabled={redeemedClasses.length === 0}
+            className="inline-flex items-center space-x-2 px-4 py-2 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors duration-200"
+          >
+            <Download className="w-4 h-4" />
+            <span>Export CSV</span>
+          </button>
+        </div>
+        {redeemedClasses.length > 0 ? (
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-100">
+              <tr>
+                <th className="text-left py-3 px-6 text-sm font-medium text-gray-700">Class Name</th>
+                <th className="text-right py-3 px-6 text-sm font-medium text-gray-700">Slots Redeemed</th>
+                {isMaster && <th className="text-right py-3 px-6 text-sm font-medium text-gray-700">Allocated Revenue</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {redeemedClasses.map(cls => (
+                <tr key={cls.className} className="hover:bg-gray-50 transition-colors duration-150">
+                  <td className="py-3 px-6 font-medium text-gray-900">{cls.className}</td>
+                  <td className="py-3 px-6 text-right text-gray-600">{cls.slots}</td>
+                  {isMaster && <td className="py-3 px-6 text-right font-medium text-gray-900">${cls.revenue.toFixed(2)}</td>}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="px-6 py-8 text-sm text-gray-500 text-center">No bundle slots have been redeemed yet.</p>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="p-6 border-b border-gray-100">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">
+                {showAllHolders ? 'All Bundle Holders' : 'Holders With Unredeemed Slots'}
+              </h3>
+              <p className="text-sm text-gray-600">{holders.length} customers</p>
+            </div>
+            <button
+              onClick={exportHolders}
+              disabled={holders.length === 0}
+              className="inline-flex items-center space-x-2 px-4 py-2 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors duration-200"
+            >
+              <Download className="w-4 h-4" />
+              <span>Export List</span>
+            </button>
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showAllHolders}
+              onChange={(e) => setShowAllHolders(e.target.checked)}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <span>Include holders who have used every slot</span>
+          </label>
+        </div>
+
+        <div className="divide-y divide-gray-100">
+          {holders.map(holder => (
+            <div key={holder.customerEmail} className="p-6 hover:bg-gray-50 transition-colors duration-150">
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <h4 className="font-semibold text-gray-900 mb-2">{holder.customerName}</h4>
+                  <div className="space-y-1 mb-3">
+                    <div className="flex items-center space-x-2 text-sm text-gray-600">
+                      <Mail className="w-4 h-4" />
+                      <span>{holder.customerEmail}</span>
+                    </div>
+                    {holder.customerPhone && (
+                      <div className="flex items-center space-x-2 text-sm text-gray-600">
+                        <Phone className="w-4 h-4" />
+                        <span>{holder.customerPhone}</span>
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {holder.redemptions.map((redemption, index) => (
+                      <span key={index} className="inline-block px-2 py-1 bg-blue-50 text-blue-700 text-xs rounded-md">
+                        {redemption.className}{redemption.slots > 1 ? ` ×${redemption.slots}` : ''}
+                      </span>
+                    ))}
+                    {holder.redemptions.length === 0 && (
+                      <span className="text-xs text-gray-500">No classes redeemed yet</span>
+                    )}
+                  </div>
+                </div>
+                <div className="text-right ml-4 space-y-1">
+                  <p className={`text-lg font-semibold ${holder.remainingSlots > 0 ? 'text-orange-600' : 'text-gray-900'}`}>
+                    {holder.remainingSlots} left
+                  </p>
+                  <p className="text-sm text-gray-600">{holder.redeemedSlots} of {holder.purchasedSlots} used</p>
+                  {isMaster && <p className="text-sm text-gray-600">${holder.bundleRevenue.toFixed(2)}</p>}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {holders.length === 0 && (
+          <p className="px-6 py-8 text-sm text-gray-500 text-center">Every bundle slot has been redeemed.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import type { CapacityInfo } from '../utils/classCatalog';
+
+export function CapacityBadge({ info }: { info: CapacityInfo | null }) {
+  if (!info || info.status === 'open') return null;
+
+  return info.status === 'sold-out' ? (
+    <span className="inline-flex items-center px-2 py-0.5 bg-red-100 text-red-800 text-xs font-medium rounded-full">
+      Sold Out
+    </span>
+  ) : (
+    <span className="inline-flex items-center px-2 py-0.5 bg-amber-100 text-amber-800 text-xs font-medium rounded-full">
+      {info.remaining} left
+    </span>
+  );
+}
+
+export function SellThroughBar({ info }: { info: CapacityInfo | null }) {
+  if (!info) {
+    return <span className="text-sm text-gray-400">—</span>;
+  }
+
+  const percent = Math.round(info.sellThrough * 100);
+  const barColor = info.status === 'sold-out' ? 'bg-red-500' : info.status === 'near-sold-out' ? 'bg-amber-500' : 'bg-blue-500';
+  return (
+    <div className="flex items-center justify-end space-x-2">
+      <div className="w-20 h-2 bg-gray-100 rounded-full overflow-hidden">
+        <div className={`h-full ${barColor}`} style={{ width: `${Math.min(100, percent)}%` }}></div>
+      </div>
+      <span className="text-sm text-gray-700 w-10 text-right">{percent}%</span>
+    </div>
+  );
+}
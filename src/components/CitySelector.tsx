@@ -1,11 +1,22 @@
 import React from 'react';
-import { MapPin, Building2 } from 'lucide-react';
+import { MapPin, Building2, AlertCircle } from 'lucide-react';
+import type { EventConfig, EventId } from '../types/event';
 
 interface CitySelectorProps {
-  onCitySelect: (city: 'dc' | 'atlanta' | 'houston') => void;
+  events: EventConfig[];
+  error?: string | null;
+  onCitySelect: (city: EventId) => void;
 }
 
-export function CitySelector({ onCitySelect }: CitySelectorProps) {
+// Card accents cycle through the registry order
+const ACCENTS = [
+  { card: 'bg-blue-100 group-hover:bg-blue-200', icon: 'text-blue-600' },
+  { card: 'bg-purple-100 group-hover:bg-purple-200', icon: 'text-purple-600' },
+  { card: 'bg-orange-100 group-hover:bg-orange-200', icon: 'text-orange-600' },
+  { card: 'bg-green-100 group-hover:bg-green-200', icon: 'text-green-600' }
+];
+
+export function CitySelector({ events, error, onCitySelect }: CitySelectorProps) {
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 flex items-center justify-center p-4">
       <div className="w-full max-w-2xl">
@@ -17,50 +28,41 @@ export function CitySelector({ onCitySelect }: CitySelectorProps) {
           <p className="text-gray-600">Select your city to access the dashboard</p>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-          <button
-            onClick={() => onCitySelect('dc')}
-            className="group bg-white rounded-2xl shadow-lg border border-gray-100 p-8 hover:shadow-xl hover:scale-105 transition-all duration-200"
-          >
-            <div className="text-center">
-              <div className="w-16 h-16 bg-blue-100 rounded-xl mx-auto mb-4 flex items-center justify-center group-hover:bg-blue-200 transition-colors duration-200">
-                <Building2 className="w-8 h-8 text-blue-600" />
-              </div>
-              <h2 className="text-2xl font-bold text-gray-900 mb-2">Washington DC</h2>
-              <p className="text-sm text-gray-500 mb-1">2025</p>
-              <p className="text-gray-600">Access DC event dashboard</p>
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
+            <div className="flex items-start space-x-3">
+              <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
+              <p className="text-sm text-red-700">{error}</p>
             </div>
-          </button>
-
-          <button
-            onClick={() => onCitySelect('atlanta')}
-            className="group bg-white rounded-2xl shadow-lg border border-gray-100 p-8 hover:shadow-xl hover:scale-105 transition-all duration-200"
-          >
-            <div className="text-center">
-              <div className="w-16 h-16 bg-purple-100 rounded-xl mx-auto mb-4 flex items-center justify-center group-hover:bg-purple-200 transition-colors duration-200">
-                <Building2 className="w-8 h-8 text-purple-600" />
-              </div>
-              <h2 className="text-2xl font-bold text-gray-900 mb-2">Atlanta</h2>
-              <p className="text-sm text-gray-500 mb-1">2025</p>
-              <p className="text-gray-600">Access Atlanta event dashboard</p>
-            </div>
-          </button>
+          </div>
+        )}
 
-          <button
-            onClick={() => onCitySelect('houston')}
-            className="group bg-white rounded-2xl shadow-lg border border-gray-100 p-8 hover:shadow-xl hover:scale-105 transition-all duration-200"
-          >
-            <div className="text-center">
-              <div className="w-16 h-16 bg-orange-100 rounded-xl mx-auto mb-4 flex items-center justify-center group-hover:bg-orange-200 transition-colors duration-200">
-                <Building2 className="w-8 h-8 text-orange-600" />
-              </div>
-              <h2 className="text-2xl font-bold text-gray-900 mb-2">Houston</h2>
-              <p className="text-sm text-gray-500 mb-1">2026</p>
-              <p className="text-gray-600">Access Houston event dashboard</p>
-            </div>
-          </button>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {events.map((event, index) => {
+            const accent = ACCENTS[index % ACCENTS.length];
+            return (
+              <button
+                key={event.id}
+                onClick={() => onCitySelect(event.id)}
+                className="group bg-white rounded-2xl shadow-lg border border-gray-100 p-8 hover:shadow-xl hover:scale-105 transition-all duration-200"
+              >
+                <div className="text-center">
+                  <div className={`w-16 h-16 ${accent.card} rounded-xl mx-auto mb-4 flex items-center justify-center transition-colors duration-200`}>
+                    <Building2 className={`w-8 h-8 ${accent.icon}`} />
+                  </div>
+                  <h2 className="text-2xl font-bold text-gray-900 mb-2">{event.name}</h2>
+                  <p className="text-sm text-gray-500 mb-1">{event.year}</p>
+                  <p className="text-gray-600">Access {event.short_name} event dashboard</p>
+                </div>
+              </button>
+            );
+          })}
         </div>
 
+        {events.length === 0 && !error && (
+          <p className="text-center text-gray-600">No events are open right now.</p>
+        )}
+
         <div className="mt-8 text-center">
           <p className="text-sm text-gray-500">
             Choose the city you want to manage and view analytics for
@@ -69,4 +71,4 @@ export function CitySelector({ onCitySelect }: CitySelectorProps) {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
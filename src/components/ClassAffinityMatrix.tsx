@@ -0,0 +1,231 @@
+import { useMemo, useState } from 'react';
+import { Download, Grid3x3 } from 'lucide-react';
+import type { DatasetMetrics } from '../utils/metrics';
+import { alsoBought, buildClassAffinity } from '../utils/affinity';
+
+interface ClassAffinityMatrixProps {
+  metrics: DatasetMetrics;
+}
+
+type AffinityView = 'customers' | 'lift';
+
+// Larger matrices stop fitting on screen; the export and the per-class list cover every class
+const MAX_MATRIX_CLASSES = 15;
+// Lift at or above this gets the darkest shade
+const MAX_SHADED_LIFT = 3;
+
+const COUNT_SHADES = ['bg-blue-100', 'bg-blue-200', 'bg-blue-300', 'bg-blue-400', 'bg-blue-500', 'bg-blue-600', 'bg-blue-700'];
+const LIFT_SHADES = ['bg-green-100', 'bg-green-200', 'bg-green-300', 'bg-green-400', 'bg-green-500', 'bg-green-600', 'bg-green-700'];
+
+const formatLift = (lift: number) => `${lift.toFixed(1)}×`;
+
+export function ClassAffinityMatrix({ metrics }: ClassAffinityMatrixProps) {
+  const [view, setView] = useState<AffinityView>('customers');
+  const [selectedClass, setSelectedClass] = useState<string | null>(null);
+
+  const affinity = useMemo(() => buildClassAffinity(metrics), [metrics]);
+  const shown = affinity.classes.slice(0, MAX_MATRIX_CLASSES);
+  const focusClass = selectedClass && affinity.classes.some(cls => cls.name === selectedClass)
+    ? selectedClass
+    : affinity.classes[0]?.name ?? null;
+  const focus = affinity.classes.find(cls => cls.name === focusClass);
+  const pairings = useMemo(() => (focusClass ? alsoBought(affinity, focusClass) : []), [affinity, focusClass]);
+
+  const maxTogether = Math.max(0, ...shown.flatMap((_, i) => shown.map((_, j) => (i === j ? 0 : affinity.together[i][j]))));
+
+  // Off-diagonal cells only; the diagonal shows each class's own customers unshaded
+  const shadeFor = (i: number, j: number) => {
+    if (i === j) return 'bg-gray-100';
+    if (view === 'lift') {
+      const lift = affinity.lift[i][j];
+      if (lift <= 1) return lift > 0 ? 'bg-red-50' : 'bg-gray-50';
+      const index = Math.min(LIFT_SHADES.length - 1, Math.floor(((lift - 1) / (MAX_SHADED_LIFT - 1)) * LIFT_SHADES.length));
+      return LIFT_SHADES[index];
+    }
+    const together = affinity.together[i][j];
+    if (together === 0 || maxTogether === 0) return 'bg-gray-50';
+    const index = Math.min(COUNT_SHADES.length - 1, Math.floor((together / maxTogether) * COUNT_SHADES.length));
+    return COUNT_SHADES[index];
+  };
+
+  const isDark = (i: number, j: number) => i !== j && (view === 'lift'
+    ? affinity.lift[i][j] >= 1 + (MAX_SHADED_LIFT - 1) * 0.6
+    : maxTogether > 0 && affinity.together[i][j] / maxTogether >= 0.6);
+
+  const exportPairs = () => {
+    const rows = affinity.classes.flatMap((a, i) => affinity.classes.slice(i + 1).map((b, offset) => {
+      const j = i + 1 + offset;
+      return { a, b, together: affinity.together[i][j], lift: affinity.lift[i][j] };
+    })).filter(pair => pair.together > 0)
+      .sort((x, y) => y.together - x.together);
+
+    const csvContent = [
+      'Class A,Class B,Customers Who Bought Both,Class A Customers,Class B Customers,Share of A,Share of B,Lift',
+      ...rows.map(({ a, b, together, lift }) =>
+        `"${a.name}","${b.name}",${together},${a.customers},${b.customers},${((together / a.customers) * 100).toFixed(1)}%,${((together / b.customers) * 100).toFixed(1)}%,${lift.toFixed(2)}`
+      )
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'ebony-fit-class-affinity.csv';
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  if (affinity.classes.length < 2) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-12 text-center">
+        <Grid3x3 className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Not Enough Classes</h3>
+        <p className="text-gray-600">Class pairings appear once customers hold tickets for at least two classes.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Class Affinity</h2>
+            <p className="text-gray-600">
+              How many of {affinity.totalCustomers.toLocaleString()} customers hold tickets for both classes. Lift above 1× means the pair sells together more than chance.
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <div className="flex bg-gray-100 rounded-lg p-1">
+              {(['customers', 'lift'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`px-3 py-1 text-sm font-medium rounded-md transition-colors duration-200 ${
+                    view === option ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {option === 'customers' ? 'Customers' : 'Lift'}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={exportPairs}
+              className="inline-flex items-center space-x-2 px-4 py-2 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 transition-colors duration-200"
+            >
+              <Download className="w-4 h-4" />
+              <span>Export Pairs</span>
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="border-separate" style={{ borderSpacing: '2px' }}>
+            <thead>
+              <tr>
+                <th></th>
+                {shown.map((cls, j) => (
+                  <th key={cls.name} className="text-xs font-medium text-gray-500 w-12" title={cls.name}>{j + 1}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map((row, i) => (
+                <tr key={row.name}>
+                  <td className="text-sm text-gray-700 pr-2 whitespace-nowrap max-w-xs truncate" title={row.name}>
+                    <span className="text-xs text-gray-400 mr-1">{i + 1}.</span>
+                    {row.name}
+                  </td>
+                  {shown.map((column, j) => (
+                    <td
+                      key={column.name}
+                      onClick={() => setSelectedClass(row.name)}
+                      className={`w-12 h-10 rounded text-center text-xs cursor-pointer ${shadeFor(i, j)} ${isDark(i, j) ? 'text-white' : 'text-gray-700'}`}
+                      title={i === j
+                        ? `${row.name}: ${row.customers} customers`
+                        : `${row.name} + ${column.name}: ${affinity.together[i][j]} customers, lift ${formatLift(affinity.lift[i][j])}`}
+                    >
+                      {i === j
+                        ? row.customers
+                        : view === 'lift'
+                          ? (affinity.together[i][j] > 0 ? formatLift(affinity.lift[i][j]) : '')
+                          : (affinity.together[i][j] > 0 ? affinity.together[i][j] : '')}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {affinity.classes.length > MAX_MATRIX_CLASSES && (
+          <p className="mt-4 text-sm text-gray-500">
+            Showing the {MAX_MATRIX_CLASSES} most-bought of {affinity.classes.length} classes. The export and the list below include every class.
+          </p>
+        )}
+        <p className="mt-2 text-sm text-gray-500">
+          Only tickets still held are counted, and bundle passes are left out. The diagonal shows each class's own customers.
+        </p>
+      </div>
+
+      {focus && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Customers Who Bought {focus.name} Also Bought</h3>
+              <p className="text-sm text-gray-600">{focus.customers} customers hold tickets for {focus.name}</p>
+            </div>
+            <select
+              value={focus.name}
+              onChange={(e) => setSelectedClass(e.target.value)}
+              className="border border-gray-200 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {affinity.classes.map(cls => (
+                <option key={cls.name} value={cls.name}>{cls.name}</option>
+              ))}
+            </select>
+          </div>
+
+          {pairings.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="text-left py-3 px-4 font-medium text-gray-700">Class</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-700">Customers</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-700">Share of {focus.name} Buyers</th>
+                    <th className="py-3 px-4"></th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-700">Lift</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {pairings.map(pairing => (
+                    <tr key={pairing.name} className="hover:bg-gray-50">
+                      <td className="py-3 px-4 text-gray-900">{pairing.name}</td>
+                      <td className="py-3 px-4 text-right text-gray-600">{pairing.customers}</td>
+                      <td className="py-3 px-4 text-right font-medium text-gray-900">{Math.round(pairing.share * 100)}%</td>
+                      <td className="py-3 px-4 w-32">
+                        <div className="w-full bg-gray-200 rounded-full h-2">
+                          <div className="bg-blue-600 h-2 rounded-full" style={{ width: `${pairing.share * 100}%` }} />
+                        </div>
+                      </td>
+                      <td className="py-3 px-4 text-right">
+                        <span className={`inline-block px-2 py-0.5 text-xs font-medium rounded-full ${
+                          pairing.lift > 1 ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                        }`}>
+                          {formatLift(pairing.lift)}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Nobody who bought {focus.name} holds tickets for another class.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
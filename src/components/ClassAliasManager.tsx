@@ -0,0 +1,237 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Tags, ArrowRight, Save, Trash2, AlertCircle, X } from 'lucide-react';
+import type { ParsedOrder } from '../utils/csvParser';
+import type { ClassAlias } from '../utils/classAliases';
+import type { AliasChange } from '../hooks/useClassAliases';
+import { isActiveTicket } from '../utils/revenue';
+
+interface ClassAliasManagerProps {
+  // Orders before aliases are applied
+  data: ParsedOrder[];
+  aliases: ClassAlias[];
+  onSave: (changes: AliasChange[]) => Promise<{ success: boolean; error?: string }>;
+  onClose: () => void;
+}
+
+interface BuiltInClass {
+  name: string;
+  rawNames: string[];
+  tickets: number;
+}
+
+const key = (name: string) => name.trim().toLowerCase();
+
+export function ClassAliasManager({ data, aliases, onSave, onClose }: ClassAliasManagerProps) {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Classes as the built-in cleanup names them, with the raw export names behind each
+  const builtInClasses = useMemo(() => {
+    const classes = new Map<string, BuiltInClass>();
+    data.forEach(order => {
+      const cls = classes.get(order.className) || { name: order.className, rawNames: [], tickets: 0 };
+      if (!cls.rawNames.includes(order.rawClassName)) {
+        cls.rawNames.push(order.rawClassName);
+      }
+      if (isActiveTicket(order)) {
+        cls.tickets += order.quantity;
+      }
+      classes.set(order.className, cls);
+    });
+    return Array.from(classes.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }, [data]);
+
+  const savedAliases = useMemo(
+    () => new Map(aliases.map(alias => [key(alias.raw_name), alias])),
+    [aliases]
+  );
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries(
+      builtInClasses.map(cls => [cls.name, savedAliases.get(key(cls.name))?.canonical_name || ''])
+    ));
+  }, [builtInClasses, savedAliases]);
+
+  // Aliases on raw names or classes that aren't in the current data
+  const otherAliases = aliases.filter(alias =>
+    !builtInClasses.some(cls => key(cls.name) === key(alias.raw_name))
+  );
+
+  const preview = useMemo(() => {
+    const groups = new Map<string, { sources: BuiltInClass[]; tickets: number }>();
+    builtInClasses.forEach(cls => {
+      const target = drafts[cls.name]?.trim() || cls.name;
+      const group = groups.get(target) || { sources: [], tickets: 0 };
+      group.sources.push(cls);
+      group.tickets += cls.tickets;
+      groups.set(target, group);
+    });
+    return Array.from(groups.entries())
+      .filter(([target, group]) => group.sources.length > 1 || group.sources[0].name !== target)
+      .sort(([a], [b]) => a.localeCompare(b));
+  }, [builtInClasses, drafts]);
+
+  const changes: AliasChange[] = builtInClasses.flatMap(cls => {
+    const saved = savedAliases.get(key(cls.name))?.canonical_name || '';
+    const draft = drafts[cls.name]?.trim() || '';
+    const next = draft && draft !== cls.name ? draft : '';
+    if (next === saved) return [];
+    return [{ rawName: cls.name, canonicalName: next || null }];
+  });
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setSaveError(null);
+    const result = await onSave(changes);
+    setIsSaving(false);
+    if (!result.success) {
+      setSaveError(result.error || 'Failed to save class aliases');
+    }
+  };
+
+  const removeOtherAlias = async (alias: ClassAlias) => {
+    setSaveError(null);
+    const result = await onSave([{ rawName: alias.raw_name, canonicalName: null }]);
+    if (!result.success) {
+      setSaveError(result.error || 'Failed to remove class alias');
+    }
+  };
+
+  const canonicalOptions = Array.from(new Set([
+    ...builtInClasses.map(cls => cls.name),
+    ...aliases.map(alias => alias.canonical_name)
+  ])).sort();
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-3">
+          <Tags className="w-5 h-5 text-purple-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Class Names</h3>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-gray-500 rounded-lg hover:bg-gray-100 transition-colors duration-200"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Give classes a display name to merge variants the platform exports under different names. Leave a name blank to keep it as is. Changes apply to every tab for this city.
+      </p>
+
+      {saveError && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-start space-x-3">
+            <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
+            <p className="text-sm text-red-700">{saveError}</p>
+          </div>
+        </div>
+      )}
+
+      <datalist id="class-alias-options">
+        {canonicalOptions.map(name => <option key={name} value={name} />)}
+      </datalist>
+
+      <div className="border border-gray-100 rounded-lg overflow-hidden">
+        <div className="max-h-96 overflow-y-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Class</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tickets</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Show As</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {builtInClasses.map(cls => (
+                <tr key={cls.name} className="hover:bg-gray-50">
+                  <td className="px-4 py-3">
+                    <p className="text-sm font-medium text-gray-900">{cls.name}</p>
+                    {cls.rawNames.some(raw => raw !== cls.name) && (
+                      <p className="text-xs text-gray-500 mt-1">Exported as: {cls.rawNames.join(' • ')}</p>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-900">{cls.tickets}</td>
+                  <td className="px-4 py-3">
+                    <input
+                      type="text"
+                      list="class-alias-options"
+                      value={drafts[cls.name] || ''}
+                      onChange={(e) => setDrafts(prev => ({ ...prev, [cls.name]: e.target.value }))}
+                      placeholder={cls.name}
+                      className="w-full border border-gray-200 rounded-md px-3 py-1.5 text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="mt-6">
+        <h4 className="text-sm font-semibold text-gray-900 mb-2">Preview</h4>
+        {preview.length === 0 ? (
+          <p className="text-sm text-gray-500">Every class keeps its exported name.</p>
+        ) : (
+          <div className="space-y-2">
+            {preview.map(([target, group]) => (
+              <div key={target} className="flex flex-col sm:flex-row sm:items-center gap-2 bg-gray-50 rounded-lg px-4 py-3">
+                <div className="flex flex-wrap gap-1 flex-1">
+                  {group.sources.map(cls => (
+                    <span key={cls.name} className="inline-block px-2 py-1 bg-white border border-gray-200 text-gray-700 text-xs rounded-md">
+                      {cls.name}
+                    </span>
+                  ))}
+                </div>
+                <ArrowRight className="w-4 h-4 text-gray-400 hidden sm:block" />
+                <div className="sm:w-1/3">
+                  <p className="text-sm font-medium text-gray-900">{target}</p>
+                  <p className="text-xs text-gray-500">{group.tickets} tickets</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {otherAliases.length > 0 && (
+        <div className="mt-6">
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">Other Saved Aliases</h4>
+          <p className="text-xs text-gray-500 mb-2">Set on exported names directly or on classes that aren't in the current upload.</p>
+          <div className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+            {otherAliases.map(alias => (
+              <div key={alias.id} className="flex items-center justify-between px-4 py-2">
+                <p className="text-sm text-gray-700">
+                  {alias.raw_name} <span className="text-gray-400">→</span> {alias.canonical_name}
+                </p>
+                <button
+                  onClick={() => removeOtherAlias(alias)}
+                  className="p-1.5 text-gray-500 rounded-lg hover:bg-gray-100 hover:text-red-600 transition-colors duration-200"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="mt-6 flex items-center justify-end space-x-3">
+        <span className="text-sm text-gray-500">
+          {changes.length === 0 ? 'No unsaved changes' : `${changes.length} unsaved change${changes.length === 1 ? '' : 's'}`}
+        </span>
+        <button
+          onClick={handleSave}
+          disabled={changes.length === 0 || isSaving}
+          className="inline-flex items-center space-x-2 px-4 py-2 bg-purple-600 text-white font-medium rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors duration-200 text-sm"
+        >
+          <Save className="w-4 h-4" />
+          <span>{isSaving ? 'Saving...' : 'Save Names'}</span>
+        </button>
+      </div>
+    </div>
+  );
+}
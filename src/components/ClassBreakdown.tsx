@@ -1,141 +1,27 @@
 import React, { useState, useMemo } from 'react';
-import { Search, SortAsc, SortDesc, Download } from 'lucide-react';
-import { type ParsedOrder } from '../utils/csvParser';
+import { Search, SortAsc, SortDesc, Download, RotateCcw } from 'lucide-react';
+import type { DatasetMetrics } from '../utils/metrics';
+import type { SalesForecast } from '../utils/forecast';
+import { CapacityBadge, SellThroughBar } from './CapacityBadge';
+import { ForecastBasisNote } from './ForecastBasisNote';
 
 interface ClassBreakdownProps {
-  data: ParsedOrder[];
+  metrics: DatasetMetrics;
+  forecast?: SalesForecast | null;
   userRole?: 'master' | 'team';
 }
 
-// Complete list of Atlanta classes
-const ATLANTA_CLASSES = [
-  'GO GET IT CALESTHITICS',
-  'FOU BRUNCH BOOTCAMP',
-  'NEXT LEVEL BOOT CAMP',
-  'SUNDAY SERVICE',
-  'TRAP YOGA',
-  'EBONY FIT DEADLIFT PARTY',
-  'POWER HOUR',
-  'BODY BLAST DRIP CHECK',
-  'BOXING MITT CAMP',
-  'PEACH CAMP',
-  'BANDS & BADDIES',
-  'KEDDLESTHENICS',
-  'CLIMATE CONTROL',
-  'ONLY YAMS GLUTE CAMP',
-  'SPIN CLASS',
-  'TRAP MOBILITY',
-  'HYPE HIIT',
-  'TRAP BOXING',
-  'BRICK FIT',
-  'TWERK FIT, GIRLS NIGHT OUT',
-  'VIP LOUNGE',
-  'CLASS TICKET BUNDLES - 2 Class Ticket Bundle',
-  'CLASS TICKET BUNDLES - 3 Class Ticket Bundle',
-  'CLASS TICKET BUNDLES - 4 Class Ticket Bundle'
-];
-
-// Complete list of Houston classes
-const HOUSTON_CLASSES = [
-  'CLASS TICKET BUNDLES - 2 Class Ticket Bundle',
-  'CLASS TICKET BUNDLES - 3 Class Ticket Bundle',
-  'CLASS TICKET BUNDLES - 4 Class Ticket Bundle',
-  'VIP LOUNGE',
-  'FAMILY & FRIENDS LIFT PARTY',
-  'AFRO BEAT BOOTCAMP',
-  'TRAP SCULPT & MOBILITY',
-  'GLUTE CAMP',
-  'HTX - NORTHSIDE VS SOUTHSIDE',
-  'ONLY YAMS',
-  'STEP WITH MARSHE',
-  'POWER HOUR',
-  'BRICK WIT RINA',
-  'EBONY FIT DEADLIFT PARTY',
-  'TRAP YOGA',
-  'RECOMP BOOTCAMP',
-  'LINE DANCE LAB',
-  'BEAT BOXING BOOTCAMP',
-  'EBONY FIT CLOSE OUT'
-];
-
-export function ClassBreakdown({ data, userRole }: ClassBreakdownProps) {
+export function ClassBreakdown({ metrics, forecast, userRole }: ClassBreakdownProps) {
   const [searchTerm, setSearchTerm] = useState('');
-  const [sortField, setSortField] = useState<'name' | 'quantity' | 'revenue'>('quantity');
+  const [sortField, setSortField] = useState<'name' | 'quantity' | 'revenue' | 'sellThrough'>('quantity');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [showRefunds, setShowRefunds] = useState(false);
   
   const isMaster = userRole === 'master';
 
-  const classStats = useMemo(() => {
-    // First, determine which city this data is for
-    const isAtlantaData = data.some(order => 
-      order.sourceName === 'Ebony Fit Weekend - Atlanta'
-    );
-    const isHoustonData = data.some(order => 
-      order.sourceName === 'Ebony Fit Weekend - Houston'
-    );
-    
-    // Initialize stats with all classes (for Atlanta/Houston) or empty object (for DC)
-    const initialStats: Record<string, {
-      name: string;
-      quantity: number;
-      revenue: number;
-      customers: Set<string>;
-      orders: ParsedOrder[];
-    }> = {};
-    
-    if (isAtlantaData) {
-      // For Atlanta, initialize all classes with zero values
-      ATLANTA_CLASSES.forEach(className => {
-        initialStats[className] = {
-          name: className,
-          quantity: 0,
-          revenue: 0,
-          customers: new Set<string>(),
-          orders: []
-        };
-      });
-    } else if (isHoustonData) {
-      // For Houston, initialize all classes with zero values
-      HOUSTON_CLASSES.forEach(className => {
-        initialStats[className] = {
-          name: className,
-          quantity: 0,
-          revenue: 0,
-          customers: new Set<string>(),
-          orders: []
-        };
-      });
-    }
-    
-    const stats = data.reduce((acc, order) => {
-      const className = order.className;
-      if (!acc[className]) {
-        acc[className] = {
-          name: className,
-          quantity: 0,
-          revenue: 0,
-          customers: new Set<string>(),
-          orders: []
-        };
-      }
-      acc[className].quantity += order.quantity;
-      
-      // Calculate proportional revenue for this line item
-      const lineItemRevenueContribution = order.orderSubTotal > 0 
-        ? order.lineItemSubtotal + (order.lineItemSubtotal / order.orderSubTotal) * order.orderTaxAmount
-        : order.lineItemSubtotal;
-      
-      acc[className].revenue += lineItemRevenueContribution;
-      acc[className].customers.add(order.customerEmail);
-      acc[className].orders.push(order);
-      return acc;
-    }, initialStats);
+  const classStats = metrics.classes;
 
-    return Object.values(stats).map(stat => ({
-      ...stat,
-      uniqueCustomers: stat.customers.size
-    }));
-  }, [data]);
+  const hasCapacities = classStats.some(cls => cls.capacity !== null);
 
   const filteredAndSortedClasses = useMemo(() => {
     let filtered = classStats.filter(cls =>
@@ -158,6 +44,11 @@ export function ClassBreakdown({ data, userRole }: ClassBreakdownProps) {
           aValue = a.revenue;
           bValue = b.revenue;
           break;
+        case 'sellThrough':
+          // Uncapped classes sort below every capped one
+          aValue = a.capacity ? a.capacity.sellThrough : -1;
+          bValue = b.capacity ? b.capacity.sellThrough : -1;
+          break;
         default:
           return 0;
       }
@@ -186,15 +77,24 @@ export function ClassBreakdown({ data, userRole }: ClassBreakdownProps) {
   };
 
   const exportClassData = () => {
-    const headers = isMaster 
-      ? 'Class Name,Tickets Sold,Revenue,Unique Customers,Average per Customer'
-      : 'Class Name,Tickets Sold,Unique Customers';
+    const headers = (isMaster 
+      ? 'Class Name,Tickets Sold,Capacity,Remaining,Sell-Through,Refunded Tickets,Gross Revenue,Refunds,Bundle Revenue,Net Revenue,Unique Customers,Average per Customer'
+      : 'Class Name,Tickets Sold,Capacity,Remaining,Sell-Through,Unique Customers')
+      + (forecast ? ',Forecast Tickets,Forecast Low,Forecast High' : '')
+      + (forecast && isMaster ? ',Forecast Revenue' : '');
     
-    const rows = filteredAndSortedClasses.map(cls => 
-      isMaster 
-        ? `"${cls.name}",${cls.quantity},$${cls.revenue.toFixed(2)},${cls.uniqueCustomers},$${(cls.revenue / cls.uniqueCustomers).toFixed(2)}`
-        : `"${cls.name}",${cls.quantity},${cls.uniqueCustomers}`
-    );
+    const rows = filteredAndSortedClasses.map(cls => {
+      const capacity = cls.capacity
+        ? `${cls.capacity.capacity},${cls.capacity.remaining},${Math.round(cls.capacity.sellThrough * 100)}%`
+        : ',,';
+      const classForecast = forecast?.classes[cls.name];
+      const forecastColumns = classForecast
+        ? `,${Math.round(classForecast.tickets.expected)},${Math.round(classForecast.tickets.low)},${Math.round(classForecast.tickets.high)}${isMaster ? `,$${classForecast.revenue.expected.toFixed(2)}` : ''}`
+        : '';
+      return (isMaster 
+        ? `"${cls.name}",${cls.quantity},${capacity},${cls.refundedTickets},$${cls.grossRevenue.toFixed(2)},$${cls.refunds.toFixed(2)},$${cls.bundleRevenue.toFixed(2)},$${cls.revenue.toFixed(2)},${cls.uniqueCustomers},$${(cls.uniqueCustomers > 0 ? cls.revenue / cls.uniqueCustomers : 0).toFixed(2)}`
+        : `"${cls.name}",${cls.quantity},${capacity},${cls.uniqueCustomers}`) + forecastColumns;
+    });
 
     const csvContent = [headers, ...rows].join('\n');
 
@@ -214,15 +114,34 @@ export function ClassBreakdown({ data, userRole }: ClassBreakdownProps) {
           <h2 className="text-xl font-semibold text-gray-900">
             {isMaster ? 'Class Performance Breakdown' : 'Class Breakdown'}
           </h2>
-          <button
-            onClick={exportClassData}
-            className="inline-flex items-center space-x-2 px-4 py-2 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 transition-colors duration-200"
-          >
-            <Download className="w-4 h-4" />
-            <span>Export CSV</span>
-          </button>
+          <div className="flex items-center space-x-2">
+            {isMaster && (
+              <button
+                onClick={() => setShowRefunds(!showRefunds)}
+                className={`inline-flex items-center space-x-2 px-4 py-2 font-medium rounded-lg transition-colors duration-200 ${
+                  showRefunds ? 'bg-red-100 text-red-700 hover:bg-red-200' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                <RotateCcw className="w-4 h-4" />
+                <span>{showRefunds ? 'Hide Refunds' : 'Show Refunds'}</span>
+              </button>
+            )}
+            <button
+              onClick={exportClassData}
+              className="inline-flex items-center space-x-2 px-4 py-2 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 transition-colors duration-200"
+            >
+              <Download className="w-4 h-4" />
+              <span>Export CSV</span>
+            </button>
+          </div>
         </div>
         
+        {forecast && (
+          <div className="mb-4">
+            <ForecastBasisNote forecast={forecast} />
+          </div>
+        )}
+
         <div className="relative">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
           <input
@@ -261,13 +180,49 @@ export function ClassBreakdown({ data, userRole }: ClassBreakdownProps) {
                   )}
                 </button>
               </th>
+              {hasCapacities && (
+                <>
+                  <th className="text-right py-3 px-6">
+                    <button
+                      onClick={() => handleSort('sellThrough')}
+                      className="flex items-center space-x-1 text-sm font-medium text-gray-700 hover:text-gray-900"
+                    >
+                      <span>Sell-Through</span>
+                      {sortField === 'sellThrough' && (
+                        sortOrder === 'asc' ? <SortAsc className="w-4 h-4" /> : <SortDesc className="w-4 h-4" />
+                      )}
+                    </button>
+                  </th>
+                  <th className="text-right py-3 px-6">
+                    <span className="text-sm font-medium text-gray-700">Remaining</span>
+                  </th>
+                </>
+              )}
+              {forecast && (
+                <th className="text-right py-3 px-6">
+                  <span className="text-sm font-medium text-gray-700">Forecast</span>
+                </th>
+              )}
+              {isMaster && showRefunds && (
+                <>
+                  <th className="text-right py-3 px-6">
+                    <span className="text-sm font-medium text-gray-700">Refunded</span>
+                  </th>
+                  <th className="text-right py-3 px-6">
+                    <span className="text-sm font-medium text-gray-700">Gross</span>
+                  </th>
+                  <th className="text-right py-3 px-6">
+                    <span className="text-sm font-medium text-gray-700">Refunds</span>
+                  </th>
+                </>
+              )}
               {isMaster && (
                 <th className="text-right py-3 px-6">
                   <button
                     onClick={() => handleSort('revenue')}
                     className="flex items-center space-x-1 text-sm font-medium text-gray-700 hover:text-gray-900"
                   >
-                    <span>Revenue</span>
+                    <span>{showRefunds ? 'Net Revenue' : 'Revenue'}</span>
                     {sortField === 'revenue' && (
                       sortOrder === 'asc' ? <SortAsc className="w-4 h-4" /> : <SortDesc className="w-4 h-4" />
                     )}
@@ -288,16 +243,65 @@ export function ClassBreakdown({ data, userRole }: ClassBreakdownProps) {
             {filteredAndSortedClasses.map((cls) => (
               <tr key={cls.name} className="hover:bg-gray-50 transition-colors duration-150">
                 <td className="py-4 px-6">
-                  <div className="font-medium text-gray-900">{cls.name}</div>
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-gray-900">{cls.name}</span>
+                    <CapacityBadge info={cls.capacity} />
+                  </div>
                 </td>
                 <td className="py-4 px-6 text-right">
                   <span className="inline-flex items-center px-2 py-1 bg-blue-100 text-blue-800 text-sm font-medium rounded-full">
-                    {cls.quantity}
+                    {cls.quantity}{cls.capacity && ` / ${cls.capacity.capacity}`}
                   </span>
                 </td>
+                {hasCapacities && (
+                  <>
+                    <td className="py-4 px-6 text-right">
+                      <SellThroughBar info={cls.capacity} />
+                    </td>
+                    <td className="py-4 px-6 text-right text-gray-600">
+                      {cls.capacity ? cls.capacity.remaining : '—'}
+                    </td>
+                  </>
+                )}
+                {forecast && (
+                  <td className="py-4 px-6 text-right">
+                    {forecast.classes[cls.name] && (
+                      <>
+                        <span className="font-medium text-indigo-700">~{Math.round(forecast.classes[cls.name].tickets.expected)}</span>
+                        <p className="text-xs text-gray-500">
+                          {Math.round(forecast.classes[cls.name].tickets.low)}–{Math.round(forecast.classes[cls.name].tickets.high)}
+                          {forecast.classes[cls.name].capped && ' • at capacity'}
+                        </p>
+                        {isMaster && (
+                          <p className="text-xs text-gray-500">${forecast.classes[cls.name].revenue.expected.toFixed(2)}</p>
+                        )}
+                      </>
+                    )}
+                  </td>
+                )}
+                {isMaster && showRefunds && (
+                  <>
+                    <td className="py-4 px-6 text-right text-gray-600">
+                      {cls.refundedTickets}
+                    </td>
+                    <td className="py-4 px-6 text-right text-gray-600">
+                      ${cls.grossRevenue.toFixed(2)}
+                    </td>
+                    <td className="py-4 px-6 text-right text-red-600">
+                      {cls.refunds > 0 ? `-$${cls.refunds.toFixed(2)}` : '$0.00'}
+                    </td>
+                  </>
+                )}
                 {isMaster && (
                   <td className="py-4 px-6 text-right font-medium text-gray-900">
                     ${cls.revenue.toFixed(2)}
+                    {Math.abs(cls.bundleRevenue) >= 0.005 && (
+                      <p className="text-xs font-normal text-gray-500">
+                        {cls.bundleRevenue > 0
+                          ? `incl. $${cls.bundleRevenue.toFixed(2)} from bundles`
+                          : `$${(-cls.bundleRevenue).toFixed(2)} moved to redeemed classes`}
+                      </p>
+                    )}
                   </td>
                 )}
                 <td className="py-4 px-6 text-right text-gray-600">
@@ -305,7 +309,7 @@ export function ClassBreakdown({ data, userRole }: ClassBreakdownProps) {
                 </td>
                 {isMaster && (
                   <td className="py-4 px-6 text-right text-gray-600">
-                    ${(cls.revenue / cls.uniqueCustomers).toFixed(2)}
+                    {cls.uniqueCustomers > 0 ? `$${(cls.revenue / cls.uniqueCustomers).toFixed(2)}` : '—'}
                   </td>
                 )}
               </tr>
@@ -0,0 +1,437 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ClipboardList, Plus, Save, Trash2, Upload, AlertCircle, X } from 'lucide-react';
+import type { ParsedOrder } from '../utils/csvParser';
+import { buildCatalogLookup, findCatalogClass, type CatalogClass } from '../utils/classCatalog';
+import { tokenizeCSV } from '../utils/csvTokenizer';
+import { normalizeDateInput, normalizeTimeInput } from '../utils/schedule';
+import type { CatalogClassInput } from '../hooks/useClassCatalog';
+
+interface ClassCatalogManagerProps {
+  // Orders with class aliases applied
+  data: ParsedOrder[];
+  classes: CatalogClass[];
+  onSave: (entries: CatalogClassInput[]) => Promise<{ success: boolean; error?: string }>;
+  onDelete: (id: string) => Promise<{ success: boolean; error?: string }>;
+  onClose: () => void;
+}
+
+interface DraftRow {
+  key: string;
+  id?: string;
+  name: string;
+  capacity: string;
+  price: string;
+  is_active: boolean;
+  session_date: string;
+  start_time: string;
+  duration: string;
+  location: string;
+  bundle_slots: string;
+}
+
+type ImportedFields = Partial<Pick<DraftRow, 'capacity' | 'price' | 'session_date' | 'start_time' | 'duration' | 'location' | 'bundle_slots'>>;
+
+const toDraft = (entry: CatalogClass): DraftRow => ({
+  key: entry.id,
+  id: entry.id,
+  name: entry.name,
+  capacity: entry.capacity === null ? '' : String(entry.capacity),
+  price: entry.price === null ? '' : entry.price.toFixed(2),
+  is_active: entry.is_active,
+  session_date: entry.session_date || '',
+  start_time: entry.start_time?.slice(0, 5) || '',
+  duration: entry.duration_minutes === null ? '' : String(entry.duration_minutes),
+  location: entry.location || '',
+  bundle_slots: entry.bundle_slots === null ? '' : String(entry.bundle_slots)
+});
+
+const parseNumber = (value: string): number | null => {
+  const cleaned = value.replace(/[$,\s]/g, '');
+  if (!cleaned) return null;
+  const number = parseFloat(cleaned);
+  return isNaN(number) ? null : number;
+};
+
+let nextDraftKey = 1;
+
+export function ClassCatalogManager({ data, classes, onSave, onDelete, onClose }: ClassCatalogManagerProps) {
+  const [rows, setRows] = useState<DraftRow[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [importNote, setImportNote] = useState<string | null>(null);
+
+  useEffect(() => {
+    setRows(classes.map(toDraft));
+  }, [classes]);
+
+  const savedById = useMemo(() => new Map(classes.map(entry => [entry.id, toDraft(entry)])), [classes]);
+
+  // Classes that sold tickets but aren't in the catalog yet
+  const uncatalogued = useMemo(() => {
+    const lookup = buildCatalogLookup(classes);
+    return Array.from(new Set(data.map(order => order.className)))
+      .filter(name => !findCatalogClass(lookup, name))
+      .sort();
+  }, [data, classes]);
+
+  const isDirty = (row: DraftRow) => {
+    if (!row.id) return row.name.trim() !== '';
+    const saved = savedById.get(row.id);
+    return !saved
+      || saved.name !== row.name.trim()
+      || parseNumber(saved.capacity) !== parseNumber(row.capacity)
+      || parseNumber(saved.price) !== parseNumber(row.price)
+      || saved.is_active !== row.is_active
+      || saved.session_date !== row.session_date
+      || saved.start_time !== row.start_time
+      || parseNumber(saved.duration) !== parseNumber(row.duration)
+      || saved.location !== row.location.trim()
+      || parseNumber(saved.bundle_slots) !== parseNumber(row.bundle_slots);
+  };
+
+  const dirtyRows = rows.filter(isDirty);
+
+  const updateRow = (key: string, changes: Partial<DraftRow>) => {
+    setRows(prev => prev.map(row => row.key === key ? { ...row, ...changes } : row));
+  };
+
+  const addRows = (names: string[], imported: Record<string, ImportedFields> = {}) => {
+    setRows(prev => {
+      const byName = new Map(prev.map(row => [row.name.trim().toLowerCase(), row]));
+      const added: DraftRow[] = [];
+      const updated = [...prev];
+      names.forEach(name => {
+        const existing = name.trim() ? byName.get(name.trim().toLowerCase()) : undefined;
+        if (existing) {
+          // Spreadsheet imports fill in the details of classes already listed
+          const index = updated.indexOf(existing);
+          updated[index] = { ...existing, ...imported[name] };
+        } else {
+          added.push({
+            key: `new-${nextDraftKey++}`,
+            name,
+            capacity: '',
+            price: '',
+            is_active: true,
+            session_date: '',
+            start_time: '',
+            duration: '',
+            location: '',
+            bundle_slots: '',
+            ...imported[name]
+          });
+        }
+      });
+      return [...updated, ...added];
+    });
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setImportNote(null);
+    setSaveError(null);
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const { records } = tokenizeCSV(e.target?.result as string);
+      if (records.length < 2) {
+        setSaveError('That spreadsheet has no rows to import.');
+        return;
+      }
+
+      const headers = records[0].fields.map(header => header.trim().toLowerCase());
+      const nameIndex = headers.findIndex(header => header === 'class' || header === 'class name' || header === 'name');
+      const columnIndex = (...names: string[]) => headers.findIndex(header => names.includes(header));
+      const columns = {
+        capacity: columnIndex('capacity', 'spots'),
+        price: columnIndex('price'),
+        session_date: columnIndex('date', 'day'),
+        start_time: columnIndex('start', 'start time', 'time'),
+        duration: columnIndex('duration', 'minutes'),
+        location: columnIndex('location', 'room'),
+        bundle_slots: columnIndex('bundle slots', 'slots')
+      };
+      if (nameIndex === -1) {
+        setSaveError('The spreadsheet needs a "Class Name" column, plus any of Capacity, Price, Date, Start Time, Duration, Location and Bundle Slots.');
+        return;
+      }
+
+      const names: string[] = [];
+      const imported: Record<string, ImportedFields> = {};
+      records.slice(1).forEach(({ fields }) => {
+        const name = fields[nameIndex]?.replace(/\s+/g, ' ').trim();
+        if (!name) return;
+        names.push(name);
+
+        const value = (index: number) => index === -1 ? undefined : fields[index]?.trim() || '';
+        const fieldsForRow: ImportedFields = {};
+        (['capacity', 'price', 'duration', 'location', 'bundle_slots'] as const).forEach(key => {
+          const cell = value(columns[key]);
+          if (cell !== undefined) fieldsForRow[key] = cell;
+        });
+        const date = value(columns.session_date);
+        if (date !== undefined) fieldsForRow.session_date = normalizeDateInput(date) || '';
+        const time = value(columns.start_time);
+        if (time !== undefined) fieldsForRow.start_time = normalizeTimeInput(time) || '';
+        imported[name] = fieldsForRow;
+      });
+
+      addRows(names, imported);
+      setImportNote(`Loaded ${names.length} classes from ${file.name}. Review them and save.`);
+    };
+    reader.readAsText(file);
+  };
+
+  const handleSave = async () => {
+    const invalid = dirtyRows.find(row => row.capacity.trim() !== '' && (parseNumber(row.capacity) === null || parseNumber(row.capacity)! < 0));
+    if (invalid) {
+      setSaveError(`"${invalid.capacity}" isn't a valid capacity for ${invalid.name}.`);
+      return;
+    }
+    const badDuration = dirtyRows.find(row => row.duration.trim() !== '' && !(parseNumber(row.duration)! > 0));
+    if (badDuration) {
+      setSaveError(`"${badDuration.duration}" isn't a valid duration for ${badDuration.name}.`);
+      return;
+    }
+    const badSlots = dirtyRows.find(row => row.bundle_slots.trim() !== '' && !(parseNumber(row.bundle_slots)! >= 1));
+    if (badSlots) {
+      setSaveError(`"${badSlots.bundle_slots}" isn't a valid number of bundle slots for ${badSlots.name}.`);
+      return;
+    }
+
+    setIsSaving(true);
+    setSaveError(null);
+    const result = await onSave(dirtyRows.map(row => {
+      const capacity = parseNumber(row.capacity);
+      const duration = parseNumber(row.duration);
+      const bundleSlots = parseNumber(row.bundle_slots);
+      return {
+        id: row.id,
+        name: row.name,
+        capacity: capacity === null ? null : Math.round(capacity),
+        price: parseNumber(row.price),
+        is_active: row.is_active,
+        session_date: row.session_date || null,
+        start_time: row.start_time || null,
+        duration_minutes: duration === null ? null : Math.round(duration),
+        location: row.location.trim() || null,
+        bundle_slots: bundleSlots === null ? null : Math.round(bundleSlots)
+      };
+    }));
+    setIsSaving(false);
+    if (result.success) {
+      setImportNote(null);
+    } else {
+      setSaveError(result.error || 'Failed to save the class catalog');
+    }
+  };
+
+  const handleDelete = async (row: DraftRow) => {
+    if (!row.id) {
+      setRows(prev => prev.filter(other => other.key !== row.key));
+      return;
+    }
+    if (!window.confirm(`Remove ${row.name} from the catalog?`)) return;
+
+    const result = await onDelete(row.id);
+    if (!result.success) {
+      setSaveError(result.error || 'Failed to remove the class');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-3">
+          <ClipboardList className="w-5 h-5 text-purple-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Class Catalog</h3>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-gray-500 rounded-lg hover:bg-gray-100 transition-colors duration-200"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Every class offered at this event, with its capacity, ticket price and session time. Leave capacity blank for classes without a cap, and give ticket bundles the number of classes they cover. Inactive classes are hidden until they sell a ticket.
+      </p>
+
+      {saveError && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-start space-x-3">
+            <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
+            <p className="text-sm text-red-700">{saveError}</p>
+          </div>
+        </div>
+      )}
+
+      {importNote && (
+        <div className="mb-4 bg-blue-50 border border-blue-200 rounded-lg p-4">
+          <p className="text-sm text-blue-700">{importNote}</p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <button
+          onClick={() => addRows([''])}
+          className="inline-flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Class</span>
+        </button>
+        {uncatalogued.length > 0 && (
+          <button
+            onClick={() => addRows(uncatalogued)}
+            className="inline-flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add {uncatalogued.length} from this upload</span>
+          </button>
+        )}
+        <label className="inline-flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors duration-200 cursor-pointer">
+          <Upload className="w-4 h-4" />
+          <span>Import Spreadsheet</span>
+          <input type="file" accept=".csv" onChange={handleImport} className="hidden" />
+        </label>
+      </div>
+
+      <div className="border border-gray-100 rounded-lg overflow-hidden">
+        <div className="max-h-96 overflow-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Class</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Capacity</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Day</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Start</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Minutes</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Bundle</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Active</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rows.map(row => (
+                <tr key={row.key} className={isDirty(row) ? 'bg-yellow-50' : 'hover:bg-gray-50'}>
+                  <td className="px-4 py-2">
+                    <input
+                      type="text"
+                      value={row.name}
+                      onChange={(e) => updateRow(row.key, { name: e.target.value })}
+                      placeholder="Class name"
+                      className="w-full border border-gray-200 rounded-md px-3 py-1.5 text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    />
+                  </td>
+                  <td className="px-4 py-2">
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={row.capacity}
+                      onChange={(e) => updateRow(row.key, { capacity: e.target.value })}
+                      placeholder="No cap"
+                      className="w-24 border border-gray-200 rounded-md px-3 py-1.5 text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    />
+                  </td>
+                  <td className="px-4 py-2">
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={row.price}
+                      onChange={(e) => updateRow(row.key, { price: e.target.value })}
+                      placeholder="—"
+                      className="w-24 border border-gray-200 rounded-md px-3 py-1.5 text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    />
+                  </td>
+                  <td className="px-4 py-2">
+                    <input
+                      type="date"
+                      value={row.session_date}
+                      onChange={(e) => updateRow(row.key, { session_date: e.target.value })}
+                      className="border border-gray-200 rounded-md px-2 py-1.5 text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    />
+                  </td>
+                  <td className="px-4 py-2">
+                    <input
+                      type="time"
+                      value={row.start_time}
+                      onChange={(e) => updateRow(row.key, { start_time: e.target.value })}
+                      className="border border-gray-200 rounded-md px-2 py-1.5 text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    />
+                  </td>
+                  <td className="px-4 py-2">
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={row.duration}
+                      onChange={(e) => updateRow(row.key, { duration: e.target.value })}
+                      placeholder="60"
+                      className="w-16 border border-gray-200 rounded-md px-3 py-1.5 text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    />
+                  </td>
+                  <td className="px-4 py-2">
+                    <input
+                      type="text"
+                      value={row.location}
+                      onChange={(e) => updateRow(row.key, { location: e.target.value })}
+                      placeholder="—"
+                      className="w-32 border border-gray-200 rounded-md px-3 py-1.5 text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    />
+                  </td>
+                  <td className="px-4 py-2">
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={row.bundle_slots}
+                      onChange={(e) => updateRow(row.key, { bundle_slots: e.target.value })}
+                      placeholder="—"
+                      title="Number of class tickets this bundle covers"
+                      className="w-16 border border-gray-200 rounded-md px-3 py-1.5 text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    />
+                  </td>
+                  <td className="px-4 py-2">
+                    <input
+                      type="checkbox"
+                      checked={row.is_active}
+                      onChange={(e) => updateRow(row.key, { is_active: e.target.checked })}
+                      className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+                    />
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      onClick={() => handleDelete(row)}
+                      className="p-1.5 text-gray-500 rounded-lg hover:bg-gray-100 hover:text-red-600 transition-colors duration-200"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {rows.length === 0 && (
+          <p className="px-4 py-6 text-sm text-gray-500 text-center">No classes in the catalog yet.</p>
+        )}
+      </div>
+
+      <div className="mt-6 flex items-center justify-end space-x-3">
+        <span className="text-sm text-gray-500">
+          {dirtyRows.length === 0 ? 'No unsaved changes' : `${dirtyRows.length} unsaved change${dirtyRows.length === 1 ? '' : 's'}`}
+        </span>
+        <button
+          onClick={handleSave}
+          disabled={dirtyRows.length === 0 || isSaving}
+          className="inline-flex items-center space-x-2 px-4 py-2 bg-purple-600 text-white font-medium rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors duration-200 text-sm"
+        >
+          <Save className="w-4 h-4" />
+          <span>{isSaving ? 'Saving...' : 'Save Catalog'}</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useMemo, useState } from 'react';
+import { Columns, Save, Trash2, AlertCircle } from 'lucide-react';
+import { useColumnMappingProfiles } from '../hooks/useColumnMappingProfiles';
+import {
+  COLUMN_DEFINITIONS,
+  COLUMN_KEYS,
+  resolveColumns,
+  type ColumnKey,
+  type ColumnMapping
+} from '../utils/columnMapping';
+
+interface ColumnMappingScreenProps {
+  missing: ColumnKey[];
+  headers: string[];
+  onSubmit: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+export function ColumnMappingScreen({ missing, headers, onSubmit, onCancel }: ColumnMappingScreenProps) {
+  const { profiles, saveProfile, deleteProfile, error: profileError } = useColumnMappingProfiles();
+  const [selectedProfileId, setSelectedProfileId] = useState('');
+  const [profileName, setProfileName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Pre-fill every column the file's headers already resolve to
+  const [mapping, setMapping] = useState<ColumnMapping>(() => {
+    const { indices } = resolveColumns(headers);
+    const initial: ColumnMapping = {};
+    COLUMN_KEYS.forEach(key => {
+      const index = indices[key];
+      if (index !== undefined) initial[key] = headers[index];
+    });
+    return initial;
+  });
+
+  // Missing columns first so they're the first thing the user sees
+  const orderedKeys = useMemo(
+    () => [...missing, ...COLUMN_KEYS.filter(key => !missing.includes(key))],
+    [missing]
+  );
+
+  const unresolved = COLUMN_KEYS.filter(key => COLUMN_DEFINITIONS[key].required && !mapping[key]);
+
+  const applyProfile = (profileId: string) => {
+    setSelectedProfileId(profileId);
+    const profile = profiles.find(p => p.id === profileId);
+    if (!profile) return;
+
+    // Only take the profile's headers that exist in this file
+    const next = { ...mapping };
+    COLUMN_KEYS.forEach(key => {
+      const header = profile.mapping[key];
+      if (header && headers.includes(header)) next[key] = header;
+    });
+    setMapping(next);
+    setProfileName(profile.name);
+  };
+
+  const handleSaveProfile = async () => {
+    if (!profileName.trim()) return;
+    setIsSaving(true);
+    await saveProfile(profileName, mapping);
+    setIsSaving(false);
+  };
+
+  const handleDeleteProfile = async () => {
+    if (!selectedProfileId) return;
+    const result = await deleteProfile(selectedProfileId);
+    if (result.success) {
+      setSelectedProfileId('');
+      setProfileName('');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+        <div className="flex items-start space-x-3">
+          <Columns className="w-5 h-5 text-amber-600 mt-0.5" />
+          <div>
+            <h4 className="text-sm font-medium text-amber-900">Map CSV Columns</h4>
+            <p className="text-sm text-amber-700 mt-1">
+              We couldn't find {missing.length === 1 ? 'this column' : 'these columns'} in your file:{' '}
+              <span className="font-medium">{missing.map(key => COLUMN_DEFINITIONS[key].label).join(', ')}</span>.
+              Pick the matching header for each field, or apply a saved profile.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <label className="flex-1 text-sm font-medium text-gray-700">
+          <span className="block mb-1">Saved profile</span>
+          <select
+            value={selectedProfileId}
+            onChange={(e) => applyProfile(e.target.value)}
+            className="w-full border border-gray-200 rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Choose a profile...</option>
+            {profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+        </label>
+        {selectedProfileId && (
+          <button
+            onClick={handleDeleteProfile}
+            className="inline-flex items-center space-x-2 px-3 py-2 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors duration-200"
+          >
+            <Trash2 className="w-4 h-4" />
+            <span>Delete</span>
+          </button>
+        )}
+      </div>
+
+      <div className="border border-gray-100 rounded-lg divide-y divide-gray-100">
+        {orderedKeys.map(key => {
+          const definition = COLUMN_DEFINITIONS[key];
+          const isMissing = definition.required && !mapping[key];
+          return (
+            <div key={key} className={`flex flex-col sm:flex-row sm:items-center justify-between gap-2 px-4 py-3 ${isMissing ? 'bg-red-50' : ''}`}>
+              <div>
+                <p className="text-sm font-medium text-gray-900">{definition.label}</p>
+                <p className="text-xs text-gray-500">{definition.required ? 'Required' : 'Optional'}</p>
+              </div>
+              <select
+                value={mapping[key] || ''}
+                onChange={(e) => setMapping({ ...mapping, [key]: e.target.value || undefined })}
+                className={`sm:w-72 border rounded-md px-3 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                  isMissing ? 'border-red-300' : 'border-gray-200'
+                }`}
+              >
+                <option value="">{definition.required ? 'Select a header...' : 'Not in this file'}</option>
+                {headers.map((header, index) => (
+                  <option key={`${header}-${index}`} value={header}>{header}</option>
+                ))}
+              </select>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <label className="flex-1 text-sm font-medium text-gray-700">
+          <span className="block mb-1">Save this mapping as</span>
+          <input
+            type="text"
+            placeholder="e.g. Ticketing export 2026"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            className="w-full border border-gray-200 rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </label>
+        <button
+          onClick={handleSaveProfile}
+          disabled={!profileName.trim() || isSaving}
+          className="inline-flex items-center justify-center space-x-2 px-4 py-2 bg-gray-700 text-white font-medium rounded-lg hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+        >
+          <Save className="w-4 h-4" />
+          <span>{isSaving ? 'Saving...' : 'Save Profile'}</span>
+        </button>
+      </div>
+
+      {profileError && (
+        <div className="flex items-start space-x-2 text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 mt-0.5" />
+          <span>{profileError}</span>
+        </div>
+      )}
+
+      <div className="flex items-center justify-end space-x-3">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-gray-700 font-medium rounded-lg hover:bg-gray-100 transition-colors duration-200"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onSubmit(mapping)}
+          disabled={unresolved.length > 0}
+          className="inline-flex items-center px-6 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+        >
+          Continue Upload
+        </button>
+      </div>
+    </div>
+  );
+}
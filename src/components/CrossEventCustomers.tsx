@@ -0,0 +1,282 @@
+import { useMemo, useState } from 'react';
+import { Download, Mail, Phone, Repeat, Search, AlertCircle } from 'lucide-react';
+import type { ParsedOrder } from '../utils/csvParser';
+import type { EventConfig } from '../types/event';
+import { analyzeCrossEvent } from '../utils/crossEvent';
+import { useHistoricalOrders } from '../hooks/useHistoricalOrders';
+import { applyCustomerMerges, type CustomerMerge } from '../utils/customerIdentity';
+
+interface CrossEventCustomersProps {
+  event: EventConfig;
+  events: EventConfig[];
+  // The selected event's orders, already loaded by the dashboard
+  data: ParsedOrder[];
+  // Confirmed merges, applied to the other events' orders as they load
+  merges: CustomerMerge[];
+}
+
+export function CrossEventCustomers({ event, events, data, merges }: CrossEventCustomersProps) {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [minEvents, setMinEvents] = useState(2);
+
+  const otherEvents = useMemo(() => events.filter(other => other.id !== event.id), [events, event.id]);
+  const { history, isLoading, error } = useHistoricalOrders(otherEvents);
+
+  const analysis = useMemo(
+    () => analyzeCrossEvent([
+      { event, orders: data },
+      ...history.map(entry => ({ ...entry, orders: applyCustomerMerges(entry.orders, merges) }))
+    ]),
+    [event, data, history, merges]
+  );
+  const eventsById = useMemo(() => new Map(analysis.events.map(stats => [stats.event.id, stats.event])), [analysis]);
+  const selected = analysis.events.find(stats => stats.event.id === event.id);
+  const earlierEvents = selected ? analysis.events.slice(0, analysis.events.indexOf(selected)) : [];
+
+  const repeatCustomers = useMemo(() => analysis.customers
+    .filter(customer => customer.events.length >= minEvents)
+    .filter(customer => {
+      const term = searchTerm.toLowerCase();
+      return !term
+        || customer.name.toLowerCase().includes(term)
+        || customer.emails.some(email => email.toLowerCase().includes(term))
+        || customer.phones.some(phone => phone.includes(term));
+    })
+    .sort((a, b) => b.events.length - a.events.length || a.name.localeCompare(b.name)),
+  [analysis, minEvents, searchTerm]);
+
+  const eventLabel = (id: string) => {
+    const match = eventsById.get(id);
+    return match ? `${match.short_name} ${match.year}` : id;
+  };
+
+  const exportRepeatCustomers = () => {
+    const csvContent = [
+      'Customer Name,Emails,Phones,Events,Event Count,Tickets by Event,Classes by Event',
+      ...repeatCustomers.map(customer =>
+        `"${customer.name}","${customer.emails.join('; ')}","${customer.phones.join('; ')}","${customer.events.map(eventLabel).join('; ')}",${customer.events.length},"${customer.events.map(id => `${eventLabel(id)}: ${customer.tickets[id]}`).join('; ')}","${customer.events.map(id => `${eventLabel(id)}: ${customer.classes[id].join(', ')}`).join('; ')}"`
+      )
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'ebony-fit-returning-customers.csv';
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="mb-6">
+          <h2 className="text-xl font-semibold text-gray-900">Returning Customers</h2>
+          <p className="text-gray-600">
+            Customers matched across every event by email or phone number, counting only tickets still held
+          </p>
+        </div>
+
+        {isLoading && (
+          <p className="mb-4 text-sm text-gray-500">Loading the other events' orders...</p>
+        )}
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-4">
+            <div className="flex items-start space-x-3">
+              <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 mb-6">
+          {analysis.events.map((stats, position) => (
+            <div
+              key={stats.event.id}
+              className={`p-4 rounded-lg ${stats.event.id === event.id ? 'bg-blue-50 border border-blue-200' : 'bg-gray-50'}`}
+            >
+              <p className="text-sm font-medium text-gray-700">{stats.event.name} {stats.event.year}</p>
+              <p className="text-2xl font-bold text-gray-900 mt-1">{stats.customers.toLocaleString()} customers</p>
+              <p className="text-sm text-gray-600 mt-1">
+                {position === 0
+                  ? 'First event on record'
+                  : `${Math.round(stats.repeatRate * 100)}% returning • ${(stats.customers - stats.returning).toLocaleString()} new`}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        {analysis.events.length > 1 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="text-left py-3 px-4 font-medium text-gray-700">Customers of</th>
+                  {analysis.events.map(stats => (
+                    <th key={stats.event.id} className="text-right py-3 px-4 font-medium text-gray-700">
+                      also at {stats.event.short_name} {stats.event.year}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {analysis.events.map(stats => (
+                  <tr key={stats.event.id}>
+                    <td className="py-3 px-4 font-medium text-gray-900">{stats.event.short_name} {stats.event.year}</td>
+                    {analysis.events.map(other => (
+                      <td key={other.event.id} className="py-3 px-4 text-right text-gray-600">
+                        {other.event.id === stats.event.id ? '—' : (
+                          <>
+                            {stats.overlap[other.event.id]}
+                            {stats.customers > 0 && (
+                              <span className="text-xs text-gray-400 ml-1">
+                                ({Math.round((stats.overlap[other.event.id] / stats.customers) * 100)}%)
+                              </span>
+                            )}
+                          </>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {selected && earlierEvents.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-1">Who's Buying {event.short_name} {event.year}</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            {(selected.customers - selected.returning).toLocaleString()} new customers and {selected.returning.toLocaleString()} who came to an earlier event
+            {` (${earlierEvents.map(stats => `${selected.overlap[stats.event.id]} from ${stats.event.short_name} ${stats.event.year}`).join(', ')})`}
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="text-left py-3 px-4 font-medium text-gray-700">Class</th>
+                  <th className="text-right py-3 px-4 font-medium text-gray-700">Tickets</th>
+                  <th className="text-right py-3 px-4 font-medium text-gray-700">Bought by Returning Customers</th>
+                  <th className="py-3 px-4"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {selected.classes.map(cls => {
+                  const share = cls.tickets > 0 ? cls.returningTickets / cls.tickets : 0;
+                  return (
+                    <tr key={cls.name} className="hover:bg-gray-50">
+                      <td className="py-3 px-4 text-gray-900">{cls.name}</td>
+                      <td className="py-3 px-4 text-right text-gray-600">{cls.tickets}</td>
+                      <td className="py-3 px-4 text-right font-medium text-gray-900">
+                        {cls.returningTickets} <span className="text-xs font-normal text-gray-500">({Math.round(share * 100)}%)</span>
+                      </td>
+                      <td className="py-3 px-4 w-32">
+                        <div className="w-full bg-gray-200 rounded-full h-2">
+                          <div className="bg-blue-600 h-2 rounded-full" style={{ width: `${share * 100}%` }} />
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="p-6 border-b border-gray-100">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Multi-Event Customers</h3>
+              <p className="text-sm text-gray-600">{repeatCustomers.length} customers found</p>
+            </div>
+            <button
+              onClick={exportRepeatCustomers}
+              className="inline-flex items-center space-x-2 px-4 py-2 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 transition-colors duration-200"
+            >
+              <Download className="w-4 h-4" />
+              <span>Export List</span>
+            </button>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+              <input
+                type="text"
+                placeholder="Search by name, email or phone..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+              <span>Minimum events:</span>
+              <select
+                value={minEvents}
+                onChange={(e) => setMinEvents(Number(e.target.value))}
+                className="border border-gray-200 rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {Array.from({ length: Math.max(1, analysis.events.length - 1) }, (_, index) => index + 2).map(count => (
+                  <option key={count} value={count}>{count}+</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+
+        <div className="divide-y divide-gray-100">
+          {repeatCustomers.map((customer, index) => (
+            <div key={`${index}-${customer.emails[0] || customer.phones[0]}`} className="p-6 hover:bg-gray-50 transition-colors duration-150">
+              <div className="flex items-start justify-between">
+                <div>
+                  <h4 className="font-semibold text-gray-900 mb-2">{customer.name}</h4>
+                  <div className="space-y-1 mb-3">
+                    {customer.emails.map(email => (
+                      <div key={email} className="flex items-center space-x-2 text-sm text-gray-600">
+                        <Mail className="w-4 h-4" />
+                        <span>{email}</span>
+                      </div>
+                    ))}
+                    {customer.phones.map(phone => (
+                      <div key={phone} className="flex items-center space-x-2 text-sm text-gray-600">
+                        <Phone className="w-4 h-4" />
+                        <span>{phone}</span>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="space-y-1">
+                    {customer.events.map(id => (
+                      <p key={id} className="text-sm text-gray-700">
+                        <span className="font-medium">{eventLabel(id)}:</span> {customer.classes[id].join(', ')}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex flex-wrap justify-end gap-1 ml-4">
+                  {customer.events.map(id => (
+                    <span key={id} className="inline-flex items-center px-2 py-1 bg-blue-100 text-blue-800 text-xs font-medium rounded-full whitespace-nowrap">
+                      {eventLabel(id)} • {customer.tickets[id]}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {repeatCustomers.length === 0 && (
+          <div className="p-12 text-center">
+            <Repeat className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No Returning Customers Found</h3>
+            <p className="text-gray-600">
+              {isLoading ? 'Still loading the other events.' : `Nobody has come to ${minEvents}+ events yet.`}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,22 @@
-import React, { useState, useMemo } from 'react';
-import { Search, Download, Users, Mail, Phone, FileText } from 'lucide-react';
+import React, { useState, useMemo, useEffect } from 'react';
+import { Search, Download, Users, Mail, Phone, FileText, CalendarDays } from 'lucide-react';
 import { type ParsedOrder } from '../utils/csvParser';
+import { buildCatalogLookup, findCatalogClass, type CatalogClass } from '../utils/classCatalog';
+import { describeSession } from '../utils/schedule';
+import type { CustomerContact } from '../utils/customerProfile';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 
 interface CustomerListsProps {
   data: ParsedOrder[];
+  catalog: CatalogClass[];
+  // Class to open on mount, e.g. when arriving from the timetable
+  initialClass?: string;
+  onOpenCustomer: (customer: CustomerContact) => void;
 }
 
-export function CustomerLists({ data }: CustomerListsProps) {
-  const [selectedClass, setSelectedClass] = useState<string>('');
+export function CustomerLists({ data, catalog, initialClass, onOpenCustomer }: CustomerListsProps) {
+  const [selectedClass, setSelectedClass] = useState<string>(initialClass || '');
   const [searchTerm, setSearchTerm] = useState('');
 
   const handleClassSelection = (className: string) => {
@@ -26,12 +33,21 @@ export function CustomerLists({ data }: CustomerListsProps) {
     }, 100); // Small delay to ensure the component has rendered
   };
 
+  useEffect(() => {
+    if (initialClass) {
+      document.getElementById('customer-list-section')?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+  }, [initialClass]);
+
   const classesList = useMemo(() => {
+    const catalogLookup = buildCatalogLookup(catalog);
     const classMap = data.reduce((acc, order) => {
-      const className = order.className;
+      const entry = findCatalogClass(catalogLookup, order.className);
+      const className = entry?.name || order.className;
       if (!acc[className]) {
         acc[className] = {
           name: className,
+          session: describeSession(entry),
           customers: new Map<string, ParsedOrder>(),
           totalQuantity: 0
         };
@@ -43,10 +59,10 @@ export function CustomerLists({ data }: CustomerListsProps) {
       }
       acc[className].totalQuantity += order.quantity;
       return acc;
-    }, {} as Record<string, { name: string; customers: Map<string, ParsedOrder>; totalQuantity: number }>);
+    }, {} as Record<string, { name: string; session: string | null; customers: Map<string, ParsedOrder>; totalQuantity: number }>);
 
     return Object.values(classMap).sort((a, b) => b.totalQuantity - a.totalQuantity);
-  }, [data]);
+  }, [data, catalog]);
 
   const selectedClassData = useMemo(() => {
     if (!selectedClass) return null;
@@ -110,11 +126,15 @@ export function CustomerLists({ data }: CustomerListsProps) {
     doc.setFont('helvetica', 'normal');
     doc.text(`Class: ${selectedClass}`, 20, 40);
 
-    // Add summary info
+    // Add summary info, with the session time when the class is scheduled
     doc.setFontSize(12);
-    doc.text(`Total Customers: ${filteredCustomers.length}`, 20, 50);
-    doc.text(`Total Tickets: ${selectedClassData?.totalQuantity || 0}`, 20, 58);
-    doc.text(`Generated: ${new Date().toLocaleDateString()} at ${new Date().toLocaleTimeString()}`, 20, 66);
+    const summaryLines = [
+      ...(selectedClassData?.session ? [`Session: ${selectedClassData.session}`] : []),
+      `Total Customers: ${filteredCustomers.length}`,
+      `Total Tickets: ${selectedClassData?.totalQuantity || 0}`,
+      `Generated: ${new Date().toLocaleDateString()} at ${new Date().toLocaleTimeString()}`
+    ];
+    summaryLines.forEach((line, index) => doc.text(line, 20, 50 + index * 8));
 
     // Prepare table data
     const tableData = filteredCustomers.map((customer, index) => [
@@ -130,7 +150,7 @@ export function CustomerLists({ data }: CustomerListsProps) {
     autoTable(doc, {
       head: [['#', 'Customer Name', 'Email', 'Phone', 'Tickets', 'Order Date']],
       body: tableData,
-      startY: 75,
+      startY: 59 + summaryLines.length * 8,
       styles: {
         fontSize: 9,
         cellPadding: 3,
@@ -329,6 +349,12 @@ export function CustomerLists({ data }: CustomerListsProps) {
               }`}
             >
               <h3 className="font-medium text-gray-900 mb-2 leading-tight">{cls.name}</h3>
+              {cls.session && (
+                <p className="flex items-center space-x-1 text-xs text-gray-500 mb-2">
+                  <CalendarDays className="w-3 h-3" />
+                  <span>{cls.session}</span>
+                </p>
+              )}
               <div className="flex items-center justify-between text-sm">
                 <span className="text-gray-600">{cls.customers.size} customers</span>
                 <span className="text-blue-600 font-medium">{cls.totalQuantity} tickets</span>
@@ -344,6 +370,9 @@ export function CustomerLists({ data }: CustomerListsProps) {
             <div className="flex items-center justify-between mb-4">
               <div>
                 <h3 className="text-lg font-semibold text-gray-900">{selectedClass}</h3>
+                {selectedClassData.session && (
+                  <p className="text-sm text-gray-500">{selectedClassData.session}</p>
+                )}
                 <p className="text-gray-600">
                   {filteredCustomers.length} customers • {selectedClassData.totalQuantity} total tickets
                 </p>
@@ -383,7 +412,12 @@ export function CustomerLists({ data }: CustomerListsProps) {
               <div key={customer.customerEmail} className="p-6 hover:bg-gray-50 transition-colors duration-150">
                 <div className="flex items-start justify-between">
                   <div className="flex-1">
-                    <h4 className="font-medium text-gray-900 mb-2">{customer.customerName}</h4>
+                    <button
+                      onClick={() => onOpenCustomer({ name: customer.customerName, email: customer.customerEmail, phone: customer.customerPhone })}
+                      className="font-medium text-gray-900 hover:text-blue-600 hover:underline mb-2 text-left"
+                    >
+                      {customer.customerName}
+                    </button>
                     <div className="space-y-1">
                       <div className="flex items-center space-x-2 text-sm text-gray-600">
                         <Mail className="w-4 h-4" />
@@ -0,0 +1,209 @@
+import { useMemo, useState } from 'react';
+import { Merge, ArrowRight, Trash2, AlertCircle, X, Phone, UserCheck } from 'lucide-react';
+import type { ParsedOrder } from '../utils/csvParser';
+import { collectIdentities, suggestDuplicates, type CustomerIdentity, type CustomerMerge, type DuplicateReason } from '../utils/customerIdentity';
+
+interface CustomerMergeManagerProps {
+  // Orders with confirmed merges already applied, so merged customers drop out of the suggestions
+  data: ParsedOrder[];
+  merges: CustomerMerge[];
+  onMerge: (emails: string[], canonicalEmail: string) => Promise<{ success: boolean; error?: string }>;
+  onUnmerge: (email: string) => Promise<{ success: boolean; error?: string }>;
+  onClose: () => void;
+}
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  phone: 'Same phone',
+  name: 'Similar name'
+};
+
+// Suggestions beyond this are shown after the first ones are handled
+const MAX_SUGGESTIONS_SHOWN = 25;
+
+const pairKey = (a: CustomerIdentity, b: CustomerIdentity) => `${a.email}|${b.email}`;
+
+export function CustomerMergeManager({ data, merges, onMerge, onUnmerge, onClose }: CustomerMergeManagerProps) {
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [mergeFrom, setMergeFrom] = useState('');
+  const [mergeInto, setMergeInto] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const identities = useMemo(() => collectIdentities(data), [data]);
+  const suggestions = useMemo(
+    () => suggestDuplicates(identities).filter(({ customers: [a, b] }) => !dismissed.has(pairKey(a, b))),
+    [identities, dismissed]
+  );
+
+  const merge = async (emails: string[], canonicalEmail: string) => {
+    setIsSaving(true);
+    setSaveError(null);
+    const result = await onMerge(emails, canonicalEmail);
+    setIsSaving(false);
+    if (!result.success) {
+      setSaveError(result.error || 'Failed to merge customers');
+    }
+    return result.success;
+  };
+
+  const handleManualMerge = async () => {
+    if (await merge([mergeFrom], mergeInto)) {
+      setMergeFrom('');
+      setMergeInto('');
+    }
+  };
+
+  const unmerge = async (email: string) => {
+    setSaveError(null);
+    const result = await onUnmerge(email);
+    if (!result.success) {
+      setSaveError(result.error || 'Failed to undo merge');
+    }
+  };
+
+  const renderIdentity = (identity: CustomerIdentity) => (
+    <div className="flex-1 min-w-0">
+      <p className="text-sm font-medium text-gray-900">{identity.name}</p>
+      <p className="text-xs text-gray-600 truncate">{identity.email}</p>
+      {identity.phones.length > 0 && (
+        <p className="flex items-center space-x-1 text-xs text-gray-500">
+          <Phone className="w-3 h-3" />
+          <span>{identity.phones.join(' • ')}</span>
+        </p>
+      )}
+      <p className="text-xs text-gray-500">{identity.tickets} tickets</p>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-3">
+          <Merge className="w-5 h-5 text-purple-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Duplicate Customers</h3>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-gray-500 rounded-lg hover:bg-gray-100 transition-colors duration-200"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Emails are already matched regardless of case and spacing. Confirm a merge when one person bought under two emails; merges apply to every tab and every event.
+      </p>
+
+      {saveError && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-start space-x-3">
+            <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
+            <p className="text-sm text-red-700">{saveError}</p>
+          </div>
+        </div>
+      )}
+
+      <h4 className="text-sm font-semibold text-gray-900 mb-2">Suggested Duplicates</h4>
+      {suggestions.length === 0 ? (
+        <p className="text-sm text-gray-500">No likely duplicates in this event.</p>
+      ) : (
+        <div className="space-y-3">
+          {suggestions.slice(0, MAX_SUGGESTIONS_SHOWN).map(({ customers: [a, b], reasons }) => (
+            <div key={pairKey(a, b)} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex flex-wrap gap-1 mb-3">
+                {reasons.map(reason => (
+                  <span key={reason} className="inline-block px-2 py-0.5 bg-purple-100 text-purple-800 text-xs font-medium rounded-full">
+                    {REASON_LABELS[reason]}
+                  </span>
+                ))}
+              </div>
+              <div className="flex flex-col sm:flex-row gap-4 mb-3">
+                {renderIdentity(a)}
+                {renderIdentity(b)}
+              </div>
+              <div className="flex flex-wrap items-center justify-end gap-2">
+                <button
+                  onClick={() => setDismissed(prev => new Set(prev).add(pairKey(a, b)))}
+                  className="px-3 py-1.5 text-sm text-gray-600 rounded-lg hover:bg-gray-100 transition-colors duration-200"
+                >
+                  Not the same
+                </button>
+                {[a, b].map((keep, index) => (
+                  <button
+                    key={keep.email}
+                    onClick={() => merge([index === 0 ? b.email : a.email], keep.email)}
+                    disabled={isSaving}
+                    className="inline-flex items-center space-x-1 px-3 py-1.5 bg-purple-600 text-white text-sm font-medium rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors duration-200"
+                  >
+                    <UserCheck className="w-4 h-4" />
+                    <span>Keep {keep.email}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+          {suggestions.length > MAX_SUGGESTIONS_SHOWN && (
+            <p className="text-xs text-gray-500">
+              {suggestions.length - MAX_SUGGESTIONS_SHOWN} more suggestions appear as these are merged or dismissed.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="mt-6">
+        <h4 className="text-sm font-semibold text-gray-900 mb-2">Merge Manually</h4>
+        <datalist id="customer-merge-options">
+          {identities.map(identity => <option key={identity.email} value={identity.email}>{identity.name}</option>)}
+        </datalist>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+          <input
+            type="text"
+            list="customer-merge-options"
+            value={mergeFrom}
+            onChange={(e) => setMergeFrom(e.target.value)}
+            placeholder="Duplicate email"
+            className="flex-1 border border-gray-200 rounded-md px-3 py-1.5 text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          />
+          <ArrowRight className="w-4 h-4 text-gray-400 hidden sm:block" />
+          <input
+            type="text"
+            list="customer-merge-options"
+            value={mergeInto}
+            onChange={(e) => setMergeInto(e.target.value)}
+            placeholder="Email to keep"
+            className="flex-1 border border-gray-200 rounded-md px-3 py-1.5 text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          />
+          <button
+            onClick={handleManualMerge}
+            disabled={!mergeFrom.trim() || !mergeInto.trim() || isSaving}
+            className="inline-flex items-center justify-center space-x-2 px-4 py-1.5 bg-purple-600 text-white font-medium rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors duration-200 text-sm"
+          >
+            <Merge className="w-4 h-4" />
+            <span>{isSaving ? 'Saving...' : 'Merge'}</span>
+          </button>
+        </div>
+      </div>
+
+      {merges.length > 0 && (
+        <div className="mt-6">
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">Confirmed Merges</h4>
+          <div className="divide-y divide-gray-100 border border-gray-100 rounded-lg max-h-64 overflow-y-auto">
+            {merges.map(entry => (
+              <div key={entry.id} className="flex items-center justify-between px-4 py-2">
+                <p className="text-sm text-gray-700">
+                  {entry.email} <span className="text-gray-400">→</span> {entry.canonical_email}
+                </p>
+                <button
+                  onClick={() => unmerge(entry.email)}
+                  title="Undo merge"
+                  className="p-1.5 text-gray-500 rounded-lg hover:bg-gray-100 hover:text-red-600 transition-colors duration-200"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import { useEffect, useMemo, useState } from 'react';
+import { X, Mail, Phone, MessageSquare, Copy, Check, Receipt, History, AlertCircle } from 'lucide-react';
+import type { ParsedOrder } from '../utils/csvParser';
+import type { EventConfig } from '../types/event';
+import { compareEvents } from '../utils/crossEvent';
+import { buildCustomerPurchases, findSharedPhoneContacts, formatPurchaseSummary, REFUND_STATUS_LABELS, type CustomerContact } from '../utils/customerProfile';
+import type { EventOrders } from '../hooks/useHistoricalOrders';
+import { applyCustomerMerges, type CustomerMerge } from '../utils/customerIdentity';
+
+interface CustomerProfileDrawerProps {
+  customer: CustomerContact;
+  event: EventConfig;
+  // Events before this one and their orders, loaded once by the app rather than per profile
+  priorEvents: EventConfig[];
+  history: EventOrders[];
+  isHistoryLoading: boolean;
+  historyError: string | null;
+  // The selected event's orders including refunded and cancelled lines
+  data: ParsedOrder[];
+  merges: CustomerMerge[];
+  onClose: () => void;
+}
+
+const refundBadgeClass = (status: ParsedOrder['refundStatus']) => {
+  switch (status) {
+    case 'refunded':
+    case 'cancelled':
+      return 'bg-red-100 text-red-800';
+    case 'partial':
+      return 'bg-yellow-100 text-yellow-800';
+    default:
+      return 'bg-green-100 text-green-800';
+  }
+};
+
+export function CustomerProfileDrawer({ customer, event, priorEvents, history, isHistoryLoading, historyError, data, merges, onClose }: CustomerProfileDrawerProps) {
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const purchases = useMemo(() => buildCustomerPurchases(data, customer, merges), [data, customer, merges]);
+  const samePhone = useMemo(() => findSharedPhoneContacts(data, customer, merges), [data, customer, merges]);
+  const pastPurchases = useMemo(() => history
+    .map(({ event: past, orders }) => ({ event: past, purchases: buildCustomerPurchases(applyCustomerMerges(orders, merges), customer, merges) }))
+    .filter(entry => entry.purchases.orders.length > 0)
+    .sort((a, b) => compareEvents(b.event, a.event)),
+  [history, customer, merges]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const copy = async (key: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(key);
+      setTimeout(() => setCopied(current => (current === key ? null : current)), 2000);
+    } catch (err) {
+      console.error('Error copying to clipboard:', err);
+    }
+  };
+
+  const copyButton = (id: string, text: string, label: string) => (
+    <button
+      onClick={() => copy(id, text)}
+      title={label}
+      className="p-1 text-gray-400 hover:text-gray-700 rounded transition-colors duration-200"
+    >
+      {copied === id ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+    </button>
+  );
+
+  const eventLabel = `${event.short_name} ${event.year}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+      <div className="relative w-full max-w-xl h-full bg-white shadow-xl flex flex-col">
+        <div className="p-6 border-b border-gray-100">
+          <div className="flex items-start justify-between mb-4">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">{customer.name}</h2>
+              <p className="text-sm text-gray-600">
+                {purchases.tickets} tickets held • {purchases.orders.length} orders at {eventLabel}
+              </p>
+            </div>
+            <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-700 rounded-lg hover:bg-gray-100 transition-colors duration-200">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            {customer.email && (
+              <div className="flex items-center justify-between text-sm">
+                <a href={`mailto:${customer.email}`} className="flex items-center space-x-2 text-blue-600 hover:text-blue-800">
+                  <Mail className="w-4 h-4" />
+                  <span>{customer.email}</span>
+                </a>
+                {copyButton('email', customer.email, 'Copy email')}
+              </div>
+            )}
+            {customer.phone && (
+              <div className="flex items-center justify-between text-sm">
+                <div className="flex items-center space-x-3">
+                  <a href={`tel:${customer.phone}`} className="flex items-center space-x-2 text-blue-600 hover:text-blue-800">
+                    <Phone className="w-4 h-4" />
+                    <span>{customer.phone}</span>
+                  </a>
+                  <a href={`sms:${customer.phone}`} title="Send a text" className="text-gray-400 hover:text-blue-600">
+                    <MessageSquare className="w-4 h-4" />
+                  </a>
+                </div>
+                {copyButton('phone', customer.phone, 'Copy phone')}
+              </div>
+            )}
+          </div>
+
+          <button
+            onClick={() => copy('summary', formatPurchaseSummary(customer, eventLabel, purchases))}
+            className="mt-4 inline-flex items-center space-x-2 px-3 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-200 transition-colors duration-200"
+          >
+            {copied === 'summary' ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+            <span>{copied === 'summary' ? 'Copied' : 'Copy Purchase Summary'}</span>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="bg-blue-50 p-3 rounded-lg">
+              <p className="text-xs font-medium text-blue-800">Classes</p>
+              <p className="text-lg font-bold text-blue-900">{purchases.classes.length}</p>
+            </div>
+            <div className="bg-green-50 p-3 rounded-lg">
+              <p className="text-xs font-medium text-green-800">Amount Spent</p>
+              <p className="text-lg font-bold text-green-900">${purchases.totalSpent.toFixed(2)}</p>
+            </div>
+            <div className="bg-red-50 p-3 rounded-lg">
+              <p className="text-xs font-medium text-red-800">Refunded</p>
+              <p className="text-lg font-bold text-red-900">${purchases.totalRefunded.toFixed(2)}</p>
+            </div>
+          </div>
+
+          {samePhone.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+              <div className="flex items-start space-x-2">
+                <Phone className="w-4 h-4 text-yellow-700 mt-0.5" />
+                <div>
+                  <h3 className="text-sm font-semibold text-yellow-900">Same Phone Number</h3>
+                  <ul className="mt-1 space-y-1 text-sm text-yellow-800">
+                    {samePhone.map(other => (
+                      <li key={other.email}>{other.name} • {other.email}</li>
+                    ))}
+                  </ul>
+                  <p className="mt-2 text-xs text-yellow-700">
+                    Their orders aren't included here. If this is the same person, merge them under Duplicates.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {purchases.classes.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Classes Held</h3>
+              <div className="flex flex-wrap gap-2">
+                {purchases.classes.map(className => (
+                  <span key={className} className="inline-block px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded-md">
+                    {className}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h3 className="flex items-center space-x-2 text-sm font-semibold text-gray-900 mb-3">
+              <Receipt className="w-4 h-4" />
+              <span>Orders at {eventLabel}</span>
+            </h3>
+            <div className="space-y-3">
+              {purchases.orders.map(order => (
+                <div key={order.orderId} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex items-start justify-between mb-2">
+                    <div>
+                      <div className="flex items-center space-x-1">
+                        <p className="font-medium text-gray-900">Order {order.orderId}</p>
+                        {copyButton(`order-${order.orderId}`, order.orderId, 'Copy order ID')}
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {order.orderDate} {order.orderTime}
+                        {order.paymentMethod && ` • ${order.paymentMethod}`}
+                        {order.discountCode && ` • Code ${order.discountCode}`}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-semibold text-gray-900">${order.totalAmount.toFixed(2)}</p>
+                      {order.refundedAmount > 0 && (
+                        <p className="text-xs text-red-600">-${order.refundedAmount.toFixed(2)} refunded</p>
+                      )}
+                    </div>
+                  </div>
+                  <table className="w-full text-sm">
+                    <tbody className="divide-y divide-gray-100">
+                      {order.lines.map((line, index) => (
+                        <tr key={index}>
+                          <td className="py-2 pr-2 text-gray-900">
+                            {line.className}
+                            {line.rawClassName && line.rawClassName !== line.className && (
+                              <span className="block text-xs text-gray-400">{line.rawClassName}</span>
+                            )}
+                          </td>
+                          <td className="py-2 px-2 text-right text-gray-600 whitespace-nowrap">
+                            {line.quantity} × ${line.price.toFixed(2)}
+                          </td>
+                          <td className="py-2 pl-2 text-right">
+                            <span className={`inline-block px-2 py-0.5 text-xs font-medium rounded-full whitespace-nowrap ${refundBadgeClass(line.refundStatus)}`}>
+                              {REFUND_STATUS_LABELS[line.refundStatus]}
+                            </span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+              {purchases.orders.length === 0 && (
+                <p className="text-sm text-gray-500">No orders found for this customer.</p>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="flex items-center space-x-2 text-sm font-semibold text-gray-900 mb-3">
+              <History className="w-4 h-4" />
+              <span>Prior Events</span>
+            </h3>
+            {isHistoryLoading && <p className="text-sm text-gray-500">Loading earlier events...</p>}
+            {historyError && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                <div className="flex items-start space-x-2">
+                  <AlertCircle className="w-4 h-4 text-red-600 mt-0.5" />
+                  <p className="text-sm text-red-700">{historyError}</p>
+                </div>
+              </div>
+            )}
+            {!isHistoryLoading && !historyError && (
+              <div className="space-y-3">
+                {pastPurchases.map(({ event: past, purchases: pastOrders }) => (
+                  <div key={past.id} className="bg-gray-50 p-4 rounded-lg">
+                    <div className="flex items-center justify-between mb-1">
+                      <p className="font-medium text-gray-900">{past.name} {past.year}</p>
+                      <p className="text-sm text-gray-600">
+                        {pastOrders.tickets} tickets • ${pastOrders.totalSpent.toFixed(2)}
+                      </p>
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {pastOrders.classes.length > 0 ? pastOrders.classes.join(', ') : 'All tickets refunded or cancelled'}
+                    </p>
+                  </div>
+                ))}
+                {pastPurchases.length === 0 && (
+                  <p className="text-sm text-gray-500">
+                    {priorEvents.length === 0 ? 'No earlier events on record.' : 'First time at an Ebony Fit Weekend.'}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
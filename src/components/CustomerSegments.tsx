@@ -0,0 +1,192 @@
+import { useMemo, useState } from 'react';
+import { Download, Mail, Target } from 'lucide-react';
+import type { DatasetMetrics } from '../utils/metrics';
+import type { EventConfig } from '../types/event';
+import type { CustomerContact } from '../utils/customerProfile';
+import { analyzeRfm, RFM_SEGMENTS, type RfmCustomer, type RfmSegmentId } from '../utils/rfm';
+
+interface CustomerSegmentsProps {
+  metrics: DatasetMetrics;
+  event: EventConfig;
+  onOpenCustomer: (customer: CustomerContact) => void;
+}
+
+const SEGMENT_COLORS: Record<RfmSegmentId, string> = {
+  'vip': 'bg-purple-100 text-purple-800',
+  'big-spender': 'bg-green-100 text-green-800',
+  'one-and-done': 'bg-gray-100 text-gray-700',
+  'late-buyer': 'bg-orange-100 text-orange-800',
+  'early-bird': 'bg-blue-100 text-blue-800'
+};
+
+const segmentName = (id: RfmSegmentId) => RFM_SEGMENTS.find(segment => segment.id === id)?.name || id;
+
+export function CustomerSegments({ metrics, event, onOpenCustomer }: CustomerSegmentsProps) {
+  const [selectedSegment, setSelectedSegment] = useState<RfmSegmentId | 'all'>('vip');
+
+  const analysis = useMemo(() => analyzeRfm(metrics, event.event_date), [metrics, event.event_date]);
+  const members = useMemo(() => {
+    const list = selectedSegment === 'all'
+      ? analysis.customers
+      : analysis.segments.find(segment => segment.id === selectedSegment)?.customers || [];
+    return [...list].sort((a, b) => b.customer.revenue - a.customer.revenue);
+  }, [analysis, selectedSegment]);
+
+  const exportSegment = (id: RfmSegmentId | 'all', customers: RfmCustomer[]) => {
+    const csvContent = [
+      'Customer Name,Email,Phone,Segments,Recency,Frequency,Monetary,First Purchase,Last Purchase,Orders,Classes,Tickets,Spend,Class Names',
+      ...customers.map(({ customer, ...scored }) =>
+        `"${customer.customerName}","${customer.customerEmail}","${customer.customerPhone}","${scored.segments.map(segmentName).join('; ')}",${scored.recency},${scored.frequency},${scored.monetary},"${scored.firstPurchase || ''}","${scored.lastPurchase || ''}",${scored.orders},${scored.classCount},${customer.tickets},$${customer.revenue.toFixed(2)},"${Array.from(customer.classes).join('; ')}"`
+      )
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `ebony-fit-segment-${id}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Customer Segments</h2>
+            <p className="text-gray-600">
+              Customers scored 1–5 on recency, classes held and spend
+              {analysis.referenceDate && ` • recency measured to ${event.event_date ? 'the event date' : 'the last sale'} (${analysis.referenceDate})`}
+              . A customer can be in more than one segment.
+            </p>
+          </div>
+          <button
+            onClick={() => exportSegment('all', analysis.customers)}
+            className="inline-flex items-center space-x-2 px-4 py-2 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 transition-colors duration-200"
+          >
+            <Download className="w-4 h-4" />
+            <span>Export All Scores</span>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+          {analysis.segments.map(segment => (
+            <div
+              key={segment.id}
+              onClick={() => setSelectedSegment(segment.id)}
+              className={`p-4 rounded-lg border-2 cursor-pointer transition-all duration-200 ${
+                selectedSegment === segment.id
+                  ? 'border-blue-500 bg-blue-50'
+                  : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              <span className={`inline-block px-2 py-0.5 text-xs font-medium rounded-full ${SEGMENT_COLORS[segment.id]}`}>
+                {segment.name}
+              </span>
+              <p className="text-2xl font-bold text-gray-900 mt-2">{segment.customers.length.toLocaleString()}</p>
+              <p className="text-sm text-gray-600">
+                ${segment.revenue.toFixed(2)} • {Math.round(segment.revenueShare * 100)}% of revenue
+              </p>
+              <p className="text-xs text-gray-500 mt-1 mb-3">{segment.description}</p>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  exportSegment(segment.id, segment.customers);
+                }}
+                disabled={segment.customers.length === 0}
+                className="inline-flex items-center space-x-1 text-sm font-medium text-green-700 hover:text-green-800 disabled:opacity-50"
+              >
+                <Download className="w-4 h-4" />
+                <span>Export</span>
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">
+              {selectedSegment === 'all' ? 'All Customers' : segmentName(selectedSegment)}
+            </h3>
+            <p className="text-sm text-gray-600">{members.length} customers</p>
+          </div>
+          <div className="flex bg-gray-100 rounded-lg p-1">
+            <button
+              onClick={() => setSelectedSegment('all')}
+              className={`px-3 py-1 text-sm font-medium rounded-md transition-colors duration-200 ${
+                selectedSegment === 'all' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              All Customers
+            </button>
+          </div>
+        </div>
+
+        {members.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="text-left py-3 px-4 font-medium text-gray-700">Customer</th>
+                  <th className="text-center py-3 px-4 font-medium text-gray-700">R</th>
+                  <th className="text-center py-3 px-4 font-medium text-gray-700">F</th>
+                  <th className="text-center py-3 px-4 font-medium text-gray-700">M</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-700">Purchased</th>
+                  <th className="text-right py-3 px-4 font-medium text-gray-700">Classes</th>
+                  <th className="text-right py-3 px-4 font-medium text-gray-700">Spend</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-700">Segments</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {members.map(({ customer, ...scored }) => (
+                  <tr key={customer.customerEmail} className="hover:bg-gray-50">
+                    <td className="py-3 px-4">
+                      <button
+                        onClick={() => onOpenCustomer({ name: customer.customerName, email: customer.customerEmail, phone: customer.customerPhone })}
+                        className="font-medium text-gray-900 hover:text-blue-600 hover:underline text-left"
+                      >
+                        {customer.customerName}
+                      </button>
+                      <p className="flex items-center space-x-1 text-xs text-gray-500">
+                        <Mail className="w-3 h-3" />
+                        <span>{customer.customerEmail}</span>
+                      </p>
+                    </td>
+                    <td className="py-3 px-4 text-center text-gray-900">{scored.recency}</td>
+                    <td className="py-3 px-4 text-center text-gray-900">{scored.frequency}</td>
+                    <td className="py-3 px-4 text-center text-gray-900">{scored.monetary}</td>
+                    <td className="py-3 px-4 text-gray-600 whitespace-nowrap">
+                      {scored.firstPurchase === scored.lastPurchase
+                        ? scored.firstPurchase || '—'
+                        : `${scored.firstPurchase} – ${scored.lastPurchase}`}
+                    </td>
+                    <td className="py-3 px-4 text-right text-gray-600">{scored.classCount}</td>
+                    <td className="py-3 px-4 text-right font-medium text-gray-900">${customer.revenue.toFixed(2)}</td>
+                    <td className="py-3 px-4">
+                      <div className="flex flex-wrap gap-1">
+                        {scored.segments.map(id => (
+                          <span key={id} className={`inline-block px-2 py-0.5 text-xs font-medium rounded-full whitespace-nowrap ${SEGMENT_COLORS[id]}`}>
+                            {segmentName(id)}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="p-12 text-center">
+            <Target className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No Customers in This Segment</h3>
+            <p className="text-gray-600">Try another segment or view all customers.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,62 +1,57 @@
 import React from 'react';
-import { DollarSign, Users, ShoppingBag, TrendingUp } from 'lucide-react';
-import { type ParsedOrder } from '../utils/csvParser';
+import { DollarSign, Users, ShoppingBag, TrendingUp, RotateCcw, Calculator, Telescope } from 'lucide-react';
+import { ALLOCATION_STRATEGIES, type AllocationStrategy } from '../utils/revenue';
+import type { DatasetMetrics } from '../utils/metrics';
+import type { SalesForecast } from '../utils/forecast';
+import { ForecastBasisNote } from './ForecastBasisNote';
 
 interface DashboardStatsProps {
-  data: ParsedOrder[];
+  metrics: DatasetMetrics;
+  // null when there's no event date or no earlier event to fit from
+  forecast: SalesForecast | null;
+  onStrategyChange: (strategy: AllocationStrategy) => void;
 }
 
-export function DashboardStats({ data }: DashboardStatsProps) {
-  const stats = React.useMemo(() => {
-    // Calculate total revenue by summing unique order totals
-    const uniqueOrders = new Map<string, number>();
-    data.forEach(order => {
-      if (!uniqueOrders.has(order.orderId)) {
-        uniqueOrders.set(order.orderId, order.orderTotalAmount);
-      }
-    });
-    const totalRevenue = Array.from(uniqueOrders.values()).reduce((sum, amount) => sum + amount, 0);
-    
-    const totalQuantity = data.reduce((sum, order) => sum + order.quantity, 0);
-    const uniqueCustomers = new Set(data.map(order => order.customerEmail)).size;
-    const uniqueClasses = new Set(data.map(order => order.className)).size;
-
-    // Calculate revenue per class using proportional allocation
-    const classStats = data.reduce((acc, order) => {
-      const className = order.className;
-      if (!acc[className]) {
-        acc[className] = { quantity: 0, revenue: 0 };
-      }
-      acc[className].quantity += order.quantity;
-      
-      // Calculate proportional revenue for this line item
-      const lineItemRevenueContribution = order.orderSubTotal > 0 
-        ? order.lineItemSubtotal + (order.lineItemSubtotal / order.orderSubTotal) * order.orderTaxAmount
-        : order.lineItemSubtotal;
-      
-      acc[className].revenue += lineItemRevenueContribution;
-      return acc;
-    }, {} as Record<string, { quantity: number; revenue: number }>);
+const formatMoney = (value: number) => `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 
-    const topClasses = Object.entries(classStats)
-      .filter(([className]) => !className.toLowerCase().includes('bundle'))
-      .sort(([, a], [, b]) => b.quantity - a.quantity)
+export function DashboardStats({ metrics, forecast, onStrategyChange }: DashboardStatsProps) {
+  const stats = React.useMemo(() => {
+    const { totals } = metrics;
+    const topClasses = metrics.classes
+      .filter(cls => !cls.isBundle && cls.quantity > 0)
+      .sort((a, b) => b.quantity - a.quantity)
       .slice(0, 5);
 
     return {
-      totalRevenue,
-      totalQuantity,
-      uniqueCustomers,
-      uniqueClasses,
-      topClasses,
-      classStats
+      // Order totals as charged, tax and fees included, before refunds
+      orderTotal: metrics.orders.reduce((sum, order) => sum + order.totalAmount, 0),
+      grossRevenue: totals.grossRevenue,
+      totalRefunds: totals.refunds,
+      netRevenue: totals.revenue,
+      refundCounts: totals.refundCounts,
+      refundedTickets: totals.refundedTickets,
+      totalQuantity: totals.tickets,
+      uniqueCustomers: totals.customers,
+      uniqueClasses: metrics.classes.filter(cls => cls.quantity > 0).length,
+      topClasses
     };
-  }, [data]);
+  }, [metrics]);
+
+  const strategy = ALLOCATION_STRATEGIES.find(option => option.id === metrics.strategy)!;
 
   const statCards = [
     {
       title: 'Total Revenue',
-      value: `$${stats.totalRevenue.toLocaleString('en-US', { minimumFractionDigits: 2 })}`,
+      value: `$${stats.orderTotal.toLocaleString('en-US', { minimumFractionDigits: 2 })}`,
+      detail: 'Order totals incl. tax & fees',
+      icon: DollarSign,
+      color: 'text-emerald-600',
+      bgColor: 'bg-emerald-100'
+    },
+    {
+      title: 'Net Revenue',
+      value: `$${stats.netRevenue.toLocaleString('en-US', { minimumFractionDigits: 2 })}`,
+      detail: strategy.label,
       icon: DollarSign,
       color: 'text-green-600',
       bgColor: 'bg-green-100'
@@ -88,13 +83,14 @@ export function DashboardStats({ data }: DashboardStatsProps) {
     <div className="space-y-8">
       <div>
         <h2 className="text-2xl font-bold text-gray-900 mb-6">Sales Overview</h2>
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-6">
           {statCards.map((stat) => (
             <div key={stat.title} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 hover:shadow-md transition-shadow duration-200">
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm font-medium text-gray-600">{stat.title}</p>
                   <p className="text-2xl font-bold text-gray-900 mt-1">{stat.value}</p>
+                  {stat.detail && <p className="text-xs text-gray-500 mt-1">{stat.detail}</p>}
                 </div>
                 <div className={`w-12 h-12 rounded-lg ${stat.bgColor} flex items-center justify-center`}>
                   <stat.icon className={`w-6 h-6 ${stat.color}`} />
@@ -105,17 +101,98 @@ export function DashboardStats({ data }: DashboardStatsProps) {
         </div>
       </div>
 
+      {forecast && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <div className="flex items-center space-x-2 mb-6">
+            <Telescope className="w-5 h-5 text-indigo-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Forecast</h3>
+            <span className="text-sm text-gray-500">{forecast.daysBefore} days out</span>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-4">
+            <div className="p-4 bg-indigo-50 rounded-lg">
+              <p className="text-sm font-medium text-indigo-700">Final Tickets</p>
+              <p className="text-2xl font-bold text-indigo-900 mt-1">{Math.round(forecast.tickets.expected).toLocaleString()}</p>
+              <p className="text-sm text-indigo-700 mt-1">
+                {Math.round(forecast.tickets.low).toLocaleString()} – {Math.round(forecast.tickets.high).toLocaleString()} likely
+              </p>
+            </div>
+            <div className="p-4 bg-green-50 rounded-lg">
+              <p className="text-sm font-medium text-green-700">Final Net Revenue</p>
+              <p className="text-2xl font-bold text-green-900 mt-1">{formatMoney(forecast.revenue.expected)}</p>
+              <p className="text-sm text-green-700 mt-1">
+                {formatMoney(forecast.revenue.low)} – {formatMoney(forecast.revenue.high)} likely
+              </p>
+            </div>
+          </div>
+          <ForecastBasisNote forecast={forecast} />
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div className="flex items-start space-x-3">
+            <Calculator className="w-5 h-5 text-blue-600 mt-0.5" />
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Revenue Allocation</h3>
+              <p className="text-sm text-gray-600">{strategy.description} Applies to every tab.</p>
+            </div>
+          </div>
+          <select
+            value={metrics.strategy}
+            onChange={(e) => onStrategyChange(e.target.value as AllocationStrategy)}
+            className="border border-gray-200 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {ALLOCATION_STRATEGIES.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="flex items-center space-x-2 mb-6">
+          <RotateCcw className="w-5 h-5 text-red-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Refunds & Cancellations</h3>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+          <div className="p-4 bg-gray-50 rounded-lg">
+            <p className="text-sm font-medium text-gray-600">Gross Sales</p>
+            <p className="text-2xl font-bold text-gray-900 mt-1">
+              ${stats.grossRevenue.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+            </p>
+          </div>
+          <div className="p-4 bg-red-50 rounded-lg">
+            <p className="text-sm font-medium text-red-700">Refunds</p>
+            <p className="text-2xl font-bold text-red-900 mt-1">
+              -${stats.totalRefunds.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+            </p>
+          </div>
+          <div className="p-4 bg-green-50 rounded-lg">
+            <p className="text-sm font-medium text-green-700">Net Revenue</p>
+            <p className="text-2xl font-bold text-green-900 mt-1">
+              ${stats.netRevenue.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm text-gray-600">
+          <span><span className="font-medium text-gray-900">{stats.refundCounts.refunded}</span> refunded orders</span>
+          <span><span className="font-medium text-gray-900">{stats.refundCounts.partial}</span> partially refunded</span>
+          <span><span className="font-medium text-gray-900">{stats.refundCounts.cancelled}</span> cancelled</span>
+          <span><span className="font-medium text-gray-900">{stats.refundedTickets}</span> tickets returned</span>
+        </div>
+      </div>
+
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-6">Top 5 Classes by Tickets Sold</h3>
         <div className="space-y-4">
-          {stats.topClasses.map(([className, classData], index) => (
-            <div key={className} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors duration-200">
+          {stats.topClasses.map((classData, index) => (
+            <div key={classData.name} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors duration-200">
               <div className="flex items-center space-x-4">
                 <div className="w-8 h-8 bg-blue-600 text-white rounded-lg flex items-center justify-center text-sm font-bold">
                   {index + 1}
                 </div>
                 <div>
-                  <h4 className="font-medium text-gray-900">{className}</h4>
+                  <h4 className="font-medium text-gray-900">{classData.name}</h4>
                   <p className="text-sm text-gray-600">
                     {classData.quantity} tickets • ${classData.revenue.toFixed(2)} revenue
                   </p>
@@ -130,7 +207,7 @@ export function DashboardStats({ data }: DashboardStatsProps) {
                   <div
                     className="bg-blue-600 h-2 rounded-full transition-all duration-300"
                     style={{
-                      width: `${(classData.quantity / stats.topClasses[0][1].quantity) * 100}%`
+                      width: `${(classData.quantity / stats.topClasses[0].quantity) * 100}%`
                     }}
                   />
                 </div>
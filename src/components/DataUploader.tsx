@@ -1,68 +1,84 @@
 import React, { useCallback, useState } from 'react';
 import { Upload, FileText, RefreshCw, AlertCircle } from 'lucide-react';
+import { ColumnMappingScreen } from './ColumnMappingScreen';
+import { ImportDiagnosticsPanel } from './ImportDiagnosticsPanel';
+import type { UploadResult } from '../hooks/useOrderData';
+import type { ColumnKey, ColumnMapping } from '../utils/columnMapping';
+import type { ImportDiagnostics } from '../utils/csvParser';
 
 interface DataUploaderProps {
-  onDataUpload: (csvText: string, fileName?: string) => Promise<{ success: boolean; error?: string }>;
+  onDataUpload: (csvText: string, fileName?: string, columnMapping?: ColumnMapping) => Promise<UploadResult>;
   hasExistingData: boolean;
+  onClose: () => void;
 }
 
-export function DataUploader({ onDataUpload, hasExistingData }: DataUploaderProps) {
+interface PendingMapping {
+  csvText: string;
+  fileName: string;
+  missing: ColumnKey[];
+  headers: string[];
+}
+
+export function DataUploader({ onDataUpload, hasExistingData, onClose }: DataUploaderProps) {
   const [isUploading, setIsUploading] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
+  const [pendingMapping, setPendingMapping] = useState<PendingMapping | null>(null);
+  const [lastImport, setLastImport] = useState<{ fileName: string; diagnostics: ImportDiagnostics; rejected: boolean } | null>(null);
 
-  const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
+  const submitUpload = useCallback(async (csvText: string, fileName: string, columnMapping?: ColumnMapping) => {
     setIsUploading(true);
     setUploadError(null);
-
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      const csvText = e.target?.result as string;
-      try {
-        const result = await onDataUpload(csvText, file.name);
+    setLastImport(null);
+    try {
+      const result = await onDataUpload(csvText, fileName, columnMapping);
+      if (result.missingColumns) {
+        setPendingMapping({ csvText, fileName, ...result.missingColumns });
+      } else {
+        setPendingMapping(null);
         if (!result.success) {
           setUploadError(result.error || 'Upload failed');
         }
-      } catch (error) {
-        console.error('Error uploading CSV:', error);
-        setUploadError('Error processing CSV file. Please check the format and try again.');
-      } finally {
-        setIsUploading(false);
+        // A file refused for malformed records still gets its report so the rejected rows can be fixed
+        if (result.diagnostics) {
+          setLastImport({ fileName, diagnostics: result.diagnostics, rejected: !result.success });
+        }
       }
+    } catch (error) {
+      console.error('Error uploading CSV:', error);
+      setUploadError('Error processing CSV file. Please check the format and try again.');
+    } finally {
+      setIsUploading(false);
+    }
+  }, [onDataUpload]);
+
+  const readFile = useCallback((file: File) => {
+    setIsUploading(true);
+    setUploadError(null);
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      submitUpload(e.target?.result as string, file.name);
     };
     reader.readAsText(file);
-  }, [onDataUpload]);
+  }, [submitUpload]);
+
+  const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    readFile(file);
+    // Allow re-selecting the same file after fixing a mapping
+    event.target.value = '';
+  }, [readFile]);
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
   };
 
-  const handleDrop = async (e: React.DragEvent) => {
+  const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     const files = e.dataTransfer.files;
     if (files.length > 0) {
-      const file = files[0];
-      setIsUploading(true);
-      setUploadError(null);
-
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        const csvText = e.target?.result as string;
-        try {
-          const result = await onDataUpload(csvText, file.name);
-          if (!result.success) {
-            setUploadError(result.error || 'Upload failed');
-          }
-        } catch (error) {
-          console.error('Error uploading CSV:', error);
-          setUploadError('Error processing CSV file. Please check the format and try again.');
-        } finally {
-          setIsUploading(false);
-        }
-      };
-      reader.readAsText(file);
+      readFile(files[0]);
     }
   };
 
@@ -87,62 +103,92 @@ export function DataUploader({ onDataUpload, hasExistingData }: DataUploaderProp
             <div>
               <h4 className="text-sm font-medium text-blue-900">Update Existing Data</h4>
               <p className="text-sm text-blue-700 mt-1">
-                Uploading a new file will replace all current data with the latest sales information.
+                Uploading a new file makes it the active dataset. The current data is kept in upload history and can be restored at any time.
               </p>
             </div>
           </div>
         </div>
       )}
 
-      <div
-        className={`border-2 border-dashed rounded-xl p-8 text-center cursor-pointer transition-all duration-200 ${
-          isUploading 
-            ? 'border-blue-300 bg-blue-50' 
-            : 'border-gray-200 hover:border-blue-300 hover:bg-gray-50'
-        }`}
-        onDragOver={handleDragOver}
-        onDrop={handleDrop}
-        onClick={() => !isUploading && document.getElementById('csv-upload')?.click()}
-      >
-        {isUploading ? (
-          <div className="space-y-4">
-            <div className="w-12 h-12 bg-blue-100 rounded-lg mx-auto flex items-center justify-center">
-              <div className="w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
-            </div>
-            <div>
-              <h4 className="text-lg font-medium text-gray-900">Processing...</h4>
-              <p className="text-gray-600">Uploading and parsing your CSV file</p>
-            </div>
+      {lastImport ? (
+        <div className="space-y-4">
+          <ImportDiagnosticsPanel diagnostics={lastImport.diagnostics} fileName={lastImport.fileName} rejected={lastImport.rejected} />
+          <div className="flex items-center justify-end space-x-3">
+            <button
+              onClick={() => {
+                setLastImport(null);
+                setUploadError(null);
+              }}
+              className="px-4 py-2 text-gray-700 font-medium rounded-lg hover:bg-gray-100 transition-colors duration-200"
+            >
+              Upload Another File
+            </button>
+            <button
+              onClick={onClose}
+              className="inline-flex items-center px-6 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors duration-200"
+            >
+              {lastImport.rejected ? 'Close' : 'Done'}
+            </button>
           </div>
-        ) : (
-          <div className="space-y-4">
-            <div className="w-12 h-12 bg-blue-100 rounded-lg mx-auto flex items-center justify-center">
-              <FileText className="w-6 h-6 text-blue-600" />
-            </div>
-            <div>
-              <h4 className="text-lg font-medium text-gray-900">
-                {hasExistingData ? 'Upload New CSV File' : 'Upload CSV File'}
-              </h4>
-              <p className="text-gray-600">
-                Drag and drop your CSV file here, or click to select
-              </p>
+        </div>
+      ) : pendingMapping ? (
+        <ColumnMappingScreen
+          missing={pendingMapping.missing}
+          headers={pendingMapping.headers}
+          onSubmit={(mapping) => submitUpload(pendingMapping.csvText, pendingMapping.fileName, mapping)}
+          onCancel={() => setPendingMapping(null)}
+        />
+      ) : (
+        <div
+          className={`border-2 border-dashed rounded-xl p-8 text-center cursor-pointer transition-all duration-200 ${
+            isUploading 
+              ? 'border-blue-300 bg-blue-50' 
+              : 'border-gray-200 hover:border-blue-300 hover:bg-gray-50'
+          }`}
+          onDragOver={handleDragOver}
+          onDrop={handleDrop}
+          onClick={() => !isUploading && document.getElementById('csv-upload')?.click()}
+        >
+          {isUploading ? (
+            <div className="space-y-4">
+              <div className="w-12 h-12 bg-blue-100 rounded-lg mx-auto flex items-center justify-center">
+                <div className="w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+              </div>
+              <div>
+                <h4 className="text-lg font-medium text-gray-900">Processing...</h4>
+                <p className="text-gray-600">Uploading and parsing your CSV file</p>
+              </div>
             </div>
-            <div className="flex items-center justify-center space-x-2 text-sm text-gray-500">
-              <Upload className="w-4 h-4" />
-              <span>Supports CSV files up to 10MB</span>
+          ) : (
+            <div className="space-y-4">
+              <div className="w-12 h-12 bg-blue-100 rounded-lg mx-auto flex items-center justify-center">
+                <FileText className="w-6 h-6 text-blue-600" />
+              </div>
+              <div>
+                <h4 className="text-lg font-medium text-gray-900">
+                  {hasExistingData ? 'Upload New CSV File' : 'Upload CSV File'}
+                </h4>
+                <p className="text-gray-600">
+                  Drag and drop your CSV file here, or click to select
+                </p>
+              </div>
+              <div className="flex items-center justify-center space-x-2 text-sm text-gray-500">
+                <Upload className="w-4 h-4" />
+                <span>Supports CSV files up to 10MB</span>
+              </div>
             </div>
-          </div>
-        )}
+          )}
 
-        <input
-          id="csv-upload"
-          type="file"
-          accept=".csv"
-          onChange={handleFileUpload}
-          disabled={isUploading}
-          className="hidden"
-        />
-      </div>
+          <input
+            id="csv-upload"
+            type="file"
+            accept=".csv"
+            onChange={handleFileUpload}
+            disabled={isUploading}
+            className="hidden"
+          />
+        </div>
+      )}
 
       {uploadError && (
         <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-4">
@@ -156,7 +202,7 @@ export function DataUploader({ onDataUpload, hasExistingData }: DataUploaderProp
         </div>
       )}
 
-      {!hasExistingData && (
+      {!hasExistingData && !pendingMapping && !lastImport && (
         <div className="mt-6 text-center">
           <button
             onClick={() => !isUploading && document.getElementById('csv-upload')?.click()}
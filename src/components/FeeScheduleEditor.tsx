@@ -0,0 +1,177 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Percent, Save, AlertCircle, X } from 'lucide-react';
+import { buildFeeLookup, findPaymentFee, type PaymentFee } from '../utils/fees';
+import type { PaymentFeeChange } from '../hooks/usePaymentFees';
+
+interface FeeScheduleEditorProps {
+  // Payment methods seen in the current upload
+  methods: string[];
+  fees: PaymentFee[];
+  onSave: (changes: PaymentFeeChange[]) => Promise<{ success: boolean; error?: string }>;
+  onClose: () => void;
+}
+
+interface FeeDraft {
+  percent: string;
+  fixed: string;
+}
+
+const parseFee = (value: string): number | null => {
+  const cleaned = value.replace(/[$%,\s]/g, '');
+  if (!cleaned) return null;
+  const number = parseFloat(cleaned);
+  return isNaN(number) ? NaN : number;
+};
+
+export function FeeScheduleEditor({ methods, fees, onSave, onClose }: FeeScheduleEditorProps) {
+  const [drafts, setDrafts] = useState<Record<string, FeeDraft>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const feeLookup = useMemo(() => buildFeeLookup(fees), [fees]);
+
+  // Methods in this upload first, then any saved for methods that haven't shown up
+  const allMethods = useMemo(() => {
+    const saved = fees.map(fee => fee.method).filter(method => !methods.some(other => other.toLowerCase() === method.toLowerCase()));
+    return [...methods, ...saved];
+  }, [methods, fees]);
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries(allMethods.map(method => {
+      const fee = findPaymentFee(feeLookup, method);
+      return [method, {
+        percent: fee ? String(fee.percent_fee) : '',
+        fixed: fee ? fee.fixed_fee.toFixed(2) : ''
+      }];
+    })));
+  }, [allMethods, feeLookup]);
+
+  const changes: PaymentFeeChange[] = allMethods.flatMap(method => {
+    const draft = drafts[method];
+    if (!draft) return [];
+    const saved = findPaymentFee(feeLookup, method);
+    const percentFee = parseFee(draft.percent);
+    const fixedFee = parseFee(draft.fixed);
+    const unchanged = saved
+      ? percentFee === saved.percent_fee && fixedFee === saved.fixed_fee
+      : percentFee === null && fixedFee === null;
+    return unchanged ? [] : [{ method: saved?.method || method, percentFee, fixedFee }];
+  });
+
+  const updateDraft = (method: string, fields: Partial<FeeDraft>) => {
+    setDrafts(prev => ({ ...prev, [method]: { ...prev[method], ...fields } }));
+  };
+
+  const handleSave = async () => {
+    const invalid = changes.find(change =>
+      (change.percentFee !== null && !(change.percentFee >= 0 && change.percentFee < 100))
+      || (change.fixedFee !== null && !(change.fixedFee >= 0))
+    );
+    if (invalid) {
+      setSaveError(`Check the fees for ${invalid.method}: use a percentage under 100 and a fixed fee of $0 or more.`);
+      return;
+    }
+
+    setIsSaving(true);
+    setSaveError(null);
+    const result = await onSave(changes);
+    setIsSaving(false);
+    if (!result.success) {
+      setSaveError(result.error || 'Failed to save the fee schedule');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-3">
+          <Percent className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Processing Fee Schedule</h3>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-gray-500 rounded-lg hover:bg-gray-100 transition-colors duration-200"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        What each processor keeps per order: a percentage of the charge plus a fixed fee. Leave both blank for methods without fees, such as cash.
+      </p>
+
+      {saveError && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-start space-x-3">
+            <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
+            <p className="text-sm text-red-700">{saveError}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="border border-gray-100 rounded-lg overflow-hidden">
+        <table className="w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payment Method</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Percent</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Fixed Fee</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {allMethods.map(method => (
+              <tr key={method} className="hover:bg-gray-50">
+                <td className="px-4 py-2 text-sm font-medium text-gray-900">
+                  {method}
+                  {!methods.includes(method) && <span className="ml-2 text-xs font-normal text-gray-500">not in this upload</span>}
+                </td>
+                <td className="px-4 py-2">
+                  <div className="flex items-center space-x-1">
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={drafts[method]?.percent ?? ''}
+                      onChange={(e) => updateDraft(method, { percent: e.target.value })}
+                      placeholder="0"
+                      className="w-20 border border-gray-200 rounded-md px-3 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <span className="text-sm text-gray-500">%</span>
+                  </div>
+                </td>
+                <td className="px-4 py-2">
+                  <div className="flex items-center space-x-1">
+                    <span className="text-sm text-gray-500">$</span>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={drafts[method]?.fixed ?? ''}
+                      onChange={(e) => updateDraft(method, { fixed: e.target.value })}
+                      placeholder="0.00"
+                      className="w-20 border border-gray-200 rounded-md px-3 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {allMethods.length === 0 && (
+          <p className="px-4 py-6 text-sm text-gray-500 text-center">No payment methods in this upload.</p>
+        )}
+      </div>
+
+      <div className="mt-6 flex items-center justify-end space-x-3">
+        <span className="text-sm text-gray-500">
+          {changes.length === 0 ? 'No unsaved changes' : `${changes.length} unsaved change${changes.length === 1 ? '' : 's'}`}
+        </span>
+        <button
+          onClick={handleSave}
+          disabled={changes.length === 0 || isSaving}
+          className="inline-flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors duration-200 text-sm"
+        >
+          <Save className="w-4 h-4" />
+          <span>{isSaving ? 'Saving...' : 'Save Fees'}</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { Info } from 'lucide-react';
+import { FORECAST_TIMING_WINDOW, type SalesForecast } from '../utils/forecast';
+
+interface ForecastBasisNoteProps {
+  forecast: SalesForecast;
+}
+
+// Says which past sales curves a forecast was fitted from
+export function ForecastBasisNote({ forecast }: ForecastBasisNoteProps) {
+  const curves = forecast.basis.map(basis =>
+    `${basis.event.short_name} ${basis.event.year}, which had sold ${Math.round(basis.ticketShare * 100)}% of its final tickets`
+  );
+
+  return (
+    <div className="flex items-start space-x-2 text-sm text-gray-600">
+      <Info className="w-4 h-4 text-gray-400 mt-0.5 flex-shrink-0" />
+      <p>
+        Fitted from {curves.join(' and ')} {forecast.daysBefore} day{forecast.daysBefore === 1 ? '' : 's'} before its event.
+        {forecast.basis.length > 1 ? ' The forecast averages these curves; the range' : ' The range'} covers
+        selling up to {FORECAST_TIMING_WINDOW} days earlier or later than {forecast.basis.length > 1 ? 'they' : 'it'} did.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useMemo } from 'react';
+import { ClipboardCheck, Download, AlertTriangle, CheckCircle } from 'lucide-react';
+import { SKIP_REASON_LABELS, type ImportDiagnostics, type SkipReason } from '../utils/csvParser';
+
+interface ImportDiagnosticsPanelProps {
+  diagnostics: ImportDiagnostics;
+  fileName?: string;
+  // The upload was refused, so nothing in the file was saved
+  rejected?: boolean;
+}
+
+const escapeCSV = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+export function ImportDiagnosticsPanel({ diagnostics, fileName, rejected = false }: ImportDiagnosticsPanelProps) {
+  const { rejectedRows, subtotalMismatches } = diagnostics;
+
+  const reasonCounts = useMemo(() => {
+    const counts = new Map<SkipReason, number>();
+    rejectedRows.forEach(row => counts.set(row.reason, (counts.get(row.reason) || 0) + 1));
+    return Array.from(counts.entries()).sort(([, a], [, b]) => b - a);
+  }, [rejectedRows]);
+
+  const hasIssues = rejectedRows.length > 0 || subtotalMismatches.length > 0;
+
+  const exportReport = () => {
+    const csvRows = [
+      ['Line', 'Reason', 'Detail', 'Order ID', ...diagnostics.headers].map(escapeCSV).join(','),
+      ...rejectedRows.map(row =>
+        [String(row.line), SKIP_REASON_LABELS[row.reason], row.detail, row.orderId, ...row.fields].map(escapeCSV).join(',')
+      ),
+      ...subtotalMismatches.map(mismatch =>
+        [
+          String(mismatch.line),
+          'Subtotal mismatch',
+          `Line items total $${mismatch.lineItemTotal.toFixed(2)} but order sub total is $${mismatch.orderSubTotal.toFixed(2)}`,
+          mismatch.orderId
+        ].map(escapeCSV).join(',')
+      )
+    ];
+
+    const blob = new Blob([csvRows.join('\n')], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `ebony-fit-import-report${fileName ? `-${fileName.replace(/\.csv$/i, '').toLowerCase().replace(/[^a-z0-9]/g, '-')}` : ''}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-xl overflow-hidden">
+      <div className="flex items-center justify-between p-4 bg-gray-50 border-b border-gray-200">
+        <div className="flex items-center space-x-3">
+          <ClipboardCheck className="w-5 h-5 text-blue-600" />
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900">Import Diagnostics</h4>
+            {fileName && <p className="text-xs text-gray-500">{fileName}</p>}
+          </div>
+        </div>
+        {hasIssues && (
+          <button
+            onClick={exportReport}
+            className="inline-flex items-center space-x-2 px-3 py-1.5 bg-green-600 text-white text-sm font-medium rounded-lg hover:bg-green-700 transition-colors duration-200"
+          >
+            <Download className="w-4 h-4" />
+            <span>Download Report</span>
+          </button>
+        )}
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          <div className="bg-blue-50 rounded-lg p-3">
+            <p className="text-xs font-medium text-blue-800">Rows in file</p>
+            <p className="text-xl font-bold text-blue-900">{diagnostics.totalRows.toLocaleString()}</p>
+          </div>
+          <div className="bg-green-50 rounded-lg p-3">
+            <p className="text-xs font-medium text-green-800">{rejected ? 'Line items read (not saved)' : 'Line items imported'}</p>
+            <p className="text-xl font-bold text-green-900">{diagnostics.importedRows.toLocaleString()}</p>
+          </div>
+          <div className="bg-orange-50 rounded-lg p-3">
+            <p className="text-xs font-medium text-orange-800">Rows skipped</p>
+            <p className="text-xl font-bold text-orange-900">{rejectedRows.length.toLocaleString()}</p>
+          </div>
+          <div className="bg-red-50 rounded-lg p-3">
+            <p className="text-xs font-medium text-red-800">Subtotal mismatches</p>
+            <p className="text-xl font-bold text-red-900">{subtotalMismatches.length.toLocaleString()}</p>
+          </div>
+        </div>
+
+        {!hasIssues && (
+          <div className="flex items-center space-x-2 text-sm text-green-700">
+            <CheckCircle className="w-4 h-4" />
+            <span>Every row was imported and all {diagnostics.importedOrders.toLocaleString()} orders add up.</span>
+          </div>
+        )}
+
+        {reasonCounts.length > 0 && (
+          <div>
+            <h5 className="text-sm font-medium text-gray-900 mb-2">Skipped rows by reason</h5>
+            <div className="space-y-2">
+              {reasonCounts.map(([reason, count]) => (
+                <div key={reason} className="flex items-center space-x-3">
+                  <span className="w-48 text-sm text-gray-700">{SKIP_REASON_LABELS[reason]}</span>
+                  <div className="flex-1 bg-gray-200 rounded-full h-2">
+                    <div
+                      className="bg-orange-500 h-2 rounded-full"
+                      style={{ width: `${(count / rejectedRows.length) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-12 text-right text-sm font-medium text-gray-900">{count}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {subtotalMismatches.length > 0 && (
+          <div>
+            <div className="flex items-center space-x-2 mb-2">
+              <AlertTriangle className="w-4 h-4 text-red-600" />
+              <h5 className="text-sm font-medium text-gray-900">Orders whose line items don't add up</h5>
+            </div>
+            <div className="max-h-48 overflow-y-auto border border-gray-100 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="text-left py-2 px-3 font-medium text-gray-700">Order ID</th>
+                    <th className="text-right py-2 px-3 font-medium text-gray-700">Line items</th>
+                    <th className="text-right py-2 px-3 font-medium text-gray-700">Order sub total</th>
+                    <th className="text-right py-2 px-3 font-medium text-gray-700">Difference</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {subtotalMismatches.map(mismatch => (
+                    <tr key={mismatch.orderId}>
+                      <td className="py-2 px-3 text-gray-900">{mismatch.orderId}</td>
+                      <td className="py-2 px-3 text-right text-gray-600">${mismatch.lineItemTotal.toFixed(2)}</td>
+                      <td className="py-2 px-3 text-right text-gray-600">${mismatch.orderSubTotal.toFixed(2)}</td>
+                      <td className="py-2 px-3 text-right font-medium text-red-700">
+                        ${(mismatch.lineItemTotal - mismatch.orderSubTotal).toFixed(2)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,58 +1,27 @@
 import React, { useState, useMemo } from 'react';
-import { Trophy, Medal, Award, Download, Search, SortAsc, SortDesc } from 'lucide-react';
-import { type ParsedOrder } from '../utils/csvParser';
+import { Trophy, Medal, Award, Download, Search, SortAsc, SortDesc, RotateCcw } from 'lucide-react';
+import type { DatasetMetrics } from '../utils/metrics';
+import { CapacityBadge, SellThroughBar } from './CapacityBadge';
 
 interface LeaderboardProps {
-  data: ParsedOrder[];
+  metrics: DatasetMetrics;
   userRole?: 'master' | 'team';
 }
 
-export function Leaderboard({ data, userRole }: LeaderboardProps) {
+export function Leaderboard({ metrics, userRole }: LeaderboardProps) {
   const [searchTerm, setSearchTerm] = useState('');
   const [sortField, setSortField] = useState<'name' | 'quantity' | 'revenue' | 'customers'>('quantity');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [showRefunds, setShowRefunds] = useState(false);
   
   const isMaster = userRole === 'master';
 
-  const leaderboardData = useMemo(() => {
-    const stats = data.reduce((acc, order) => {
-      const className = order.className;
-      if (!acc[className]) {
-        acc[className] = {
-          name: className,
-          quantity: 0,
-          revenue: 0,
-          customers: new Set<string>(),
-          orders: []
-        };
-      }
-      acc[className].quantity += order.quantity;
-      
-      // Calculate proportional revenue for this line item
-      const lineItemRevenueContribution = order.orderSubTotal > 0 
-        ? order.lineItemSubtotal + (order.lineItemSubtotal / order.orderSubTotal) * order.orderTaxAmount
-        : order.lineItemSubtotal;
-      
-      acc[className].revenue += lineItemRevenueContribution;
-      acc[className].customers.add(order.customerEmail);
-      acc[className].orders.push(order);
-      return acc;
-    }, {} as Record<string, {
-      name: string;
-      quantity: number;
-      revenue: number;
-      customers: Set<string>;
-      orders: ParsedOrder[];
-    }>);
+  // Bundles aren't ranked; the slots redeemed from them already count towards each class's revenue
+  const leaderboardData = useMemo(() => metrics.classes
+    .filter(cls => !cls.isBundle && cls.orders.length > 0)
+    .map((cls, index) => ({ ...cls, rank: index + 1 })), [metrics]);
 
-    return Object.values(stats)
-      .filter(stat => !stat.name.toLowerCase().includes('bundle'))
-      .map((stat, index) => ({
-        ...stat,
-        uniqueCustomers: stat.customers.size,
-        rank: index + 1
-      }));
-  }, [data]);
+  const hasCapacities = leaderboardData.some(cls => cls.capacity !== null);
 
   const filteredAndSortedClasses = useMemo(() => {
     let filtered = leaderboardData.filter(cls =>
@@ -112,14 +81,15 @@ export function Leaderboard({ data, userRole }: LeaderboardProps) {
 
   const exportLeaderboard = () => {
     const headers = isMaster 
-      ? 'Rank,Class Name,Tickets Sold,Revenue,Unique Customers,Average per Customer'
-      : 'Rank,Class Name,Tickets Sold,Unique Customers';
+      ? 'Rank,Class Name,Tickets Sold,Sell-Through,Refunded Tickets,Refunds,Net Revenue,Unique Customers,Average per Customer'
+      : 'Rank,Class Name,Tickets Sold,Sell-Through,Unique Customers';
     
-    const rows = filteredAndSortedClasses.map(cls => 
-      isMaster 
-        ? `${cls.rank},"${cls.name}",${cls.quantity},$${cls.revenue.toFixed(2)},${cls.uniqueCustomers},$${(cls.revenue / cls.uniqueCustomers).toFixed(2)}`
-        : `${cls.rank},"${cls.name}",${cls.quantity},${cls.uniqueCustomers}`
-    );
+    const rows = filteredAndSortedClasses.map(cls => {
+      const sellThrough = cls.capacity ? `${Math.round(cls.capacity.sellThrough * 100)}%` : '';
+      return isMaster 
+        ? `${cls.rank},"${cls.name}",${cls.quantity},${sellThrough},${cls.refundedTickets},$${cls.refunds.toFixed(2)},$${cls.revenue.toFixed(2)},${cls.uniqueCustomers},$${(cls.revenue / cls.uniqueCustomers).toFixed(2)}`
+        : `${cls.rank},"${cls.name}",${cls.quantity},${sellThrough},${cls.uniqueCustomers}`;
+    });
 
     const csvContent = [headers, ...rows].join('\n');
 
@@ -155,13 +125,26 @@ export function Leaderboard({ data, userRole }: LeaderboardProps) {
             <h2 className="text-xl font-semibold text-gray-900">Class Leaderboard</h2>
             <p className="text-gray-600">Complete ranking of all classes by performance</p>
           </div>
-          <button
-            onClick={exportLeaderboard}
-            className="inline-flex items-center space-x-2 px-4 py-2 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 transition-colors duration-200"
-          >
-            <Download className="w-4 h-4" />
-            <span>Export CSV</span>
-          </button>
+          <div className="flex items-center space-x-2">
+            {isMaster && (
+              <button
+                onClick={() => setShowRefunds(!showRefunds)}
+                className={`inline-flex items-center space-x-2 px-4 py-2 font-medium rounded-lg transition-colors duration-200 ${
+                  showRefunds ? 'bg-red-100 text-red-700 hover:bg-red-200' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                <RotateCcw className="w-4 h-4" />
+                <span>{showRefunds ? 'Hide Refunds' : 'Show Refunds'}</span>
+              </button>
+            )}
+            <button
+              onClick={exportLeaderboard}
+              className="inline-flex items-center space-x-2 px-4 py-2 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 transition-colors duration-200"
+            >
+              <Download className="w-4 h-4" />
+              <span>Export CSV</span>
+            </button>
+          </div>
         </div>
         
         <div className="flex items-center space-x-4 mb-4">
@@ -248,13 +231,28 @@ export function Leaderboard({ data, userRole }: LeaderboardProps) {
                   )}
                 </button>
               </th>
+              {hasCapacities && (
+                <th className="text-right py-3 px-6">
+                  <span className="text-sm font-medium text-gray-700">Sell-Through</span>
+                </th>
+              )}
+              {isMaster && showRefunds && (
+                <>
+                  <th className="text-right py-3 px-6">
+                    <span className="text-sm font-medium text-gray-700">Refunded</span>
+                  </th>
+                  <th className="text-right py-3 px-6">
+                    <span className="text-sm font-medium text-gray-700">Refunds</span>
+                  </th>
+                </>
+              )}
               {isMaster && (
                 <th className="text-right py-3 px-6">
                   <button
                     onClick={() => handleSort('revenue')}
                     className="flex items-center space-x-1 text-sm font-medium text-gray-700 hover:text-gray-900"
                   >
-                    <span>Revenue</span>
+                    <span>{showRefunds ? 'Net Revenue' : 'Revenue'}</span>
                     {sortField === 'revenue' && (
                       sortOrder === 'asc' ? <SortAsc className="w-4 h-4" /> : <SortDesc className="w-4 h-4" />
                     )}
@@ -291,13 +289,31 @@ export function Leaderboard({ data, userRole }: LeaderboardProps) {
                   </div>
                 </td>
                 <td className="py-4 px-6">
-                  <div className="font-medium text-gray-900">{cls.name}</div>
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-gray-900">{cls.name}</span>
+                    <CapacityBadge info={cls.capacity} />
+                  </div>
                 </td>
                 <td className="py-4 px-6 text-right">
                   <span className="inline-flex items-center px-2 py-1 bg-blue-100 text-blue-800 text-sm font-medium rounded-full">
                     {cls.quantity}
                   </span>
                 </td>
+                {hasCapacities && (
+                  <td className="py-4 px-6 text-right">
+                    <SellThroughBar info={cls.capacity} />
+                  </td>
+                )}
+                {isMaster && showRefunds && (
+                  <>
+                    <td className="py-4 px-6 text-right text-gray-600">
+                      {cls.refundedTickets}
+                    </td>
+                    <td className="py-4 px-6 text-right text-red-600">
+                      {cls.refunds > 0 ? `-$${cls.refunds.toFixed(2)}` : '$0.00'}
+                    </td>
+                  </>
+                )}
                 {isMaster && (
                   <td className="py-4 px-6 text-right font-medium text-gray-900">
                     ${cls.revenue.toFixed(2)}
@@ -1,60 +1,28 @@
 import React, { useMemo, useState } from 'react';
 import { Download, Mail, Phone, Star, Users } from 'lucide-react';
-import { type ParsedOrder } from '../utils/csvParser';
+import type { DatasetMetrics } from '../utils/metrics';
+import type { CustomerContact } from '../utils/customerProfile';
 
 interface MultiPurchaseCustomersProps {
-  data: ParsedOrder[];
+  metrics: DatasetMetrics;
+  onOpenCustomer: (customer: CustomerContact) => void;
 }
 
-export function MultiPurchaseCustomers({ data }: MultiPurchaseCustomersProps) {
+export function MultiPurchaseCustomers({ metrics, onOpenCustomer }: MultiPurchaseCustomersProps) {
   const [minClasses, setMinClasses] = useState(2);
 
   const multiPurchaseData = useMemo(() => {
-    const customerMap = data.reduce((acc, order) => {
-      const key = `${order.customerEmail}`;
-      if (!acc[key]) {
-        acc[key] = {
-          customerName: order.customerName,
-          customerEmail: order.customerEmail,
-          customerPhone: order.customerPhone,
-          classes: new Set<string>(),
-          orders: [],
-          totalSpent: 0,
-          totalTickets: 0
-        };
-      }
-      
-      acc[key].classes.add(order.className);
-      acc[key].orders.push(order);
-      
-      // Calculate proportional revenue for this line item
-      const lineItemRevenueContribution = order.orderSubTotal > 0 
-        ? order.lineItemSubtotal + (order.lineItemSubtotal / order.orderSubTotal) * order.orderTaxAmount
-        : order.lineItemSubtotal;
-      
-      acc[key].totalSpent += lineItemRevenueContribution;
-      acc[key].totalTickets += order.quantity;
-      
-      return acc;
-    }, {} as Record<string, {
-      customerName: string;
-      customerEmail: string;
-      customerPhone: string;
-      classes: Set<string>;
-      orders: ParsedOrder[];
-      totalSpent: number;
-      totalTickets: number;
-    }>);
-
-    return Object.values(customerMap)
+    return metrics.customers
       .filter(customer => customer.classes.size >= minClasses)
-      .sort((a, b) => b.totalSpent - a.totalSpent)
+      .sort((a, b) => b.revenue - a.revenue)
       .map(customer => ({
         ...customer,
+        totalSpent: customer.revenue,
+        totalTickets: customer.tickets,
         classCount: customer.classes.size,
         classNames: Array.from(customer.classes)
       }));
-  }, [data, minClasses]);
+  }, [metrics, minClasses]);
 
   const exportMultiPurchaseData = () => {
     const csvContent = [
@@ -152,7 +120,12 @@ export function MultiPurchaseCustomers({ data }: MultiPurchaseCustomersProps) {
             <div className="flex items-start justify-between mb-4">
               <div className="flex-1">
                 <div className="flex items-center space-x-3 mb-2">
-                  <h4 className="font-semibold text-gray-900">{customer.customerName}</h4>
+                  <button
+                    onClick={() => onOpenCustomer({ name: customer.customerName, email: customer.customerEmail, phone: customer.customerPhone })}
+                    className="font-semibold text-gray-900 hover:text-blue-600 hover:underline text-left"
+                  >
+                    {customer.customerName}
+                  </button>
                   {customer.classCount >= 5 && (
                     <span className="inline-flex items-center space-x-1 px-2 py-1 bg-purple-100 text-purple-800 text-xs font-medium rounded-full">
                       <Star className="w-3 h-3" />
@@ -0,0 +1,287 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Gauge, TrendingUp, TrendingDown, AlertCircle, CalendarDays } from 'lucide-react';
+import type { EventConfig, EventId } from '../types/event';
+import { computeMetrics, type DatasetMetrics } from '../utils/metrics';
+import { buildSalesTimeline, type TimelinePoint } from '../utils/timeline';
+import { buildPacingCurve, comparePacing, type PacingPoint } from '../utils/pacing';
+import { useComparisonOrders } from '../hooks/useComparisonOrders';
+
+interface PacingComparisonProps {
+  event: EventConfig;
+  events: EventConfig[];
+  metrics: DatasetMetrics;
+  userRole?: 'master' | 'team';
+  onSetEventDate: (id: EventId, eventDate: string | null) => Promise<{ success: boolean; error?: string }>;
+}
+
+const CHART_WIDTH = 800;
+const CHART_HEIGHT = 260;
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+// The most recent earlier event with a date is the natural comparison
+const defaultComparison = (event: EventConfig, events: EventConfig[]) => {
+  const dated = events.filter(other => other.id !== event.id && other.event_date);
+  const earlier = dated
+    .filter(other => !event.event_date || other.event_date! < event.event_date)
+    .sort((a, b) => b.event_date!.localeCompare(a.event_date!));
+  return (earlier[0] || dated[0])?.id || '';
+};
+
+export function PacingComparison({ event, events, metrics, userRole, onSetEventDate }: PacingComparisonProps) {
+  const isMaster = userRole === 'master';
+  const [measure, setMeasure] = useState<'tickets' | 'revenue'>('tickets');
+  const [comparisonId, setComparisonId] = useState(() => defaultComparison(event, events));
+  const [dateError, setDateError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!events.some(other => other.id === comparisonId && other.event_date)) {
+      setComparisonId(defaultComparison(event, events));
+    }
+  }, [event, events, comparisonId]);
+
+  const comparisonEvent = events.find(other => other.id === comparisonId);
+  const { data: comparisonData, isLoading: comparisonLoading, error: comparisonError } = useComparisonOrders(comparisonEvent);
+
+  // Revenue is only shown to master accounts
+  const showRevenue = isMaster && measure === 'revenue';
+
+  const currentCurve = useMemo(
+    () => event.event_date ? buildPacingCurve(buildSalesTimeline(metrics, 'none'), event.event_date) : [],
+    [metrics, event.event_date]
+  );
+  // Uses the same allocation strategy so revenue curves are comparable
+  const previousCurve = useMemo(() => {
+    if (!comparisonEvent?.event_date || comparisonData.length === 0) return [];
+    const comparisonMetrics = computeMetrics(comparisonData, [], metrics.strategy);
+    return buildPacingCurve(buildSalesTimeline(comparisonMetrics, 'none'), comparisonEvent.event_date);
+  }, [comparisonData, comparisonEvent?.event_date, metrics.strategy]);
+
+  const snapshot = useMemo(() => comparePacing(currentCurve, previousCurve), [currentCurve, previousCurve]);
+
+  const valueOf = (point: TimelinePoint) => showRevenue ? point.revenue : point.tickets;
+  const format = (value: number) => showRevenue ? `$${value.toFixed(2)}` : value.toLocaleString();
+
+  const handleDateChange = async (id: EventId, value: string) => {
+    setDateError(null);
+    const result = await onSetEventDate(id, value || null);
+    if (!result.success) {
+      setDateError(result.error || 'Failed to save the event date');
+    }
+  };
+
+  const chart = useMemo(() => {
+    const curves = [currentCurve, previousCurve].filter(curve => curve.length > 0);
+    if (curves.length === 0) return null;
+    const maxDays = Math.max(...curves.map(curve => curve[0].daysBefore), 1);
+    const minDays = Math.min(0, ...curves.map(curve => curve[curve.length - 1].daysBefore));
+    const measureOf = (point: TimelinePoint) => showRevenue ? point.revenue : point.tickets;
+    const maxValue = Math.max(1, ...curves.flatMap(curve => curve.map(measureOf)));
+    const x = (daysBefore: number) => ((maxDays - daysBefore) / (maxDays - minDays)) * CHART_WIDTH;
+    const y = (value: number) => CHART_HEIGHT - (Math.max(0, value) / maxValue) * CHART_HEIGHT;
+    const line = (curve: PacingPoint[]) => curve.map(point => `${x(point.daysBefore).toFixed(1)},${y(measureOf(point)).toFixed(1)}`).join(' ');
+    return { maxDays, minDays, maxValue, x, current: line(currentCurve), previous: line(previousCurve) };
+  }, [currentCurve, previousCurve, showRevenue]);
+
+  const change = snapshot ? (showRevenue ? snapshot.revenueChange : snapshot.ticketsChange) : null;
+  const datedOthers = events.filter(other => other.id !== event.id && other.event_date);
+
+  const eventDatesEditor = isMaster && (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex items-center space-x-3 mb-2">
+        <CalendarDays className="w-5 h-5 text-blue-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Event Dates</h3>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">Sales are lined up by days before each event's first day.</p>
+      {dateError && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-start space-x-3">
+            <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
+            <p className="text-sm text-red-700">{dateError}</p>
+          </div>
+        </div>
+      )}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {events.map(other => (
+          <label key={other.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+            <span className="text-sm font-medium text-gray-900">{other.name} {other.year}</span>
+            <input
+              type="date"
+              value={other.event_date || ''}
+              onChange={(e) => handleDateChange(other.id, e.target.value)}
+              className="border border-gray-200 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+
+  if (!event.event_date) {
+    return (
+      <div className="space-y-6">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-12 text-center">
+          <Gauge className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No Event Date for {event.short_name}</h3>
+          <p className="text-gray-600">
+            {isMaster ? 'Set the event date below to compare its pacing with earlier events.' : 'A master account needs to set the event date before pacing can be shown.'}
+          </p>
+        </div>
+        {eventDatesEditor}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Pacing</h2>
+            <p className="text-gray-600">
+              Cumulative {showRevenue ? 'net revenue' : 'tickets'} by days before the event, {event.short_name} ({formatDate(event.event_date)})
+              {comparisonEvent?.event_date ? ` against ${comparisonEvent.short_name} ${comparisonEvent.year} (${formatDate(comparisonEvent.event_date)})` : ''}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            {isMaster && (
+              <div className="flex bg-gray-100 rounded-lg p-1">
+                {(['tickets', 'revenue'] as const).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setMeasure(option)}
+                    className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors duration-200 ${
+                      measure === option ? 'bg-white text-blue-700 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    {option === 'tickets' ? 'Tickets' : 'Revenue'}
+                  </button>
+                ))}
+              </div>
+            )}
+            <select
+              value={comparisonId}
+              onChange={(e) => setComparisonId(e.target.value)}
+              className="border border-gray-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {datedOthers.length === 0 && <option value="">No other event has a date</option>}
+              {datedOthers.map(other => (
+                <option key={other.id} value={other.id}>Compare with {other.name} {other.year}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {comparisonError && (
+          <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
+            <div className="flex items-start space-x-3">
+              <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
+              <p className="text-sm text-red-700">{comparisonError}</p>
+            </div>
+          </div>
+        )}
+
+        {snapshot && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+            <div className="bg-blue-50 p-4 rounded-lg">
+              <p className="text-sm font-medium text-blue-800">{event.short_name} to Date</p>
+              <p className="text-2xl font-bold text-blue-900 mt-1">{format(valueOf(snapshot.current))}</p>
+              <p className="text-xs text-blue-700 mt-1">
+                {snapshot.daysBefore >= 0 ? `${snapshot.daysBefore} days out at the latest sale` : 'after the event started'}
+              </p>
+            </div>
+            {comparisonEvent && previousCurve.length > 0 && (
+              <>
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="text-sm font-medium text-gray-700">{comparisonEvent.short_name} at the Same Point</p>
+                  <p className="text-2xl font-bold text-gray-900 mt-1">{format(valueOf(snapshot.previous))}</p>
+                </div>
+                <div className={`p-4 rounded-lg ${change === null ? 'bg-gray-50' : change >= 0 ? 'bg-green-50' : 'bg-red-50'}`}>
+                  <p className={`text-sm font-medium ${change === null ? 'text-gray-700' : change >= 0 ? 'text-green-800' : 'text-red-800'}`}>Pace</p>
+                  <div className="flex items-center space-x-2 mt-1">
+                    {change !== null && (change >= 0
+                      ? <TrendingUp className="w-5 h-5 text-green-600" />
+                      : <TrendingDown className="w-5 h-5 text-red-600" />)}
+                    <p className={`text-2xl font-bold ${change === null ? 'text-gray-900' : change >= 0 ? 'text-green-900' : 'text-red-900'}`}>
+                      {change === null ? '—' : `${Math.abs(change * 100).toFixed(0)}% ${change >= 0 ? 'ahead' : 'behind'}`}
+                    </p>
+                  </div>
+                  <p className="text-xs text-gray-600 mt-1">
+                    {format(Math.abs(valueOf(snapshot.current) - valueOf(snapshot.previous)))} {valueOf(snapshot.current) >= valueOf(snapshot.previous) ? 'more' : 'fewer'} than {comparisonEvent.short_name}
+                  </p>
+                </div>
+                <div className="bg-purple-50 p-4 rounded-lg">
+                  <p className="text-sm font-medium text-purple-800">{comparisonEvent.short_name} Final</p>
+                  <p className="text-2xl font-bold text-purple-900 mt-1">{format(valueOf(snapshot.previousFinal))}</p>
+                  <p className="text-xs text-purple-700 mt-1">
+                    {valueOf(snapshot.previousFinal) > 0
+                      ? `${event.short_name} is at ${Math.round((valueOf(snapshot.current) / valueOf(snapshot.previousFinal)) * 100)}% of it`
+                      : 'No sales'}
+                  </p>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {comparisonLoading && (
+          <p className="mb-4 text-sm text-gray-500">Loading {comparisonEvent?.short_name} sales...</p>
+        )}
+        {!comparisonLoading && comparisonEvent && previousCurve.length === 0 && !comparisonError && (
+          <p className="mb-4 text-sm text-amber-700">{comparisonEvent.short_name} has no dated sales to compare with.</p>
+        )}
+
+        {chart ? (
+          <div>
+            <div className="flex items-end justify-between text-xs text-gray-500 mb-1">
+              <span>{format(chart.maxValue)}</span>
+              <div className="flex items-center space-x-4">
+                <span className="flex items-center space-x-2">
+                  <span className="w-4 h-0.5 bg-blue-600"></span>
+                  <span>{event.short_name} {event.year}</span>
+                </span>
+                {comparisonEvent && previousCurve.length > 0 && (
+                  <span className="flex items-center space-x-2">
+                    <span className="w-4 h-0.5 bg-gray-400"></span>
+                    <span>{comparisonEvent.short_name} {comparisonEvent.year}</span>
+                  </span>
+                )}
+              </div>
+            </div>
+            <svg
+              viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+              preserveAspectRatio="none"
+              className="w-full h-64 border-b border-l border-gray-200"
+            >
+              <line
+                x1={chart.x(0)} x2={chart.x(0)} y1={0} y2={CHART_HEIGHT}
+                stroke="#d1d5db" strokeDasharray="4 4" vectorEffect="non-scaling-stroke"
+              />
+              {snapshot && (
+                <line
+                  x1={chart.x(snapshot.daysBefore)} x2={chart.x(snapshot.daysBefore)} y1={0} y2={CHART_HEIGHT}
+                  stroke="#93c5fd" strokeDasharray="2 4" vectorEffect="non-scaling-stroke"
+                />
+              )}
+              {previousCurve.length > 0 && (
+                <polyline points={chart.previous} fill="none" stroke="#9ca3af" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+              )}
+              {currentCurve.length > 0 && (
+                <polyline points={chart.current} fill="none" stroke="#2563eb" strokeWidth={2.5} vectorEffect="non-scaling-stroke" />
+              )}
+            </svg>
+            <div className="flex justify-between text-xs text-gray-500 mt-1">
+              <span>{chart.maxDays} days before</span>
+              <span>{chart.minDays < 0 ? `${-chart.minDays} days after` : 'Event day'}</span>
+            </div>
+          </div>
+        ) : (
+          <p className="py-12 text-center text-gray-500">No dated sales for {event.short_name} yet.</p>
+        )}
+      </div>
+
+      {eventDatesEditor}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import React, { useMemo, useState } from 'react';
+import { Scale, Upload, Download, AlertCircle, CheckCircle, X } from 'lucide-react';
+import type { OrderMetrics } from '../utils/metrics';
+import type { PaymentFee } from '../utils/fees';
+import { parsePayoutReport, reconcilePayouts, type PayoutReport, type ReconciliationStatus } from '../utils/payoutReconciliation';
+
+interface PayoutReconciliationProps {
+  orders: OrderMetrics[];
+  fees: PaymentFee[];
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ReconciliationStatus, { label: string; className: string }> = {
+  'matched': { label: 'Matched', className: 'bg-green-100 text-green-800' },
+  'mismatch': { label: 'Mismatch', className: 'bg-red-100 text-red-800' },
+  'missing-payout': { label: 'No payout', className: 'bg-amber-100 text-amber-800' },
+  'unexpected-payout': { label: 'No orders', className: 'bg-purple-100 text-purple-800' }
+};
+
+const money = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export function PayoutReconciliation({ orders, fees, onClose }: PayoutReconciliationProps) {
+  const [report, setReport] = useState<PayoutReport | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [showMatched, setShowMatched] = useState(true);
+
+  const rows = useMemo(() => report ? reconcilePayouts(orders, fees, report) : [], [orders, fees, report]);
+  const visibleRows = showMatched ? rows : rows.filter(row => row.status !== 'matched');
+
+  const summary = useMemo(() => ({
+    expected: rows.reduce((sum, row) => sum + row.expected, 0),
+    reported: rows.reduce((sum, row) => sum + (row.reported ?? 0), 0),
+    matched: rows.filter(row => row.status === 'matched').length,
+    issues: rows.filter(row => row.status !== 'matched').length
+  }), [rows]);
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setParseError(null);
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        setReport(parsePayoutReport(e.target?.result as string));
+        setFileName(file.name);
+      } catch (err) {
+        setReport(null);
+        setParseError(err instanceof Error ? err.message : 'Failed to read the payout report');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const exportReconciliation = () => {
+    const csvContent = [
+      'Date,Payment Method,Orders,Charged,Refunded,Fees,Expected Payout,Reported Payout,Reported Fees,Difference,Status',
+      ...rows.map(row =>
+        `${row.date},"${row.method ?? 'All methods'}",${row.orders},${row.charged.toFixed(2)},${row.refunded.toFixed(2)},${row.fees.toFixed(2)},${row.expected.toFixed(2)},${row.reported === null ? '' : row.reported.toFixed(2)},${row.reportedFees === null ? '' : row.reportedFees.toFixed(2)},${row.difference.toFixed(2)},${STATUS_STYLES[row.status].label}`
+      )
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'ebony-fit-payout-reconciliation.csv';
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-3">
+          <Scale className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Payout Reconciliation</h3>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-gray-500 rounded-lg hover:bg-gray-100 transition-colors duration-200"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Upload the processor's payout report to match it against the orders by date and payment method. Expected payouts are what was charged, less refunds and the fee schedule, and refunds count on the date of the original order.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <label className="inline-flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 transition-colors duration-200 cursor-pointer text-sm">
+          <Upload className="w-4 h-4" />
+          <span>{report ? 'Upload Another Report' : 'Upload Payout Report'}</span>
+          <input type="file" accept=".csv" onChange={handleFile} className="hidden" />
+        </label>
+        {report && (
+          <>
+            <span className="text-sm text-gray-600">
+              {fileName} • {report.rows.length} payout rows{report.hasMethod ? '' : ', matched by date only'}
+            </span>
+            <button
+              onClick={exportReconciliation}
+              className="inline-flex items-center space-x-2 px-4 py-2 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 transition-colors duration-200 text-sm"
+            >
+              <Download className="w-4 h-4" />
+              <span>Export CSV</span>
+            </button>
+          </>
+        )}
+      </div>
+
+      {parseError && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-start space-x-3">
+            <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
+            <p className="text-sm text-red-700">{parseError}</p>
+          </div>
+        </div>
+      )}
+
+      {report && report.skippedLines.length > 0 && (
+        <p className="mb-4 text-sm text-amber-700">
+          Skipped {report.skippedLines.length} line{report.skippedLines.length === 1 ? '' : 's'} without a readable date or amount (line {report.skippedLines.slice(0, 5).join(', ')}{report.skippedLines.length > 5 ? ', …' : ''}).
+        </p>
+      )}
+
+      {report && (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <p className="text-sm font-medium text-gray-600">Expected Payout</p>
+              <p className="text-xl font-bold text-gray-900 mt-1">{money(summary.expected)}</p>
+            </div>
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <p className="text-sm font-medium text-gray-600">Reported Payout</p>
+              <p className="text-xl font-bold text-gray-900 mt-1">{money(summary.reported)}</p>
+            </div>
+            <div className="p-4 bg-green-50 rounded-lg">
+              <p className="text-sm font-medium text-green-700">Matched</p>
+              <p className="text-xl font-bold text-green-900 mt-1">{summary.matched}</p>
+            </div>
+            <div className={`p-4 rounded-lg ${summary.issues > 0 ? 'bg-red-50' : 'bg-gray-50'}`}>
+              <p className={`text-sm font-medium ${summary.issues > 0 ? 'text-red-700' : 'text-gray-600'}`}>Need Review</p>
+              <p className={`text-xl font-bold mt-1 ${summary.issues > 0 ? 'text-red-900' : 'text-gray-900'}`}>{summary.issues}</p>
+            </div>
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700 mb-3">
+            <input
+              type="checkbox"
+              checked={showMatched}
+              onChange={(e) => setShowMatched(e.target.checked)}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <span>Show matched days</span>
+          </label>
+
+          <div className="border border-gray-100 rounded-lg overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Method</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Orders</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Charged</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Refunded</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Fees</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Expected</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Reported</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Difference</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {visibleRows.map(row => (
+                  <tr key={`${row.date}-${row.method}`} className="hover:bg-gray-50 text-sm">
+                    <td className="px-4 py-2 text-gray-900 whitespace-nowrap">{row.date}</td>
+                    <td className="px-4 py-2 text-gray-700">{row.method ?? 'All methods'}</td>
+                    <td className="px-4 py-2 text-right text-gray-600">{row.orders}</td>
+                    <td className="px-4 py-2 text-right text-gray-600">{money(row.charged)}</td>
+                    <td className="px-4 py-2 text-right text-red-600">{row.refunded > 0 ? `-${money(row.refunded)}` : '—'}</td>
+                    <td className="px-4 py-2 text-right text-gray-600" title={row.reportedFees !== null ? `Report shows ${money(row.reportedFees)} in fees` : undefined}>
+                      {money(row.fees)}
+                    </td>
+                    <td className="px-4 py-2 text-right font-medium text-gray-900">{money(row.expected)}</td>
+                    <td className="px-4 py-2 text-right text-gray-900">{row.reported === null ? '—' : money(row.reported)}</td>
+                    <td className={`px-4 py-2 text-right font-medium ${row.status === 'matched' ? 'text-gray-500' : 'text-red-700'}`}>
+                      {money(row.difference)}
+                    </td>
+                    <td className="px-4 py-2">
+                      <span className={`inline-flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[row.status].className}`}>
+                        {row.status === 'matched' && <CheckCircle className="w-3 h-3" />}
+                        <span>{STATUS_STYLES[row.status].label}</span>
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {visibleRows.length === 0 && (
+              <p className="px-4 py-6 text-sm text-gray-500 text-center">Every day matches the payout report.</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { useMemo, useState } from 'react';
+import { BadgePercent, Download, Search, SortAsc, SortDesc } from 'lucide-react';
+import type { DatasetMetrics } from '../utils/metrics';
+
+interface PromoPerformanceProps {
+  metrics: DatasetMetrics;
+}
+
+export function PromoPerformance({ metrics }: PromoPerformanceProps) {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [sortField, setSortField] = useState<'code' | 'orders' | 'tickets' | 'discount' | 'revenue'>('revenue');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+
+  const promoStats = useMemo(() => metrics.promoCodes.map(promo => ({
+    ...promo,
+    orderCount: promo.orderIds.size,
+    customerCount: promo.customers.size,
+    topClasses: Object.entries(promo.classes).sort(([, a], [, b]) => b - a)
+  })), [metrics]);
+
+  const totals = useMemo(() => ({
+    orders: promoStats.reduce((sum, promo) => sum + promo.orderCount, 0),
+    discount: promoStats.reduce((sum, promo) => sum + promo.discount, 0),
+    revenue: promoStats.reduce((sum, promo) => sum + promo.revenue, 0)
+  }), [promoStats]);
+
+  const filteredAndSortedCodes = useMemo(() => {
+    const filtered = promoStats.filter(promo =>
+      promo.code.toLowerCase().includes(searchTerm.toLowerCase())
+    );
+
+    const value = (promo: typeof promoStats[number]) => {
+      switch (sortField) {
+        case 'code': return promo.code;
+        case 'orders': return promo.orderCount;
+        case 'tickets': return promo.tickets;
+        case 'discount': return promo.discount;
+        default: return promo.revenue;
+      }
+    };
+
+    return filtered.sort((a, b) => {
+      const aValue = value(a);
+      const bValue = value(b);
+      if (typeof aValue === 'string' && typeof bValue === 'string') {
+        return sortOrder === 'asc' ? aValue.localeCompare(bValue) : bValue.localeCompare(aValue);
+      }
+      return sortOrder === 'asc'
+        ? (aValue as number) - (bValue as number)
+        : (bValue as number) - (aValue as number);
+    });
+  }, [promoStats, searchTerm, sortField, sortOrder]);
+
+  const handleSort = (field: typeof sortField) => {
+    if (sortField === field) {
+      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortField(field);
+      setSortOrder('desc');
+    }
+  };
+
+  const exportPromoData = () => {
+    const csvContent = [
+      'Promo Code,Orders,Customers,Tickets,Discount Given,Net Revenue,Classes',
+      ...filteredAndSortedCodes.map(promo =>
+        `"${promo.code}",${promo.orderCount},${promo.customerCount},${promo.tickets},$${promo.discount.toFixed(2)},$${promo.revenue.toFixed(2)},"${promo.topClasses.map(([name, tickets]) => `${name} (${tickets})`).join('; ')}"`
+      )
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'ebony-fit-promo-performance.csv';
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  if (promoStats.length === 0) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-12 text-center">
+        <BadgePercent className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">No Promo Codes Found</h3>
+        <p className="text-gray-600">Promo codes show up here when the uploaded export includes a "Discount Code" column.</p>
+      </div>
+    );
+  }
+
+  const sortButton = (field: typeof sortField, label: string) => (
+    <button
+      onClick={() => handleSort(field)}
+      className="flex items-center space-x-1 text-sm font-medium text-gray-700 hover:text-gray-900"
+    >
+      <span>{label}</span>
+      {sortField === field && (
+        sortOrder === 'asc' ? <SortAsc className="w-4 h-4" /> : <SortDesc className="w-4 h-4" />
+      )}
+    </button>
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+      <div className="p-6 border-b border-gray-100">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Promo Performance</h2>
+            <p className="text-gray-600">Orders, discount and revenue per promo code, counting only orders that still hold tickets</p>
+          </div>
+          <button
+            onClick={exportPromoData}
+            className="inline-flex items-center space-x-2 px-4 py-2 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 transition-colors duration-200"
+          >
+            <Download className="w-4 h-4" />
+            <span>Export CSV</span>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+          <div className="bg-purple-50 p-4 rounded-lg">
+            <p className="text-sm font-medium text-purple-800">Codes Used</p>
+            <p className="text-2xl font-bold text-purple-900 mt-1">{promoStats.length}</p>
+          </div>
+          <div className="bg-blue-50 p-4 rounded-lg">
+            <p className="text-sm font-medium text-blue-800">Orders With a Code</p>
+            <p className="text-2xl font-bold text-blue-900 mt-1">{totals.orders}</p>
+            <p className="text-xs text-blue-700 mt-1">
+              {metrics.totals.orders > 0 ? Math.round((totals.orders / metrics.totals.orders) * 100) : 0}% of orders
+            </p>
+          </div>
+          <div className="bg-orange-50 p-4 rounded-lg">
+            <p className="text-sm font-medium text-orange-800">Discount Given</p>
+            <p className="text-2xl font-bold text-orange-900 mt-1">${totals.discount.toFixed(2)}</p>
+          </div>
+          <div className="bg-green-50 p-4 rounded-lg">
+            <p className="text-sm font-medium text-green-800">Net Revenue</p>
+            <p className="text-2xl font-bold text-green-900 mt-1">${totals.revenue.toFixed(2)}</p>
+          </div>
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search codes..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b border-gray-100">
+            <tr>
+              <th className="text-left py-3 px-6">{sortButton('code', 'Promo Code')}</th>
+              <th className="text-right py-3 px-6">{sortButton('orders', 'Orders')}</th>
+              <th className="text-right py-3 px-6">{sortButton('tickets', 'Tickets')}</th>
+              <th className="text-right py-3 px-6">{sortButton('discount', 'Discount Given')}</th>
+              <th className="text-right py-3 px-6">{sortButton('revenue', 'Net Revenue')}</th>
+              <th className="text-left py-3 px-6">
+                <span className="text-sm font-medium text-gray-700">Classes Sold</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {filteredAndSortedCodes.map(promo => (
+              <tr key={promo.code} className="hover:bg-gray-50 transition-colors duration-150 align-top">
+                <td className="py-4 px-6">
+                  <span className="font-medium text-gray-900">{promo.code}</span>
+                  <p className="text-xs text-gray-500">{promo.customerCount} customer{promo.customerCount === 1 ? '' : 's'}</p>
+                </td>
+                <td className="py-4 px-6 text-right text-gray-600">{promo.orderCount}</td>
+                <td className="py-4 px-6 text-right">
+                  <span className="inline-flex items-center px-2 py-1 bg-blue-100 text-blue-800 text-sm font-medium rounded-full">
+                    {promo.tickets}
+                  </span>
+                </td>
+                <td className="py-4 px-6 text-right text-orange-700">${promo.discount.toFixed(2)}</td>
+                <td className="py-4 px-6 text-right font-medium text-gray-900">${promo.revenue.toFixed(2)}</td>
+                <td className="py-4 px-6">
+                  <div className="flex flex-wrap gap-1">
+                    {promo.topClasses.map(([className, tickets]) => (
+                      <span key={className} className="inline-block px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded-md">
+                        {className} • {tickets}
+                      </span>
+                    ))}
+                    {promo.topClasses.length === 0 && (
+                      <span className="text-xs text-gray-500">All orders refunded</span>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {filteredAndSortedCodes.length === 0 && (
+        <div className="text-center py-8">
+          <p className="text-gray-500">No promo codes found matching your search.</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import { useMemo, useState } from 'react';
+import { Clock, Download, AlertCircle } from 'lucide-react';
+import type { DatasetMetrics } from '../utils/metrics';
+import type { EventConfig } from '../types/event';
+import { buildPurchaseHeatmap } from '../utils/heatmap';
+
+interface PurchaseHeatmapProps {
+  metrics: DatasetMetrics;
+  event: EventConfig;
+  userRole?: 'master' | 'team';
+  onSetOrderTimezone: (timeZone: string) => Promise<{ success: boolean; error?: string }>;
+}
+
+// Monday first, since the event weekend sits at the end of the week
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const EXPORT_TIMEZONES = ['America/New_York', 'America/Chicago', 'America/Denver', 'America/Phoenix', 'America/Los_Angeles', 'UTC'];
+const SHADES = ['bg-blue-100', 'bg-blue-200', 'bg-blue-300', 'bg-blue-400', 'bg-blue-500', 'bg-blue-600', 'bg-blue-700'];
+
+const formatHour = (hour: number) => `${hour % 12 === 0 ? 12 : hour % 12}${hour < 12 ? 'am' : 'pm'}`;
+
+export function PurchaseHeatmap({ metrics, event, userRole, onSetOrderTimezone }: PurchaseHeatmapProps) {
+  const isMaster = userRole === 'master';
+  const [className, setClassName] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState('');
+  const [timezoneError, setTimezoneError] = useState<string | null>(null);
+
+  const heatmap = useMemo(() => buildPurchaseHeatmap(
+    metrics,
+    { className: className || null, paymentMethod: paymentMethod || null },
+    event.order_timezone,
+    event.timezone
+  ), [metrics, className, paymentMethod, event.order_timezone, event.timezone]);
+
+  const classOptions = useMemo(
+    () => metrics.classes.filter(cls => cls.quantity > 0).map(cls => cls.name).sort((a, b) => a.localeCompare(b)),
+    [metrics]
+  );
+  const methodOptions = useMemo(
+    () => metrics.paymentMethods.filter(method => method.tickets > 0).map(method => method.method).sort((a, b) => a.localeCompare(b)),
+    [metrics]
+  );
+
+  const summary = useMemo(() => {
+    const slots = heatmap.cells
+      .flatMap((hours, weekday) => hours.map((cell, hour) => ({ weekday, hour, ...cell })))
+      .filter(slot => slot.orders > 0)
+      .sort((a, b) => b.orders - a.orders || b.tickets - a.tickets);
+    const weekdayTotals = heatmap.cells.map(hours => hours.reduce((sum, cell) => sum + cell.orders, 0));
+    const hourTotals = Array.from({ length: 24 }, (_, hour) => heatmap.cells.reduce((sum, hours) => sum + hours[hour].orders, 0));
+    const busiestWeekday = weekdayTotals.indexOf(Math.max(...weekdayTotals));
+    const busiestHour = hourTotals.indexOf(Math.max(...hourTotals));
+    return { topSlots: slots.slice(0, 3), weekdayTotals, hourTotals, busiestWeekday, busiestHour };
+  }, [heatmap]);
+
+  const shadeFor = (orders: number) => {
+    if (orders === 0 || heatmap.maxOrders === 0) return 'bg-gray-50';
+    const index = Math.min(SHADES.length - 1, Math.floor((orders / heatmap.maxOrders) * SHADES.length));
+    return SHADES[index];
+  };
+
+  const handleTimezoneChange = async (timeZone: string) => {
+    setTimezoneError(null);
+    const result = await onSetOrderTimezone(timeZone);
+    if (!result.success) {
+      setTimezoneError(result.error || 'Failed to save the export timezone');
+    }
+  };
+
+  const exportHeatmap = () => {
+    const csvContent = [
+      ['Weekday', ...Array.from({ length: 24 }, (_, hour) => formatHour(hour)), 'Total'].join(','),
+      ...WEEKDAY_ORDER.map(weekday =>
+        [WEEKDAY_NAMES[weekday], ...heatmap.cells[weekday].map(cell => cell.orders), summary.weekdayTotals[weekday]].join(',')
+      )
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'ebony-fit-purchase-times.csv';
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const timezoneOptions = EXPORT_TIMEZONES.includes(event.order_timezone)
+    ? EXPORT_TIMEZONES
+    : [event.order_timezone, ...EXPORT_TIMEZONES];
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Purchase Times</h2>
+          <p className="text-gray-600">Orders by weekday and hour, in {event.short_name} time ({event.timezone})</p>
+        </div>
+        <button
+          onClick={exportHeatmap}
+          className="inline-flex items-center space-x-2 px-4 py-2 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 transition-colors duration-200"
+        >
+          <Download className="w-4 h-4" />
+          <span>Export CSV</span>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        <div className="bg-blue-50 p-4 rounded-lg">
+          <p className="text-sm font-medium text-blue-800">Orders</p>
+          <p className="text-2xl font-bold text-blue-900 mt-1">{heatmap.totalOrders.toLocaleString()}</p>
+        </div>
+        <div className="bg-purple-50 p-4 rounded-lg">
+          <p className="text-sm font-medium text-purple-800">Busiest Day</p>
+          <p className="text-2xl font-bold text-purple-900 mt-1">{heatmap.totalOrders > 0 ? WEEKDAY_NAMES[summary.busiestWeekday] : '—'}</p>
+        </div>
+        <div className="bg-orange-50 p-4 rounded-lg">
+          <p className="text-sm font-medium text-orange-800">Busiest Hour</p>
+          <p className="text-2xl font-bold text-orange-900 mt-1">{heatmap.totalOrders > 0 ? formatHour(summary.busiestHour) : '—'}</p>
+        </div>
+        <div className="bg-green-50 p-4 rounded-lg">
+          <p className="text-sm font-medium text-green-800">Top Slots</p>
+          {summary.topSlots.length === 0 && <p className="text-2xl font-bold text-green-900 mt-1">—</p>}
+          {summary.topSlots.map(slot => (
+            <p key={`${slot.weekday}-${slot.hour}`} className="text-sm text-green-900 mt-1">
+              <span className="font-medium">{WEEKDAY_NAMES[slot.weekday].slice(0, 3)} {formatHour(slot.hour)}</span> • {slot.orders} order{slot.orders === 1 ? '' : 's'}
+            </p>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <select
+          value={className}
+          onChange={(e) => setClassName(e.target.value)}
+          className="border border-gray-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="">All classes</option>
+          {classOptions.map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        {isMaster && (
+          <select
+            value={paymentMethod}
+            onChange={(e) => setPaymentMethod(e.target.value)}
+            className="border border-gray-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">All payment methods</option>
+            {methodOptions.map(method => (
+              <option key={method} value={method}>{method}</option>
+            ))}
+          </select>
+        )}
+        {isMaster && (
+          <label className="flex items-center space-x-2 text-sm text-gray-600">
+            <Clock className="w-4 h-4 text-gray-500" />
+            <span>Export times are in</span>
+            <select
+              value={event.order_timezone}
+              onChange={(e) => handleTimezoneChange(e.target.value)}
+              className="border border-gray-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {timezoneOptions.map(timeZone => (
+                <option key={timeZone} value={timeZone}>{timeZone}</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {timezoneError && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-start space-x-3">
+            <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
+            <p className="text-sm text-red-700">{timezoneError}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="border-separate" style={{ borderSpacing: '2px' }}>
+          <thead>
+            <tr>
+              <th></th>
+              {Array.from({ length: 24 }, (_, hour) => (
+                <th key={hour} className="text-xs font-normal text-gray-500 w-8">
+                  {hour % 3 === 0 ? formatHour(hour) : ''}
+                </th>
+              ))}
+              <th className="text-xs font-medium text-gray-500 pl-2 text-right">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {WEEKDAY_ORDER.map(weekday => (
+              <tr key={weekday}>
+                <td className="text-sm text-gray-700 pr-2 whitespace-nowrap">{WEEKDAY_NAMES[weekday].slice(0, 3)}</td>
+                {heatmap.cells[weekday].map((cell, hour) => (
+                  <td
+                    key={hour}
+                    className={`w-8 h-8 rounded text-center text-xs ${shadeFor(cell.orders)} ${
+                      heatmap.maxOrders > 0 && cell.orders / heatmap.maxOrders >= 0.6 ? 'text-white' : 'text-gray-700'
+                    }`}
+                    title={`${WEEKDAY_NAMES[weekday]} ${formatHour(hour)}: ${cell.orders} order${cell.orders === 1 ? '' : 's'}, ${cell.tickets} ticket${cell.tickets === 1 ? '' : 's'}`}
+                  >
+                    {cell.orders > 0 ? cell.orders : ''}
+                  </td>
+                ))}
+                <td className="text-sm font-medium text-gray-900 pl-2 text-right">{summary.weekdayTotals[weekday]}</td>
+              </tr>
+            ))}
+            <tr>
+              <td className="text-xs font-medium text-gray-500 pr-2">Total</td>
+              {summary.hourTotals.map((total, hour) => (
+                <td key={hour} className="text-center text-xs text-gray-600">{total > 0 ? total : ''}</td>
+              ))}
+              <td></td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <p className="mt-4 text-sm text-gray-500">
+        Order times from the export are read as {event.order_timezone} and shown in {event.timezone}. Only orders still holding tickets are counted.
+      </p>
+      {heatmap.untimedOrders > 0 && (
+        <p className="mt-2 text-sm text-amber-700">
+          {heatmap.untimedOrders} order{heatmap.untimedOrders === 1 ? ' has' : 's have'} an unreadable date or time and {heatmap.untimedOrders === 1 ? 'is' : 'are'} left off the heatmap.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,68 +1,65 @@
-import React, { useMemo } from 'react';
-import { Download, CreditCard, TrendingUp, DollarSign } from 'lucide-react';
-import { type ParsedOrder } from '../utils/csvParser';
+import React, { useMemo, useState } from 'react';
+import { Download, CreditCard, TrendingUp, DollarSign, Percent, Scale, Wallet } from 'lucide-react';
+import type { DatasetMetrics } from '../utils/metrics';
+import { feesByMethod, type PaymentFee } from '../utils/fees';
+import type { PaymentFeeChange } from '../hooks/usePaymentFees';
+import { FeeScheduleEditor } from './FeeScheduleEditor';
+import { PayoutReconciliation } from './PayoutReconciliation';
 
 interface SalesByMOPProps {
-  data: ParsedOrder[];
+  metrics: DatasetMetrics;
+  fees: PaymentFee[];
+  onSaveFees: (changes: PaymentFeeChange[]) => Promise<{ success: boolean; error?: string }>;
 }
 
-export function SalesByMOP({ data }: SalesByMOPProps) {
+export function SalesByMOP({ metrics, fees, onSaveFees }: SalesByMOPProps) {
+  const [openPanel, setOpenPanel] = useState<'fees' | 'reconcile' | null>(null);
+
   const mopStats = useMemo(() => {
-    // Group orders by payment method
-    const mopMap = new Map<string, {
-      method: string;
-      orders: Set<string>;
-      revenue: number;
-      lineItems: number;
-    }>();
-
-    data.forEach(order => {
-      const method = order.paymentMethod || 'Unknown';
-      
-      if (!mopMap.has(method)) {
-        mopMap.set(method, {
-          method,
-          orders: new Set<string>(),
-          revenue: 0,
-          lineItems: 0
-        });
-      }
-
-      const stats = mopMap.get(method)!;
-      stats.orders.add(order.orderId);
-      
-      // Calculate proportional revenue for this line item
-      const lineItemRevenueContribution = order.orderSubTotal > 0 
-        ? order.lineItemSubtotal + (order.lineItemSubtotal / order.orderSubTotal) * order.orderTaxAmount
-        : order.lineItemSubtotal;
-      
-      stats.revenue += lineItemRevenueContribution;
-      stats.lineItems += order.quantity;
-    });
-
-    // Convert to array and sort by revenue
-    const statsArray = Array.from(mopMap.values())
-      .map(stat => ({
-        ...stat,
-        orderCount: stat.orders.size
-      }))
+    const methodFees = feesByMethod(metrics.orders, fees);
+
+    // Sort payment methods by revenue
+    const statsArray = metrics.paymentMethods
+      .map(stat => {
+        const { fees: processingFees, payout, unconfiguredOrders } = methodFees.get(stat.method) || { fees: 0, payout: 0, unconfiguredOrders: 0 };
+        return {
+          ...stat,
+          lineItems: stat.tickets,
+          orderCount: stat.orderIds.size,
+          processingFees,
+          unconfiguredOrders,
+          // From order totals, so it matches payout reconciliation and doesn't move with the allocation strategy
+          netPayout: payout
+        };
+      })
       .sort((a, b) => b.revenue - a.revenue);
 
     // Calculate total revenue for percentages
     const totalRevenue = statsArray.reduce((sum, stat) => sum + stat.revenue, 0);
+    const totalRefunds = statsArray.reduce((sum, stat) => sum + stat.refunds, 0);
+    const totalFees = statsArray.reduce((sum, stat) => sum + stat.processingFees, 0);
+    const totalNetPayout = statsArray.reduce((sum, stat) => sum + stat.netPayout, 0);
 
     return {
       stats: statsArray,
       totalRevenue,
-      totalOrders: new Set(data.map(o => o.orderId)).size
+      totalRefunds,
+      totalFees,
+      totalNetPayout,
+      totalOrders: metrics.totals.orders,
+      unconfiguredMethods: statsArray.filter(stat => stat.unconfiguredOrders > 0).map(stat => stat.method)
     };
-  }, [data]);
+  }, [metrics, fees]);
+
+  const togglePanel = (panel: 'fees' | 'reconcile') => {
+    setOpenPanel(openPanel === panel ? null : panel);
+  };
 
   const exportMOPData = () => {
     const csvContent = [
-      'Payment Method,Order Count,Line Items,Revenue,Percentage of Total',
+      'Payment Method,Order Count,Line Items,Gross Revenue,Refunds,Net Revenue,Processing Fees,Net Payout,Percentage of Total',
       ...mopStats.stats.map(stat => 
-        `"${stat.method}",${stat.orderCount},${stat.lineItems},$${stat.revenue.toFixed(2)},${((stat.revenue / mopStats.totalRevenue) * 100).toFixed(2)}%`
+        `"${stat.method}",${stat.orderCount},${stat.lineItems},$${stat.grossRevenue.toFixed(2)},$${stat.refunds.toFixed(2)},$${stat.revenue.toFixed(2)},$${stat.processingFees.toFixed(2)},$${stat.netPayout.toFixed(2)},${((stat.revenue / mopStats.totalRevenue) * 100).toFixed(2)}%`
       )
     ].join('\n');
 
@@ -119,25 +116,83 @@ export function SalesByMOP({ data }: SalesByMOPProps) {
             <h2 className="text-2xl font-bold text-gray-900">Sales by Method of Payment</h2>
             <p className="text-gray-600 mt-1">Revenue breakdown by payment method</p>
           </div>
-          <button
-            onClick={exportMOPData}
-            className="inline-flex items-center space-x-2 px-4 py-2 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 transition-colors duration-200"
-          >
-            <Download className="w-4 h-4" />
-            <span>Export CSV</span>
-          </button>
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => togglePanel('fees')}
+              className={`inline-flex items-center space-x-2 px-4 py-2 font-medium rounded-lg transition-colors duration-200 ${
+                openPanel === 'fees' ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              <Percent className="w-4 h-4" />
+              <span>Fee Schedule</span>
+            </button>
+            <button
+              onClick={() => togglePanel('reconcile')}
+              className={`inline-flex items-center space-x-2 px-4 py-2 font-medium rounded-lg transition-colors duration-200 ${
+                openPanel === 'reconcile' ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              <Scale className="w-4 h-4" />
+              <span>Reconcile Payouts</span>
+            </button>
+            <button
+              onClick={exportMOPData}
+              className="inline-flex items-center space-x-2 px-4 py-2 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 transition-colors duration-200"
+            >
+              <Download className="w-4 h-4" />
+              <span>Export CSV</span>
+            </button>
+          </div>
         </div>
 
+        {openPanel === 'fees' && (
+          <div className="mb-8">
+            <FeeScheduleEditor
+              methods={mopStats.stats.map(stat => stat.method)}
+              fees={fees}
+              onSave={onSaveFees}
+              onClose={() => setOpenPanel(null)}
+            />
+          </div>
+        )}
+
+        {openPanel === 'reconcile' && (
+          <div className="mb-8">
+            <PayoutReconciliation
+              orders={metrics.orders}
+              fees={fees}
+              onClose={() => setOpenPanel(null)}
+            />
+          </div>
+        )}
+
         {/* Summary Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <div className="bg-gradient-to-br from-blue-50 to-blue-100 rounded-xl p-6 border border-blue-200">
             <div className="flex items-center justify-between mb-2">
-              <p className="text-sm font-medium text-blue-800">Total Revenue</p>
+              <p className="text-sm font-medium text-blue-800">Net Revenue</p>
               <DollarSign className="w-5 h-5 text-blue-600" />
             </div>
             <p className="text-3xl font-bold text-blue-900">
               ${mopStats.totalRevenue.toLocaleString('en-US', { minimumFractionDigits: 2 })}
             </p>
+            {mopStats.totalRefunds > 0 && (
+              <p className="text-sm text-blue-700 mt-1">
+                after ${mopStats.totalRefunds.toLocaleString('en-US', { minimumFractionDigits: 2 })} in refunds
+              </p>
+            )}
+          </div>
+          <div className="bg-gradient-to-br from-teal-50 to-teal-100 rounded-xl p-6 border border-teal-200">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-sm font-medium text-teal-800">Net Payout</p>
+              <Wallet className="w-5 h-5 text-teal-600" />
+            </div>
+            <p className="text-3xl font-bold text-teal-900">
+              ${mopStats.totalNetPayout.toLocaleString('en-US', { minimumFractionDigits: 2 })}
+            </p>
+            <p className="text-sm text-teal-700 mt-1">
+              order totals after refunds and ${mopStats.totalFees.toLocaleString('en-US', { minimumFractionDigits: 2 })} in processing fees
+            </p>
           </div>
           <div className="bg-gradient-to-br from-purple-50 to-purple-100 rounded-xl p-6 border border-purple-200">
             <div className="flex items-center justify-between mb-2">
@@ -159,6 +214,12 @@ export function SalesByMOP({ data }: SalesByMOPProps) {
           </div>
         </div>
 
+        {mopStats.unconfiguredMethods.length > 0 && (
+          <p className="mb-4 text-sm text-amber-700">
+            No processing fee set for {mopStats.unconfiguredMethods.join(', ')}, so {mopStats.unconfiguredMethods.length === 1 ? 'its' : 'their'} net payout equals net revenue. Set fees in the Fee Schedule.
+          </p>
+        )}
+
         {/* Payment Method Breakdown */}
         <div className="space-y-4">
           {mopStats.stats.map((stat, index) => {
@@ -187,6 +248,16 @@ export function SalesByMOP({ data }: SalesByMOPProps) {
                       ${stat.revenue.toLocaleString('en-US', { minimumFractionDigits: 2 })}
                     </p>
                     <p className="text-sm text-gray-600 mt-1">{percentage.toFixed(1)}% of total</p>
+                    {stat.refunds > 0 && (
+                      <p className="text-xs text-red-600 mt-1">
+                        -${stat.refunds.toLocaleString('en-US', { minimumFractionDigits: 2 })} refunded
+                      </p>
+                    )}
+                    {stat.processingFees > 0 && (
+                      <p className="text-xs text-gray-600 mt-1">
+                        -${stat.processingFees.toLocaleString('en-US', { minimumFractionDigits: 2 })} fees • ${stat.netPayout.toLocaleString('en-US', { minimumFractionDigits: 2 })} payout
+                      </p>
+                    )}
                   </div>
                 </div>
                 
@@ -0,0 +1,322 @@
+import { useMemo, useState } from 'react';
+import { LineChart, Download, Calendar } from 'lucide-react';
+import type { DatasetMetrics } from '../utils/metrics';
+import { buildSalesTimeline, OTHER_SERIES, type TimelineDay, type TimelinePoint, type TimelineSplit } from '../utils/timeline';
+
+interface SalesTimelineProps {
+  metrics: DatasetMetrics;
+  userRole?: 'master' | 'team';
+}
+
+const SERIES_COLORS = ['bg-blue-500', 'bg-purple-500', 'bg-green-500', 'bg-orange-500', 'bg-pink-500', 'bg-teal-500', 'bg-indigo-500', 'bg-yellow-500'];
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const shiftDate = (date: string, days: number) => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+};
+
+export function SalesTimeline({ metrics, userRole }: SalesTimelineProps) {
+  const isMaster = userRole === 'master';
+  const [measure, setMeasure] = useState<'tickets' | 'revenue'>('tickets');
+  const [view, setView] = useState<'daily' | 'cumulative'>('daily');
+  const [split, setSplit] = useState<TimelineSplit>('none');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  // Revenue and payment methods are for master accounts only
+  const showRevenue = isMaster && measure === 'revenue';
+  const timeline = useMemo(() => buildSalesTimeline(metrics, split), [metrics, split]);
+  const firstDay = timeline.days[0]?.date || '';
+  const lastDay = timeline.days[timeline.days.length - 1]?.date || '';
+
+  const visibleDays = useMemo(() => timeline.days.filter(day =>
+    (!fromDate || day.date >= fromDate) && (!toDate || day.date <= toDate)
+  ), [timeline, fromDate, toDate]);
+
+  const pointFor = (day: TimelineDay): TimelinePoint => view === 'daily'
+    ? { tickets: day.tickets, revenue: day.revenue }
+    : { tickets: day.cumulativeTickets, revenue: day.cumulativeRevenue };
+  const seriesFor = (day: TimelineDay) => view === 'daily' ? day.series : day.cumulativeSeries;
+  const valueOf = (point: TimelinePoint | undefined) => (showRevenue ? point?.revenue : point?.tickets) || 0;
+  const format = (value: number) => showRevenue ? `$${value.toFixed(2)}` : value.toLocaleString();
+
+  const summary = useMemo(() => {
+    const tickets = visibleDays.reduce((sum, day) => sum + day.tickets, 0);
+    const revenue = visibleDays.reduce((sum, day) => sum + day.revenue, 0);
+    const bestDay = visibleDays.reduce<TimelineDay | null>((best, day) =>
+      !best || (showRevenue ? day.revenue > best.revenue : day.tickets > best.tickets) ? day : best, null);
+    return { tickets, revenue, bestDay, days: visibleDays.length };
+  }, [visibleDays, showRevenue]);
+
+  const chartMax = Math.max(0, ...visibleDays.map(day => valueOf(pointFor(day))));
+  const colorFor = (name: string) => name === OTHER_SERIES
+    ? 'bg-gray-400'
+    : SERIES_COLORS[timeline.series.indexOf(name) % SERIES_COLORS.length];
+
+  const setRange = (days: number | null) => {
+    setFromDate(days === null ? '' : shiftDate(lastDay, -(days - 1)));
+    setToDate('');
+  };
+
+  const exportTimeline = () => {
+    const seriesHeaders = timeline.series.flatMap(name => isMaster
+      ? [`"${name} Tickets"`, `"${name} Revenue"`]
+      : [`"${name} Tickets"`]);
+    const headers = [
+      'Date',
+      'Tickets',
+      'Cumulative Tickets',
+      ...(isMaster ? ['Net Revenue', 'Cumulative Revenue'] : []),
+      ...seriesHeaders
+    ];
+    const csvContent = [
+      headers.join(','),
+      ...visibleDays.map(day => [
+        day.date,
+        day.tickets,
+        day.cumulativeTickets,
+        ...(isMaster ? [`$${day.revenue.toFixed(2)}`, `$${day.cumulativeRevenue.toFixed(2)}`] : []),
+        ...timeline.series.flatMap(name => isMaster
+          ? [day.series[name]?.tickets || 0, `$${(day.series[name]?.revenue || 0).toFixed(2)}`]
+          : [day.series[name]?.tickets || 0])
+      ].join(','))
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'ebony-fit-sales-timeline.csv';
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  if (timeline.days.length === 0) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-12 text-center">
+        <LineChart className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">No Dated Sales</h3>
+        <p className="text-gray-600">The timeline needs order dates in the uploaded export.</p>
+      </div>
+    );
+  }
+
+  const toggleButton = (active: boolean, label: string, onClick: () => void) => (
+    <button
+      key={label}
+      onClick={onClick}
+      className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors duration-200 ${
+        active ? 'bg-white text-blue-700 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  // Label roughly every seventh bar so long ranges stay readable
+  const labelEvery = Math.max(1, Math.ceil(visibleDays.length / 7));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Sales Timeline</h2>
+            <p className="text-gray-600">
+              Tickets still held{isMaster ? ' and their net revenue' : ''} by the day they were bought
+            </p>
+          </div>
+          <button
+            onClick={exportTimeline}
+            className="inline-flex items-center space-x-2 px-4 py-2 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 transition-colors duration-200"
+          >
+            <Download className="w-4 h-4" />
+            <span>Export CSV</span>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+          <div className="bg-blue-50 p-4 rounded-lg">
+            <p className="text-sm font-medium text-blue-800">Tickets in Range</p>
+            <p className="text-2xl font-bold text-blue-900 mt-1">{summary.tickets.toLocaleString()}</p>
+            <p className="text-xs text-blue-700 mt-1">{metrics.totals.tickets.toLocaleString()} sold overall</p>
+          </div>
+          <div className="bg-purple-50 p-4 rounded-lg">
+            <p className="text-sm font-medium text-purple-800">Tickets per Day</p>
+            <p className="text-2xl font-bold text-purple-900 mt-1">
+              {summary.days > 0 ? (summary.tickets / summary.days).toFixed(1) : '0'}
+            </p>
+            <p className="text-xs text-purple-700 mt-1">over {summary.days} day{summary.days === 1 ? '' : 's'}</p>
+          </div>
+          {isMaster && (
+            <div className="bg-green-50 p-4 rounded-lg">
+              <p className="text-sm font-medium text-green-800">Net Revenue in Range</p>
+              <p className="text-2xl font-bold text-green-900 mt-1">${summary.revenue.toFixed(2)}</p>
+            </div>
+          )}
+          <div className="bg-orange-50 p-4 rounded-lg">
+            <p className="text-sm font-medium text-orange-800">Best Day</p>
+            <p className="text-2xl font-bold text-orange-900 mt-1">
+              {summary.bestDay ? formatDay(summary.bestDay.date) : '—'}
+            </p>
+            {summary.bestDay && (
+              <p className="text-xs text-orange-700 mt-1">
+                {format(valueOf({ tickets: summary.bestDay.tickets, revenue: summary.bestDay.revenue }))} {showRevenue ? 'net revenue' : 'tickets'}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          {isMaster && (
+            <div className="flex bg-gray-100 rounded-lg p-1">
+              {toggleButton(measure === 'tickets', 'Tickets', () => setMeasure('tickets'))}
+              {toggleButton(measure === 'revenue', 'Revenue', () => setMeasure('revenue'))}
+            </div>
+          )}
+          <div className="flex bg-gray-100 rounded-lg p-1">
+            {toggleButton(view === 'daily', 'Daily', () => setView('daily'))}
+            {toggleButton(view === 'cumulative', 'Cumulative', () => setView('cumulative'))}
+          </div>
+          <select
+            value={split}
+            onChange={(e) => setSplit(e.target.value as TimelineSplit)}
+            className="border border-gray-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="none">All sales</option>
+            <option value="class">Split by class</option>
+            {isMaster && <option value="method">Split by payment method</option>}
+          </select>
+          <div className="flex items-center space-x-2">
+            <Calendar className="w-4 h-4 text-gray-500" />
+            <input
+              type="date"
+              value={fromDate}
+              min={firstDay}
+              max={lastDay}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="border border-gray-200 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <span className="text-sm text-gray-500">to</span>
+            <input
+              type="date"
+              value={toDate}
+              min={firstDay}
+              max={lastDay}
+              onChange={(e) => setToDate(e.target.value)}
+              className="border border-gray-200 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div className="flex bg-gray-100 rounded-lg p-1">
+            {toggleButton(false, 'Last 7 days', () => setRange(7))}
+            {toggleButton(false, 'Last 30 days', () => setRange(30))}
+            {toggleButton(!fromDate && !toDate, 'All dates', () => setRange(null))}
+          </div>
+        </div>
+
+        {visibleDays.length === 0 ? (
+          <p className="py-12 text-center text-gray-500">No sales in the selected date range.</p>
+        ) : (
+          <div>
+            <div className="flex items-end justify-between text-xs text-gray-500 mb-1">
+              <span>{format(chartMax)}</span>
+              <span>{view === 'cumulative' ? 'Running total since sales opened' : 'Per day'}</span>
+            </div>
+            <div className="flex items-end h-64 gap-px border-b border-l border-gray-200">
+              {visibleDays.map(day => {
+                const point = pointFor(day);
+                const total = valueOf(point);
+                const daySeries = seriesFor(day);
+                return (
+                  <div
+                    key={day.date}
+                    className="flex-1 h-full flex flex-col-reverse group"
+                    title={`${formatDay(day.date)}: ${format(total)}${split !== 'none' ? '\n' + timeline.series
+                      .filter(name => valueOf(daySeries[name]) !== 0)
+                      .map(name => `${name}: ${format(valueOf(daySeries[name]))}`)
+                      .join('\n') : ''}`}
+                  >
+                    {split === 'none' ? (
+                      <div
+                        className="bg-blue-500 group-hover:bg-blue-600 transition-colors duration-150"
+                        style={{ height: `${chartMax > 0 ? (Math.max(0, total) / chartMax) * 100 : 0}%` }}
+                      />
+                    ) : (
+                      timeline.series.map(name => {
+                        const value = Math.max(0, valueOf(daySeries[name]));
+                        return value > 0 && (
+                          <div
+                            key={name}
+                            className={`${colorFor(name)} group-hover:opacity-80`}
+                            style={{ height: `${chartMax > 0 ? (value / chartMax) * 100 : 0}%` }}
+                          />
+                        );
+                      })
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex gap-px mt-1">
+              {visibleDays.map((day, index) => (
+                <div key={day.date} className="flex-1 text-xs text-gray-500 whitespace-nowrap overflow-visible">
+                  {index % labelEvery === 0 ? formatDay(day.date) : ''}
+                </div>
+              ))}
+            </div>
+
+            {split !== 'none' && (
+              <div className="flex flex-wrap gap-3 mt-4">
+                {timeline.series.map(name => (
+                  <div key={name} className="flex items-center space-x-2 text-sm text-gray-700">
+                    <span className={`w-3 h-3 rounded-sm ${colorFor(name)}`}></span>
+                    <span>{name}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {timeline.undatedLineItems > 0 && (
+          <p className="mt-4 text-sm text-amber-700">
+            {timeline.undatedLineItems} line item{timeline.undatedLineItems === 1 ? ' has' : 's have'} an unreadable order date and {timeline.undatedLineItems === 1 ? 'is' : 'are'} left off the timeline.
+          </p>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto max-h-96">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-100 sticky top-0">
+              <tr>
+                <th className="text-left py-3 px-6 text-sm font-medium text-gray-700">Date</th>
+                <th className="text-right py-3 px-6 text-sm font-medium text-gray-700">Tickets</th>
+                <th className="text-right py-3 px-6 text-sm font-medium text-gray-700">Cumulative</th>
+                {isMaster && <th className="text-right py-3 px-6 text-sm font-medium text-gray-700">Net Revenue</th>}
+                {isMaster && <th className="text-right py-3 px-6 text-sm font-medium text-gray-700">Cumulative Revenue</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {[...visibleDays].reverse().map(day => (
+                <tr key={day.date} className="hover:bg-gray-50 transition-colors duration-150">
+                  <td className="py-3 px-6 text-gray-900">
+                    {new Date(`${day.date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}
+                  </td>
+                  <td className="py-3 px-6 text-right text-gray-900 font-medium">{day.tickets}</td>
+                  <td className="py-3 px-6 text-right text-gray-600">{day.cumulativeTickets}</td>
+                  {isMaster && <td className="py-3 px-6 text-right text-gray-900">${day.revenue.toFixed(2)}</td>}
+                  {isMaster && <td className="py-3 px-6 text-right text-gray-600">${day.cumulativeRevenue.toFixed(2)}</td>}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
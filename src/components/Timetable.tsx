@@ -0,0 +1,174 @@
+import { useMemo } from 'react';
+import { CalendarDays, MapPin, AlertTriangle, Users } from 'lucide-react';
+import type { ParsedOrder } from '../utils/csvParser';
+import { buildCatalogLookup, findCatalogClass, getCapacityInfo, type CatalogClass } from '../utils/classCatalog';
+import { buildSessions, findOverlaps, formatMinutes, formatSessionDate, type ClassSession } from '../utils/schedule';
+import { CapacityBadge } from './CapacityBadge';
+
+interface TimetableProps {
+  // Orders still holding tickets, with class aliases applied
+  data: ParsedOrder[];
+  catalog: CatalogClass[];
+  onOpenRoster: (className: string) => void;
+}
+
+export function Timetable({ data, catalog, onOpenRoster }: TimetableProps) {
+  const sessions = useMemo(() => buildSessions(data, catalog), [data, catalog]);
+  const overlaps = useMemo(() => findOverlaps(sessions), [sessions]);
+
+  const overlappingIds = useMemo(() => {
+    const ids = new Set<string>();
+    overlaps.forEach(({ first, second }) => {
+      ids.add(first.entry.id);
+      ids.add(second.entry.id);
+    });
+    return ids;
+  }, [overlaps]);
+
+  // Day -> start hour -> sessions starting in that hour
+  const days = useMemo(() => {
+    const byDay = new Map<string, Map<number, ClassSession[]>>();
+    sessions.forEach(session => {
+      const hours = byDay.get(session.date) || new Map<number, ClassSession[]>();
+      const hour = Math.floor(session.startMinutes / 60);
+      hours.set(hour, [...(hours.get(hour) || []), session]);
+      byDay.set(session.date, hours);
+    });
+    return Array.from(byDay.entries()).map(([date, hours]) => ({
+      date,
+      hours: Array.from(hours.entries()).sort(([a], [b]) => a - b)
+    }));
+  }, [sessions]);
+
+  // Classes with sales that have no session time yet
+  const unscheduled = useMemo(() => {
+    const lookup = buildCatalogLookup(catalog);
+    const tickets = data.reduce((acc, order) => {
+      const entry = findCatalogClass(lookup, order.className);
+      if (entry?.session_date && entry.start_time) return acc;
+      acc[order.className] = (acc[order.className] || 0) + order.quantity;
+      return acc;
+    }, {} as Record<string, number>);
+    return Object.entries(tickets).sort(([, a], [, b]) => b - a);
+  }, [data, catalog]);
+
+  if (sessions.length === 0) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-12 text-center">
+        <CalendarDays className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">No Sessions Scheduled</h3>
+        <p className="text-gray-600">Add a day and start time to classes in the class catalog to build the weekend timetable.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <h2 className="text-xl font-semibold text-gray-900">Weekend Timetable</h2>
+        <p className="text-gray-600">Every scheduled session with its ticket count. Select a session to open its roster.</p>
+      </div>
+
+      {overlaps.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-6">
+          <div className="flex items-center space-x-2 mb-3">
+            <AlertTriangle className="w-5 h-5 text-amber-600" />
+            <h3 className="text-lg font-semibold text-amber-900">Overlapping Sessions With Shared Buyers</h3>
+          </div>
+          <div className="space-y-3">
+            {overlaps.map(({ first, second, sharedBuyers }) => (
+              <div key={`${first.entry.id}-${second.entry.id}`} className="bg-white rounded-lg border border-amber-100 p-4">
+                <p className="text-sm font-medium text-gray-900">
+                  {first.className} ({formatMinutes(first.startMinutes)}–{formatMinutes(first.endMinutes)}) and {second.className} ({formatMinutes(second.startMinutes)}–{formatMinutes(second.endMinutes)})
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {formatSessionDate(first.date, { weekday: 'long', month: 'short', day: 'numeric' })} • {sharedBuyers.length} buyer{sharedBuyers.length === 1 ? '' : 's'} in both
+                </p>
+                <p className="text-sm text-gray-700 mt-2">{sharedBuyers.join(', ')}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {days.map(({ date, hours }) => (
+        <div key={date} className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-100 bg-gray-50">
+            <h3 className="text-lg font-semibold text-gray-900">{formatSessionDate(date)}</h3>
+          </div>
+          <div className="divide-y divide-gray-100">
+            {hours.map(([hour, hourSessions]) => (
+              <div key={hour} className="flex">
+                <div className="w-24 flex-shrink-0 px-4 py-4 text-sm font-medium text-gray-500">
+                  {formatMinutes(hour * 60)}
+                </div>
+                <div className="flex-1 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 p-3">
+                  {hourSessions.map(session => {
+                    const capacity = getCapacityInfo(session.tickets, session.entry);
+                    const overlapping = overlappingIds.has(session.entry.id);
+                    return (
+                      <button
+                        key={session.entry.id}
+                        onClick={() => onOpenRoster(session.className)}
+                        className={`text-left p-4 rounded-lg border-2 transition-all duration-200 hover:bg-gray-50 ${
+                          overlapping ? 'border-amber-300' : 'border-gray-200 hover:border-blue-300'
+                        }`}
+                      >
+                        <div className="flex items-start justify-between gap-2">
+                          <h4 className="font-medium text-gray-900 leading-tight">{session.className}</h4>
+                          <CapacityBadge info={capacity} />
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {formatMinutes(session.startMinutes)}–{formatMinutes(session.endMinutes)}
+                        </p>
+                        {session.location && (
+                          <p className="flex items-center space-x-1 text-xs text-gray-500 mt-1">
+                            <MapPin className="w-3 h-3" />
+                            <span>{session.location}</span>
+                          </p>
+                        )}
+                        <div className="flex items-center justify-between mt-3 text-sm">
+                          <span className="flex items-center space-x-1 text-gray-600">
+                            <Users className="w-4 h-4" />
+                            <span>{session.buyers.size} customers</span>
+                          </span>
+                          <span className="text-blue-600 font-medium">
+                            {session.tickets}{capacity && ` / ${capacity.capacity}`} tickets
+                          </span>
+                        </div>
+                        {overlapping && (
+                          <p className="flex items-center space-x-1 text-xs text-amber-700 mt-2">
+                            <AlertTriangle className="w-3 h-3" />
+                            <span>Overlaps a session with shared buyers</span>
+                          </p>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {unscheduled.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-1">Not Scheduled Yet</h3>
+          <p className="text-sm text-gray-500 mb-4">These classes have ticket sales but no session time in the class catalog.</p>
+          <div className="flex flex-wrap gap-2">
+            {unscheduled.map(([className, tickets]) => (
+              <button
+                key={className}
+                onClick={() => onOpenRoster(className)}
+                className="inline-block px-3 py-1 bg-gray-50 border border-gray-200 text-gray-700 text-sm rounded-md hover:bg-gray-100"
+              >
+                {className} • {tickets}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import { useMemo, useState } from 'react';
+import { History, Eye, EyeOff, RotateCcw, CheckCircle, AlertCircle, X } from 'lucide-react';
+import { useUploadHistory, type UploadVersion } from '../hooks/useUploadHistory';
+import type { EventConfig } from '../types/event';
+import type { ParsedOrder } from '../utils/csvParser';
+import type { AllocationStrategy } from '../utils/revenue';
+import { applyClassAliases, type ClassAlias } from '../utils/classAliases';
+import { applyCustomerMerges, type CustomerMerge } from '../utils/customerIdentity';
+import type { CatalogClass } from '../utils/classCatalog';
+import { computeMetrics } from '../utils/metrics';
+
+interface UploadHistoryProps {
+  event: EventConfig;
+  classAliases: ClassAlias[];
+  customerMerges: CustomerMerge[];
+  catalog: CatalogClass[];
+  allocationStrategy: AllocationStrategy;
+  onRestored: () => void;
+  onClose: () => void;
+}
+
+interface VersionPreviewProps {
+  orders: ParsedOrder[];
+  skippedRows: number | null;
+  classAliases: ClassAlias[];
+  customerMerges: CustomerMerge[];
+  catalog: CatalogClass[];
+  strategy: AllocationStrategy;
+}
+
+function VersionPreview({ orders, skippedRows, classAliases, customerMerges, catalog, strategy }: VersionPreviewProps) {
+  // Same pipeline as the dashboard, so a restored version shows the numbers it previewed
+  const summary = useMemo(() => {
+    const { totals, classes } = computeMetrics(
+      applyCustomerMerges(applyClassAliases(orders, classAliases), customerMerges),
+      catalog,
+      strategy
+    );
+
+    return {
+      orders: totals.orders,
+      tickets: totals.tickets,
+      customers: totals.customers,
+      revenue: totals.revenue,
+      topClasses: classes
+        .filter(cls => cls.quantity > 0)
+        .sort((a, b) => b.quantity - a.quantity)
+        .slice(0, 5)
+        .map(cls => [cls.name, cls.quantity] as const)
+    };
+  }, [orders, classAliases, customerMerges, catalog, strategy]);
+
+  return (
+    <div className="mt-4 bg-gray-50 rounded-lg p-4 space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <div>
+          <p className="text-xs text-gray-500">Orders</p>
+          <p className="text-lg font-semibold text-gray-900">{summary.orders.toLocaleString()}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Tickets</p>
+          <p className="text-lg font-semibold text-gray-900">{summary.tickets.toLocaleString()}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Customers</p>
+          <p className="text-lg font-semibold text-gray-900">{summary.customers.toLocaleString()}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Net Revenue</p>
+          <p className="text-lg font-semibold text-gray-900">
+            ${summary.revenue.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+          </p>
+        </div>
+      </div>
+      {summary.topClasses.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-gray-700 mb-2">Top classes</p>
+          <div className="flex flex-wrap gap-2">
+            {summary.topClasses.map(([className, tickets]) => (
+              <span key={className} className="inline-block px-2 py-1 bg-white border border-gray-200 text-gray-700 text-xs rounded-md">
+                {className} • {tickets}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+      {!!skippedRows && (
+        <p className="text-xs text-gray-500">
+          {skippedRows} rows were skipped when this file was imported.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function UploadHistory({ event, classAliases, customerMerges, catalog, allocationStrategy, onRestored, onClose }: UploadHistoryProps) {
+  const { versions, isLoading, error, loadVersionData, restoreVersion } = useUploadHistory(event);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [previews, setPreviews] = useState<Record<string, ParsedOrder[]>>({});
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const togglePreview = async (version: UploadVersion) => {
+    if (previewId === version.id) {
+      setPreviewId(null);
+      return;
+    }
+
+    setPreviewId(version.id);
+    setPreviewError(null);
+    if (previews[version.id]) return;
+
+    setBusyId(version.id);
+    try {
+      const orders = await loadVersionData(version.id);
+      setPreviews(prev => ({ ...prev, [version.id]: orders }));
+    } catch (err) {
+      console.error('Error previewing upload:', err);
+      setPreviewError(err instanceof Error ? err.message : 'Failed to load this upload');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRestore = async (version: UploadVersion) => {
+    const label = `version ${version.version ?? '?'}${version.file_name ? ` (${version.file_name})` : ''}`;
+    if (!window.confirm(`Make ${label} the active dataset for this city? The current data stays in history.`)) {
+      return;
+    }
+
+    setBusyId(version.id);
+    const result = await restoreVersion(version.id);
+    setBusyId(null);
+    if (result.success) {
+      onRestored();
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <History className="w-5 h-5 text-purple-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Upload History</h3>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-gray-500 rounded-lg hover:bg-gray-100 transition-colors duration-200"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {(error || previewError) && (
+        <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-start space-x-3">
+            <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
+            <p className="text-sm text-red-700">{error || previewError}</p>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="py-8 text-center">
+          <div className="w-8 h-8 border-4 border-purple-600 border-t-transparent rounded-full animate-spin mx-auto"></div>
+        </div>
+      ) : versions.length === 0 ? (
+        <p className="text-sm text-gray-500 py-4">No uploads for this city yet.</p>
+      ) : (
+        <div className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+          {versions.map(version => (
+            <div key={version.id} className={`p-4 ${version.is_active ? 'bg-green-50' : ''}`}>
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm font-semibold text-gray-900">Version {version.version ?? '?'}</span>
+                    {version.is_active && (
+                      <span className="inline-flex items-center space-x-1 px-2 py-0.5 bg-green-100 text-green-800 text-xs font-medium rounded-full">
+                        <CheckCircle className="w-3 h-3" />
+                        <span>Active</span>
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {version.file_name || 'Unnamed file'} • {version.order_count.toLocaleString()} line items
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {new Date(version.created_at).toLocaleDateString()} at {new Date(version.created_at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                    {version.uploaded_by && ` • uploaded by ${version.uploaded_by === 'master' ? 'Master' : 'Team'}`}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => togglePreview(version)}
+                    disabled={busyId === version.id}
+                    className="inline-flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors duration-200"
+                  >
+                    {previewId === version.id ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    <span>{previewId === version.id ? 'Hide' : 'Preview'}</span>
+                  </button>
+                  {!version.is_active && (
+                    <button
+                      onClick={() => handleRestore(version)}
+                      disabled={busyId === version.id}
+                      className="inline-flex items-center space-x-1 px-3 py-1.5 text-sm text-white bg-purple-600 rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors duration-200"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      <span>Restore</span>
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {previewId === version.id && (
+                busyId === version.id && !previews[version.id] ? (
+                  <p className="mt-4 text-sm text-gray-500">Loading preview...</p>
+                ) : previews[version.id] ? (
+                  <VersionPreview
+                    orders={previews[version.id]}
+                    skippedRows={version.skipped_row_count}
+                    classAliases={classAliases}
+                    customerMerges={customerMerges}
+                    catalog={catalog}
+                    strategy={allocationStrategy}
+                  />
+                ) : null
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { GitCompare, ShoppingBag, UserPlus, Ticket, RotateCcw, AlertCircle, Download } from 'lucide-react';
+import { useUploadHistory, type UploadVersion } from '../hooks/useUploadHistory';
+import type { EventConfig } from '../types/event';
+import { diffUploads, type OrderSummary } from '../utils/uploadDiff';
+import type { ParsedOrder } from '../utils/csvParser';
+import { applyClassAliases, type ClassAlias } from '../utils/classAliases';
+import { applyCustomerMerges, type CustomerMerge } from '../utils/customerIdentity';
+import type { AllocationStrategy } from '../utils/revenue';
+import type { CatalogClass } from '../utils/classCatalog';
+import { computeMetrics } from '../utils/metrics';
+
+interface WhatChangedProps {
+  event: EventConfig;
+  userRole?: 'master' | 'team';
+  classAliases: ClassAlias[];
+  customerMerges: CustomerMerge[];
+  catalog: CatalogClass[];
+  allocationStrategy: AllocationStrategy;
+}
+
+const versionLabel = (version: UploadVersion) =>
+  `v${version.version ?? '?'} • ${new Date(version.created_at).toLocaleDateString()} ${new Date(version.created_at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}${version.is_active ? ' (active)' : ''}`;
+
+const formatDelta = (value: number, money = false) => {
+  const formatted = money ? `$${Math.abs(value).toFixed(2)}` : Math.abs(value).toLocaleString();
+  if (Math.abs(value) < 0.005) return money ? '$0.00' : '0';
+  return value > 0 ? `+${formatted}` : `-${formatted}`;
+};
+
+const deltaColor = (value: number) =>
+  value > 0.005 ? 'text-green-700' : value < -0.005 ? 'text-red-700' : 'text-gray-500';
+
+function OrderList({ title, orders, showRevenue, emptyText }: {
+  title: string;
+  orders: OrderSummary[];
+  showRevenue: boolean;
+  emptyText: string;
+}) {
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+        <span className="text-sm text-gray-500">{orders.length}</span>
+      </div>
+      {orders.length === 0 ? (
+        <p className="px-6 py-6 text-sm text-gray-500">{emptyText}</p>
+      ) : (
+        <div className="max-h-80 overflow-y-auto divide-y divide-gray-100">
+          {orders.map(order => (
+            <div key={order.orderId} className="px-6 py-3 flex items-start justify-between">
+              <div>
+                <p className="font-medium text-gray-900">{order.customerName}</p>
+                <p className="text-xs text-gray-500">#{order.orderId} • {order.orderDate} • {order.classNames.join(', ')}</p>
+              </div>
+              <div className="text-right ml-4">
+                <p className="text-sm text-gray-900">{order.tickets} tickets</p>
+                {showRevenue && <p className="text-xs text-gray-500">${order.revenue.toFixed(2)}</p>}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function WhatChanged({ event, userRole, classAliases, customerMerges, catalog, allocationStrategy }: WhatChangedProps) {
+  const { versions, isLoading, error, loadVersionData } = useUploadHistory(event);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [datasets, setDatasets] = useState<Record<string, ParsedOrder[]>>({});
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const requestedIds = useRef(new Set<string>());
+
+  const isMaster = userRole === 'master';
+
+  // Default to the active upload compared with the one before it
+  useEffect(() => {
+    if (versions.length < 2 || fromId || toId) return;
+    const activeIndex = Math.max(0, versions.findIndex(version => version.is_active));
+    const laterIndex = activeIndex === versions.length - 1 ? activeIndex - 1 : activeIndex;
+    setToId(versions[laterIndex].id);
+    setFromId(versions[laterIndex + 1].id);
+  }, [versions, fromId, toId]);
+
+  useEffect(() => {
+    [fromId, toId].forEach(async id => {
+      if (!id || requestedIds.current.has(id)) return;
+      requestedIds.current.add(id);
+      try {
+        const orders = await loadVersionData(id);
+        setDatasets(prev => ({ ...prev, [id]: orders }));
+      } catch (err) {
+        console.error('Error loading upload for comparison:', err);
+        requestedIds.current.delete(id);
+        setLoadError(err instanceof Error ? err.message : 'Failed to load upload');
+      }
+    });
+  }, [fromId, toId, loadVersionData]);
+
+  const diff = useMemo(() => {
+    if (!datasets[fromId] || !datasets[toId]) return null;
+    const metricsFor = (orders: ParsedOrder[]) =>
+      computeMetrics(applyCustomerMerges(applyClassAliases(orders, classAliases), customerMerges), catalog, allocationStrategy);
+    return diffUploads(metricsFor(datasets[fromId]), metricsFor(datasets[toId]));
+  }, [datasets, fromId, toId, classAliases, customerMerges, catalog, allocationStrategy]);
+
+  const exportClassDeltas = () => {
+    if (!diff) return;
+
+    const headers = isMaster
+      ? 'Class Name,Previous Tickets,Current Tickets,Ticket Change,Previous Revenue,Current Revenue,Revenue Change'
+      : 'Class Name,Previous Tickets,Current Tickets,Ticket Change';
+    const rows = diff.classDeltas.map(cls =>
+      isMaster
+        ? `"${cls.className}",${cls.previousTickets},${cls.currentTickets},${cls.ticketDelta},$${cls.previousRevenue.toFixed(2)},$${cls.currentRevenue.toFixed(2)},$${cls.revenueDelta.toFixed(2)}`
+        : `"${cls.className}",${cls.previousTickets},${cls.currentTickets},${cls.ticketDelta}`
+    );
+
+    const blob = new Blob([[headers, ...rows].join('\n')], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'ebony-fit-what-changed.csv';
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-12 text-center">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto"></div>
+      </div>
+    );
+  }
+
+  if (versions.length < 2) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-12 text-center">
+        <GitCompare className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Nothing to Compare Yet</h3>
+        <p className="text-gray-600">Upload a newer export for this city to see what changed since the last file.</p>
+      </div>
+    );
+  }
+
+  const ticketChange = diff ? diff.classDeltas.reduce((sum, cls) => sum + cls.ticketDelta, 0) : 0;
+  const revenueChange = diff ? diff.classDeltas.reduce((sum, cls) => sum + cls.revenueDelta, 0) : 0;
+  const lostOrders = diff ? [...diff.newlyRefundedOrders, ...diff.disappearedOrders] : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+        <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">What Changed</h2>
+            <p className="text-gray-600">Differences between two uploads of this city's export</p>
+          </div>
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+            <select
+              value={fromId}
+              onChange={(e) => setFromId(e.target.value)}
+              className="border border-gray-200 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {versions.map(version => (
+                <option key={version.id} value={version.id}>{versionLabel(version)}</option>
+              ))}
+            </select>
+            <span className="text-sm text-gray-500 text-center">→</span>
+            <select
+              value={toId}
+              onChange={(e) => setToId(e.target.value)}
+              className="border border-gray-200 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {versions.map(version => (
+                <option key={version.id} value={version.id}>{versionLabel(version)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {(error || loadError) && (
+          <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+            <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
+            <p className="text-sm text-red-700">{error || loadError}</p>
+          </div>
+        )}
+
+        {!diff ? (
+          <p className="text-sm text-gray-500">Loading uploads...</p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="bg-blue-50 p-4 rounded-lg">
+              <div className="flex items-center space-x-2">
+                <ShoppingBag className="w-5 h-5 text-blue-600" />
+                <span className="text-sm font-medium text-blue-800">New Orders</span>
+              </div>
+              <p className="text-2xl font-bold text-blue-900 mt-1">{diff.newOrders.length}</p>
+            </div>
+            <div className="bg-purple-50 p-4 rounded-lg">
+              <div className="flex items-center space-x-2">
+                <UserPlus className="w-5 h-5 text-purple-600" />
+                <span className="text-sm font-medium text-purple-800">New Customers</span>
+              </div>
+              <p className="text-2xl font-bold text-purple-900 mt-1">{diff.newCustomers.length}</p>
+            </div>
+            <div className="bg-green-50 p-4 rounded-lg">
+              <div className="flex items-center space-x-2">
+                <Ticket className="w-5 h-5 text-green-600" />
+                <span className="text-sm font-medium text-green-800">Ticket Change</span>
+              </div>
+              <p className="text-2xl font-bold text-green-900 mt-1">{formatDelta(ticketChange)}</p>
+              {isMaster && <p className={`text-sm mt-1 ${deltaColor(revenueChange)}`}>{formatDelta(revenueChange, true)} net revenue</p>}
+            </div>
+            <div className="bg-red-50 p-4 rounded-lg">
+              <div className="flex items-center space-x-2">
+                <RotateCcw className="w-5 h-5 text-red-600" />
+                <span className="text-sm font-medium text-red-800">Refunded or Gone</span>
+              </div>
+              <p className="text-2xl font-bold text-red-900 mt-1">{lostOrders.length}</p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {diff && (
+        <>
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">Changes by Class</h3>
+              <button
+                onClick={exportClassDeltas}
+                className="inline-flex items-center space-x-2 px-4 py-2 bg-green-600 text-white font-medium rounded-lg hover:bg-green-700 transition-colors duration-200"
+              >
+                <Download className="w-4 h-4" />
+                <span>Export CSV</span>
+              </button>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-100">
+                  <tr>
+                    <th className="text-left py-3 px-6 text-sm font-medium text-gray-700">Class Name</th>
+                    <th className="text-right py-3 px-6 text-sm font-medium text-gray-700">Before</th>
+                    <th className="text-right py-3 px-6 text-sm font-medium text-gray-700">Now</th>
+                    <th className="text-right py-3 px-6 text-sm font-medium text-gray-700">Tickets</th>
+                    {isMaster && <th className="text-right py-3 px-6 text-sm font-medium text-gray-700">Revenue</th>}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {diff.classDeltas.map(cls => (
+                    <tr key={cls.className} className="hover:bg-gray-50 transition-colors duration-150">
+                      <td className="py-3 px-6 font-medium text-gray-900">{cls.className}</td>
+                      <td className="py-3 px-6 text-right text-gray-600">{cls.previousTickets}</td>
+                      <td className="py-3 px-6 text-right text-gray-600">{cls.currentTickets}</td>
+                      <td className={`py-3 px-6 text-right font-medium ${deltaColor(cls.ticketDelta)}`}>{formatDelta(cls.ticketDelta)}</td>
+                      {isMaster && (
+                        <td className={`py-3 px-6 text-right ${deltaColor(cls.revenueDelta)}`}>{formatDelta(cls.revenueDelta, true)}</td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <OrderList
+              title="New Orders"
+              orders={diff.newOrders}
+              showRevenue={isMaster}
+              emptyText="No new orders since the earlier upload."
+            />
+            <OrderList
+              title="Refunded, Cancelled or Missing"
+              orders={lostOrders}
+              showRevenue={isMaster}
+              emptyText="Every earlier order is still live."
+            />
+          </div>
+
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">New Customers</h3>
+              <span className="text-sm text-gray-500">{diff.newCustomers.length}</span>
+            </div>
+            {diff.newCustomers.length === 0 ? (
+              <p className="px-6 py-6 text-sm text-gray-500">No first-time buyers since the earlier upload.</p>
+            ) : (
+              <div className="max-h-80 overflow-y-auto divide-y divide-gray-100">
+                {diff.newCustomers.map(customer => (
+                  <div key={customer.customerEmail} className="px-6 py-3 flex items-center justify-between">
+                    <div>
+                      <p className="font-medium text-gray-900">{customer.customerName}</p>
+                      <p className="text-xs text-gray-500">{customer.customerEmail}</p>
+                    </div>
+                    <span className="text-sm text-gray-600">{customer.tickets} tickets</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
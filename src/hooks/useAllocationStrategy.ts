@@ -0,0 +1,19 @@
+import { useState } from 'react';
+import { DEFAULT_ALLOCATION_STRATEGY, isAllocationStrategy, type AllocationStrategy } from '../utils/revenue';
+
+const STORAGE_KEY = 'ebony-fit-allocation-strategy';
+
+// The revenue allocation rule is a per-browser preference
+export function useAllocationStrategy() {
+  const [strategy, setStrategyState] = useState<AllocationStrategy>(() => {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return isAllocationStrategy(saved) ? saved : DEFAULT_ALLOCATION_STRATEGY;
+  });
+
+  const setStrategy = (next: AllocationStrategy) => {
+    localStorage.setItem(STORAGE_KEY, next);
+    setStrategyState(next);
+  };
+
+  return { strategy, setStrategy };
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import type { AuthState } from '../types/auth';
+import type { EventId } from '../types/event';
 
 export function useAuth() {
   const [authState, setAuthState] = useState<AuthState>({
@@ -35,7 +36,7 @@ export function useAuth() {
     localStorage.setItem('ebony-fit-auth', JSON.stringify(newAuthState));
   };
 
-  const selectCity = (city: 'dc' | 'atlanta' | 'houston') => {
+  const selectCity = (city: EventId) => {
     if (authState.user) {
       const newAuthState: AuthState = {
         ...authState,
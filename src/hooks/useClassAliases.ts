@@ -0,0 +1,109 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import type { ClassAlias } from '../utils/classAliases';
+import type { EventId } from '../types/event';
+
+export interface AliasChange {
+  rawName: string;
+  // null removes the alias so the built-in name is used again
+  canonicalName: string | null;
+}
+
+export function useClassAliases(city?: EventId) {
+  const [aliases, setAliases] = useState<ClassAlias[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (city) {
+      loadAliases();
+    } else {
+      setAliases([]);
+      setIsLoading(false);
+    }
+  }, [city]);
+
+  const loadAliases = async () => {
+    if (!city) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('class_aliases')
+        .select('id, city, raw_name, canonical_name')
+        .eq('city', city)
+        .order('raw_name', { ascending: true });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setAliases(data || []);
+    } catch (err) {
+      console.error('Error loading class aliases:', err);
+      setError(`Failed to load class aliases: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const saveAliases = async (changes: AliasChange[]) => {
+    if (!city) {
+      return { success: false, error: 'No city selected' };
+    }
+
+    try {
+      setError(null);
+
+      const upserts = changes
+        .filter(change => change.canonicalName)
+        .map(change => ({
+          city,
+          raw_name: change.rawName,
+          canonical_name: change.canonicalName!.trim(),
+          updated_at: new Date().toISOString()
+        }));
+      const removals = changes.filter(change => !change.canonicalName).map(change => change.rawName);
+
+      if (upserts.length > 0) {
+        const { error: upsertError } = await supabase
+          .from('class_aliases')
+          .upsert(upserts, { onConflict: 'city,raw_name' });
+
+        if (upsertError) {
+          throw upsertError;
+        }
+      }
+
+      if (removals.length > 0) {
+        const { error: deleteError } = await supabase
+          .from('class_aliases')
+          .delete()
+          .eq('city', city)
+          .in('raw_name', removals);
+
+        if (deleteError) {
+          throw deleteError;
+        }
+      }
+
+      await loadAliases();
+      return { success: true };
+    } catch (err) {
+      console.error('Error saving class aliases:', err);
+      const message = err instanceof Error ? err.message : 'Failed to save class aliases';
+      setError(message);
+      return { success: false, error: message };
+    }
+  };
+
+  return {
+    aliases,
+    isLoading,
+    error,
+    saveAliases,
+    reloadAliases: loadAliases
+  };
+}
@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import type { CatalogClass } from '../utils/classCatalog';
+import type { EventId } from '../types/event';
+
+export type CatalogClassInput = Pick<
+  CatalogClass,
+  'name' | 'capacity' | 'price' | 'is_active' | 'session_date' | 'start_time' | 'duration_minutes' | 'location' | 'bundle_slots'
+> & {
+  id?: string;
+  sort_order?: number;
+};
+
+export function useClassCatalog(city?: EventId) {
+  const [classes, setClasses] = useState<CatalogClass[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (city) {
+      loadClasses();
+    } else {
+      setClasses([]);
+      setIsLoading(false);
+    }
+  }, [city]);
+
+  const loadClasses = async () => {
+    if (!city) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('class_catalog')
+        .select('id, city, name, capacity, price, is_active, sort_order, session_date, start_time, duration_minutes, location, bundle_slots')
+        .eq('city', city)
+        .order('sort_order', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setClasses((data || []).map(entry => ({
+        ...entry,
+        price: entry.price === null ? null : Number(entry.price)
+      })));
+    } catch (err) {
+      console.error('Error loading class catalog:', err);
+      setError(`Failed to load class catalog: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Saving a new entry under an existing name updates that entry
+  const saveClasses = async (entries: CatalogClassInput[]) => {
+    if (!city) {
+      return { success: false, error: 'No city selected' };
+    }
+
+    try {
+      setError(null);
+
+      const nextSortOrder = classes.reduce((max, entry) => Math.max(max, entry.sort_order), 0) + 1;
+      const rows = entries.map((entry, index) => ({
+        ...(entry.id ? { id: entry.id } : {}),
+        city,
+        name: entry.name.trim(),
+        capacity: entry.capacity,
+        price: entry.price,
+        is_active: entry.is_active,
+        session_date: entry.session_date,
+        start_time: entry.start_time,
+        duration_minutes: entry.duration_minutes,
+        location: entry.location,
+        bundle_slots: entry.bundle_slots,
+        sort_order: entry.sort_order ?? nextSortOrder + index,
+        updated_at: new Date().toISOString()
+      }));
+
+      // Existing entries are updated by id so they can be renamed; new ones merge on name
+      const existing = rows.filter(row => 'id' in row);
+      const added = rows.filter(row => !('id' in row));
+
+      if (existing.length > 0) {
+        const { error: updateError } = await supabase
+          .from('class_catalog')
+          .upsert(existing);
+
+        if (updateError) {
+          throw updateError;
+        }
+      }
+
+      if (added.length > 0) {
+        const { error: insertError } = await supabase
+          .from('class_catalog')
+          .upsert(added, { onConflict: 'city,name' });
+
+        if (insertError) {
+          throw insertError;
+        }
+      }
+
+      await loadClasses();
+      return { success: true };
+    } catch (err) {
+      console.error('Error saving class catalog:', err);
+      const message = err instanceof Error ? err.message : 'Failed to save class catalog';
+      setError(message);
+      return { success: false, error: message };
+    }
+  };
+
+  const deleteClass = async (id: string) => {
+    try {
+      setError(null);
+
+      const { error: deleteError } = await supabase
+        .from('class_catalog')
+        .delete()
+        .eq('id', id);
+
+      if (deleteError) {
+        throw deleteError;
+      }
+
+      setClasses(prev => prev.filter(entry => entry.id !== id));
+      return { success: true };
+    } catch (err) {
+      console.error('Error deleting catalog class:', err);
+      const message = err instanceof Error ? err.message : 'Failed to delete class';
+      setError(message);
+      return { success: false, error: message };
+    }
+  };
+
+  return {
+    classes,
+    isLoading,
+    error,
+    saveClasses,
+    deleteClass,
+    reloadClasses: loadClasses
+  };
+}
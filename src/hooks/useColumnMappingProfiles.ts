@@ -0,0 +1,93 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import type { ColumnMapping, ColumnMappingProfile } from '../utils/columnMapping';
+
+export function useColumnMappingProfiles() {
+  const [profiles, setProfiles] = useState<ColumnMappingProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  const loadProfiles = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('column_mapping_profiles')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setProfiles(data || []);
+    } catch (err) {
+      console.error('Error loading column mapping profiles:', err);
+      setError(`Failed to load mapping profiles: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Saving under an existing name overwrites that profile
+  const saveProfile = async (name: string, mapping: ColumnMapping) => {
+    try {
+      setError(null);
+
+      const { error: upsertError } = await supabase
+        .from('column_mapping_profiles')
+        .upsert(
+          { name: name.trim(), mapping, updated_at: new Date().toISOString() },
+          { onConflict: 'name' }
+        );
+
+      if (upsertError) {
+        throw upsertError;
+      }
+
+      await loadProfiles();
+      return { success: true };
+    } catch (err) {
+      console.error('Error saving column mapping profile:', err);
+      const message = err instanceof Error ? err.message : 'Failed to save mapping profile';
+      setError(message);
+      return { success: false, error: message };
+    }
+  };
+
+  const deleteProfile = async (id: string) => {
+    try {
+      setError(null);
+
+      const { error: deleteError } = await supabase
+        .from('column_mapping_profiles')
+        .delete()
+        .eq('id', id);
+
+      if (deleteError) {
+        throw deleteError;
+      }
+
+      setProfiles(prev => prev.filter(profile => profile.id !== id));
+      return { success: true };
+    } catch (err) {
+      console.error('Error deleting column mapping profile:', err);
+      const message = err instanceof Error ? err.message : 'Failed to delete mapping profile';
+      setError(message);
+      return { success: false, error: message };
+    }
+  };
+
+  return {
+    profiles,
+    isLoading,
+    error,
+    saveProfile,
+    deleteProfile
+  };
+}
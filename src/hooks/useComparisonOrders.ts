@@ -0,0 +1,53 @@
+import { useState, useEffect, useRef } from 'react';
+import { loadActiveOrders } from '../lib/orderStore';
+import type { ParsedOrder } from '../utils/csvParser';
+import type { EventConfig } from '../types/event';
+
+// Read-only copy of another event's active dataset, for comparing against the selected event
+export function useComparisonOrders(event?: EventConfig) {
+  const city = event?.id;
+  const [data, setData] = useState<ParsedOrder[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Ignore results that land after a different event was picked
+  const currentCity = useRef(city);
+  currentCity.current = city;
+
+  useEffect(() => {
+    if (city) {
+      loadData();
+    } else {
+      setData([]);
+      setError(null);
+      setIsLoading(false);
+    }
+  }, [city]);
+
+  const loadData = async () => {
+    if (!event) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const parsedData = await loadActiveOrders(event);
+      if (currentCity.current !== city) return;
+      setData(parsedData);
+    } catch (err) {
+      console.error('Error loading comparison data:', err);
+      if (currentCity.current !== city) return;
+      setError(`Failed to load ${event.short_name} data: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      setData([]);
+    } finally {
+      if (currentCity.current === city) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  return {
+    data,
+    isLoading,
+    error
+  };
+}
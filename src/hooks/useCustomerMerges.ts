@@ -0,0 +1,104 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { buildMergeLookup, normalizeEmail, resolveEmail, type CustomerMerge } from '../utils/customerIdentity';
+
+// Confirmed duplicate customers; merges apply to every event
+export function useCustomerMerges() {
+  const [merges, setMerges] = useState<CustomerMerge[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadMerges();
+  }, []);
+
+  const loadMerges = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('customer_merges')
+        .select('id, email, canonical_email')
+        .order('canonical_email', { ascending: true });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setMerges(data || []);
+    } catch (err) {
+      console.error('Error loading customer merges:', err);
+      setError(`Failed to load customer merges: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Folds each email into the canonical customer, following earlier merges so none loop back
+  const mergeCustomers = async (emails: string[], canonicalEmail: string) => {
+    const normalized = normalizeEmail(canonicalEmail);
+    if (!normalized) {
+      return { success: false, error: 'Enter a valid email to merge into' };
+    }
+    const canonical = resolveEmail(normalized, buildMergeLookup(merges));
+    const rows = emails
+      .map(normalizeEmail)
+      .filter((email): email is string => !!email && email !== canonical)
+      .map(email => ({ email, canonical_email: canonical }));
+    if (rows.length === 0) {
+      return { success: false, error: 'Pick a different customer to merge' };
+    }
+
+    try {
+      setError(null);
+
+      const { error: upsertError } = await supabase
+        .from('customer_merges')
+        .upsert(rows, { onConflict: 'email' });
+
+      if (upsertError) {
+        throw upsertError;
+      }
+
+      await loadMerges();
+      return { success: true };
+    } catch (err) {
+      console.error('Error saving customer merge:', err);
+      const message = err instanceof Error ? err.message : 'Failed to save customer merge';
+      setError(message);
+      return { success: false, error: message };
+    }
+  };
+
+  const unmergeCustomer = async (email: string) => {
+    try {
+      setError(null);
+
+      const { error: deleteError } = await supabase
+        .from('customer_merges')
+        .delete()
+        .eq('email', email);
+
+      if (deleteError) {
+        throw deleteError;
+      }
+
+      setMerges(prev => prev.filter(merge => merge.email !== email));
+      return { success: true };
+    } catch (err) {
+      console.error('Error removing customer merge:', err);
+      const message = err instanceof Error ? err.message : 'Failed to remove customer merge';
+      setError(message);
+      return { success: false, error: message };
+    }
+  };
+
+  return {
+    merges,
+    isLoading,
+    error,
+    mergeCustomers,
+    unmergeCustomer
+  };
+}
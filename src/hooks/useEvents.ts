@@ -0,0 +1,67 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import type { EventConfig, EventId } from '../types/event';
+
+export function useEvents() {
+  const [events, setEvents] = useState<EventConfig[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadEvents();
+  }, []);
+
+  const loadEvents = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('events')
+        .select('id, name, short_name, year, source_names, timezone, order_timezone, event_date, is_active, sort_order')
+        .order('sort_order', { ascending: true });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setEvents(data || []);
+    } catch (err) {
+      console.error('Error loading events:', err);
+      setError(`Failed to load events: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateEvent = async (id: EventId, changes: Partial<Pick<EventConfig, 'event_date' | 'order_timezone'>>) => {
+    try {
+      setError(null);
+
+      const { error: updateError } = await supabase
+        .from('events')
+        .update(changes)
+        .eq('id', id);
+
+      if (updateError) {
+        throw updateError;
+      }
+
+      setEvents(prev => prev.map(event => event.id === id ? { ...event, ...changes } : event));
+      return { success: true };
+    } catch (err) {
+      console.error('Error saving event:', err);
+      const message = err instanceof Error ? err.message : 'Failed to save event';
+      setError(message);
+      return { success: false, error: message };
+    }
+  };
+
+  return {
+    events,
+    isLoading,
+    error,
+    updateEvent,
+    reloadEvents: loadEvents
+  };
+}
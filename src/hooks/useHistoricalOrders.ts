@@ -0,0 +1,58 @@
+import { useState, useEffect, useRef } from 'react';
+import { loadActiveOrders } from '../lib/orderStore';
+import type { ParsedOrder } from '../utils/csvParser';
+import type { EventConfig } from '../types/event';
+
+export interface EventOrders {
+  event: EventConfig;
+  orders: ParsedOrder[];
+}
+
+// Active datasets of several events at once, e.g. to fit forecasts from past sales curves
+export function useHistoricalOrders(events: EventConfig[]) {
+  const [history, setHistory] = useState<EventOrders[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Event dates are part of the key so a changed date refits the curves
+  const key = events.map(event => `${event.id}:${event.event_date}`).join(',');
+  const currentKey = useRef(key);
+  currentKey.current = key;
+
+  useEffect(() => {
+    if (events.length > 0) {
+      loadHistory();
+    } else {
+      setHistory([]);
+      setError(null);
+      setIsLoading(false);
+    }
+  }, [key]);
+
+  const loadHistory = async () => {
+    const requestKey = key;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const loaded = await Promise.all(events.map(async event => ({ event, orders: await loadActiveOrders(event) })));
+      if (currentKey.current !== requestKey) return;
+      setHistory(loaded.filter(entry => entry.orders.length > 0));
+    } catch (err) {
+      console.error('Error loading historical data:', err);
+      if (currentKey.current !== requestKey) return;
+      setError(`Failed to load past events: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      setHistory([]);
+    } finally {
+      if (currentKey.current === requestKey) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  return {
+    history,
+    isLoading,
+    error
+  };
+}
@@ -1,13 +1,32 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { supabase } from '../lib/supabase';
-import { parseCSVData, type ParsedOrder } from '../utils/csvParser';
+import { loadUploadOrders, saveNormalizedUpload, saveUploadCustomers } from '../lib/orderStore';
+import { type ParsedOrder, type ImportDiagnostics } from '../utils/csvParser';
+import { parseCSVDataAsync } from '../utils/csvParserClient';
+import type { MalformedRecord } from '../utils/csvTokenizer';
+import { MissingColumnsError, type ColumnKey, type ColumnMapping } from '../utils/columnMapping';
+import type { EventConfig } from '../types/event';
 
-export function useOrderData(city?: 'dc' | 'atlanta' | 'houston') {
+export interface UploadResult {
+  success: boolean;
+  error?: string;
+  // Set when required headers couldn't be resolved and the user needs to map them
+  missingColumns?: { missing: ColumnKey[]; headers: string[] };
+  diagnostics?: ImportDiagnostics;
+  // Set when the file was refused for records that couldn't be read
+  malformedRecords?: MalformedRecord[];
+}
+
+export function useOrderData(event?: EventConfig, uploadedBy?: 'master' | 'team') {
+  const city = event?.id;
   const [data, setData] = useState<ParsedOrder[]>([]);
   const [lastUpdated, setLastUpdated] = useState<string | null>(null);
   const [fileName, setFileName] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Parsing runs in a worker, so ignore results that land after the city changed
+  const currentCity = useRef(city);
+  currentCity.current = city;
 
   useEffect(() => {
     if (city) {
@@ -21,7 +40,7 @@ export function useOrderData(city?: 'dc' | 'atlanta' | 'houston') {
   }, [city]);
 
   const loadData = async () => {
-    if (!city) return;
+    if (!event) return;
     
     try {
       setIsLoading(true);
@@ -29,8 +48,10 @@ export function useOrderData(city?: 'dc' | 'atlanta' | 'houston') {
 
       const { data: orderData, error: fetchError } = await supabase
         .from('order_data')
-        .select('*')
+        .select('id, created_at, file_name')
         .eq('city', city)
+        // The active version, falling back to the newest upload
+        .order('is_active', { ascending: false })
         .order('created_at', { ascending: false })
         .limit(1);
 
@@ -39,13 +60,11 @@ export function useOrderData(city?: 'dc' | 'atlanta' | 'houston') {
       }
 
       if (orderData && orderData.length > 0) {
-        const csvText = orderData[0].csv_content;
-        const createdAt = orderData[0].created_at;
-        const fileName = orderData[0].file_name || null;
-        const parsedData = parseCSVData(csvText, city);
+        const parsedData = await loadUploadOrders(orderData[0].id, event);
+        if (currentCity.current !== city) return;
         setData(parsedData);
-        setLastUpdated(createdAt);
-        setFileName(fileName);
+        setLastUpdated(orderData[0].created_at);
+        setFileName(orderData[0].file_name || null);
       } else {
         // No data found for this city
         setData([]);
@@ -59,12 +78,14 @@ export function useOrderData(city?: 'dc' | 'atlanta' | 'houston') {
       setLastUpdated(null);
       setFileName(null);
     } finally {
-      setIsLoading(false);
+      if (currentCity.current === city) {
+        setIsLoading(false);
+      }
     }
   };
 
-  const uploadData = async (csvText: string, fileName?: string) => {
-    if (!city) {
+  const uploadData = async (csvText: string, fileName?: string, columnMapping?: ColumnMapping): Promise<UploadResult> => {
+    if (!event) {
       return { success: false, error: 'No city selected' };
     }
     
@@ -72,64 +93,87 @@ export function useOrderData(city?: 'dc' | 'atlanta' | 'houston') {
       setError(null);
       
       // Parse the CSV to validate it
-      const parsedData = parseCSVData(csvText, city);
+      const { orders: parsedData, malformedRecords, diagnostics } = await parseCSVDataAsync(csvText, event.source_names, columnMapping);
+
+      // Refuse files with broken records rather than silently dropping the orders in them
+      if (malformedRecords.length > 0) {
+        const shown = malformedRecords.slice(0, 5).map(record => `line ${record.line}: ${record.reason}`);
+        const more = malformedRecords.length > shown.length ? ` (and ${malformedRecords.length - shown.length} more)` : '';
+        const message = `This CSV has ${malformedRecords.length} malformed record${malformedRecords.length === 1 ? '' : 's'} - ${shown.join('; ')}${more}. Please fix the file and upload it again.`;
+        setError(message);
+        // Diagnostics still go back so the rejected rows can be reviewed and downloaded
+        return { success: false, error: message, diagnostics, malformedRecords };
+      }
       
-      console.log(`Parsed ${parsedData.length} orders for city: ${city}`);
+      console.log(`Parsed ${parsedData.length} orders for city: ${event.id}`);
       
-      // Validate that the CSV contains data for the selected city
-      // For Houston, we accept all data (already handled in parser)
-      // For other cities, validate source name
-      if (city !== 'houston') {
-        const expectedSource = `Ebony Fit Weekend - ${city === 'dc' ? 'DC' : 'Atlanta'}`;
-        const hasValidData = parsedData.some(order => order.sourceName === expectedSource);
-        
-        console.log(`Expected source: "${expectedSource}"`);
-        console.log(`Has valid data: ${hasValidData}`);
+      // Validate that the CSV contains data for the selected event
+      if (event.source_names.length > 0) {
+        const sources = new Set(event.source_names);
+        console.log('Expected sources:', event.source_names);
         console.log('Unique sources in data:', [...new Set(parsedData.map(o => o.sourceName))]);
-        
-        if (!hasValidData) {
-          throw new Error(`No data found for ${city.toUpperCase()} in this CSV file. Please check that you've uploaded the correct file.`);
-        }
-      } else {
-        // For Houston, just check that we have some data
-        if (parsedData.length === 0) {
-          throw new Error('No valid order data found in this CSV file. Please check that the file contains completed orders.');
-        }
-        console.log(`Houston mode: Processed ${parsedData.length} orders (source name ignored)`);
-      }
-      
-      // Delete existing data for this city before inserting new data
-      const { error: deleteError } = await supabase
-        .from('order_data')
-        .delete()
-        .eq('city', city);
 
-      if (deleteError) {
-        console.warn('Warning: Could not delete existing data:', deleteError);
-        // Continue anyway - this might be the first upload
+        if (!parsedData.some(order => sources.has(order.sourceName))) {
+          throw new Error(`No data found for ${event.short_name} in this CSV file. Please check that you've uploaded the correct file.`);
+        }
+      } else if (parsedData.length === 0) {
+        // Events without source names accept every order, so just check there is some data
+        throw new Error('No valid order data found in this CSV file. Please check that the file contains completed orders.');
       }
 
-      // Save to database
-      const { error: insertError } = await supabase
+      // Save to database; earlier uploads are kept and the database numbers this one as the next version
+      const { data: inserted, error: insertError } = await supabase
         .from('order_data')
         .insert({
-          csv_content: csvText,
           order_count: parsedData.length,
           file_name: fileName || null,
-          city: city
-        });
+          city: event.id,
+          column_mapping: columnMapping || null,
+          uploaded_by: uploadedBy || null,
+          skipped_row_count: diagnostics.rejectedRows.length,
+          is_active: false
+        })
+        .select('id')
+        .single();
 
       if (insertError) {
         throw insertError;
       }
 
+      try {
+        await saveNormalizedUpload(inserted.id, event.id, parsedData);
+
+        // Switch the city's active dataset over in one transaction
+        const { error: activateError } = await supabase
+          .rpc('activate_order_data_version', { target_id: inserted.id });
+
+        if (activateError) {
+          throw activateError;
+        }
+      } catch (err) {
+        // Don't leave a half-written version behind
+        await supabase.from('order_data').delete().eq('id', inserted.id);
+        throw err;
+      }
+
+      // The upload is live at this point, so a failed customer refresh doesn't fail it
+      try {
+        await saveUploadCustomers(event.id, parsedData);
+      } catch (err) {
+        console.error('Error updating customers:', err);
+      }
+
       // Update local state
       setData(parsedData);
       setLastUpdated(new Date().toISOString());
       setFileName(fileName || null);
       
-      return { success: true };
+      return { success: true, diagnostics };
     } catch (err) {
+      if (err instanceof MissingColumnsError) {
+        // Not fatal - the uploader asks the user to map the missing headers
+        return { success: false, error: err.message, missingColumns: { missing: err.missing, headers: err.headers } };
+      }
       console.error('Error uploading data:', err);
       setError(err instanceof Error ? err.message : 'Failed to upload data');
       return { success: false, error: err instanceof Error ? err.message : 'Failed to upload data' };
@@ -0,0 +1,117 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import type { PaymentFee } from '../utils/fees';
+import type { EventId } from '../types/event';
+
+export interface PaymentFeeChange {
+  method: string;
+  // null removes the method's fee schedule
+  percentFee: number | null;
+  fixedFee: number | null;
+}
+
+export function usePaymentFees(city?: EventId) {
+  const [fees, setFees] = useState<PaymentFee[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (city) {
+      loadFees();
+    } else {
+      setFees([]);
+      setIsLoading(false);
+    }
+  }, [city]);
+
+  const loadFees = async () => {
+    if (!city) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { data, error: fetchError } = await supabase
+        .from('payment_fees')
+        .select('id, city, method, percent_fee, fixed_fee')
+        .eq('city', city)
+        .order('method', { ascending: true });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setFees((data || []).map(fee => ({
+        ...fee,
+        percent_fee: Number(fee.percent_fee),
+        fixed_fee: Number(fee.fixed_fee)
+      })));
+    } catch (err) {
+      console.error('Error loading payment fees:', err);
+      setError(`Failed to load payment fees: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const saveFees = async (changes: PaymentFeeChange[]) => {
+    if (!city) {
+      return { success: false, error: 'No city selected' };
+    }
+
+    try {
+      setError(null);
+
+      const upserts = changes
+        .filter(change => change.percentFee !== null || change.fixedFee !== null)
+        .map(change => ({
+          city,
+          method: change.method,
+          percent_fee: change.percentFee || 0,
+          fixed_fee: change.fixedFee || 0,
+          updated_at: new Date().toISOString()
+        }));
+      const removals = changes
+        .filter(change => change.percentFee === null && change.fixedFee === null)
+        .map(change => change.method);
+
+      if (upserts.length > 0) {
+        const { error: upsertError } = await supabase
+          .from('payment_fees')
+          .upsert(upserts, { onConflict: 'city,method' });
+
+        if (upsertError) {
+          throw upsertError;
+        }
+      }
+
+      if (removals.length > 0) {
+        const { error: deleteError } = await supabase
+          .from('payment_fees')
+          .delete()
+          .eq('city', city)
+          .in('method', removals);
+
+        if (deleteError) {
+          throw deleteError;
+        }
+      }
+
+      await loadFees();
+      return { success: true };
+    } catch (err) {
+      console.error('Error saving payment fees:', err);
+      const message = err instanceof Error ? err.message : 'Failed to save payment fees';
+      setError(message);
+      return { success: false, error: message };
+    }
+  };
+
+  return {
+    fees,
+    isLoading,
+    error,
+    saveFees,
+    reloadFees: loadFees
+  };
+}
@@ -0,0 +1,95 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { loadUploadOrders } from '../lib/orderStore';
+import type { ParsedOrder } from '../utils/csvParser';
+import type { EventConfig } from '../types/event';
+
+export interface UploadVersion {
+  id: string;
+  version: number | null;
+  file_name: string | null;
+  order_count: number;
+  uploaded_by: 'master' | 'team' | null;
+  is_active: boolean;
+  skipped_row_count: number | null;
+  created_at: string;
+}
+
+export function useUploadHistory(event?: EventConfig) {
+  const city = event?.id;
+  const [versions, setVersions] = useState<UploadVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (city) {
+      loadVersions();
+    } else {
+      setVersions([]);
+      setIsLoading(false);
+    }
+  }, [city]);
+
+  const loadVersions = async () => {
+    if (!city) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      // Metadata only - a version's orders are fetched when it is opened
+      const { data, error: fetchError } = await supabase
+        .from('order_data')
+        .select('id, version, file_name, order_count, uploaded_by, is_active, skipped_row_count, created_at')
+        .eq('city', city)
+        .order('created_at', { ascending: false });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setVersions(data || []);
+    } catch (err) {
+      console.error('Error loading upload history:', err);
+      setError(`Failed to load upload history: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Load a stored upload exactly as the dashboard would show it
+  const loadVersionData = useCallback(async (id: string): Promise<ParsedOrder[]> => {
+    if (!event) return [];
+    return loadUploadOrders(id, event);
+  }, [event]);
+
+  const restoreVersion = async (id: string) => {
+    try {
+      setError(null);
+
+      const { error: activateError } = await supabase
+        .rpc('activate_order_data_version', { target_id: id });
+
+      if (activateError) {
+        throw activateError;
+      }
+
+      setVersions(prev => prev.map(version => ({ ...version, is_active: version.id === id })));
+      return { success: true };
+    } catch (err) {
+      console.error('Error restoring upload:', err);
+      const message = err instanceof Error ? err.message : 'Failed to restore upload';
+      setError(message);
+      return { success: false, error: message };
+    }
+  };
+
+  return {
+    versions,
+    isLoading,
+    error,
+    loadVersionData,
+    restoreVersion,
+    reloadVersions: loadVersions
+  };
+}
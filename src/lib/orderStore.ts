@@ -0,0 +1,235 @@
+import { supabase } from './supabase';
+import type { ParsedOrder, RefundStatus } from '../utils/csvParser';
+import { parseCSVDataAsync } from '../utils/csvParserClient';
+import type { EventConfig } from '../types/event';
+
+// PostgREST caps responses at 1000 rows, so reads and writes go in pages
+const PAGE_SIZE = 1000;
+
+interface OrderRow {
+  order_id: string;
+  customer_email: string;
+  customer_name: string;
+  customer_phone: string | null;
+  status: string;
+  source_name: string | null;
+  order_date: string | null;
+  order_time: string | null;
+  sub_total: number;
+  tax_amount: number;
+  total_amount: number;
+  payment_method: string | null;
+  refund_status: RefundStatus;
+  refunded_amount: number;
+  discount_code: string | null;
+  discount_amount: number | null;
+}
+
+interface LineItemRow {
+  order_id: string;
+  position: number;
+  class_name: string;
+  raw_class_name: string | null;
+  quantity: number;
+  price: number;
+  subtotal: number;
+}
+
+async function fetchAll<T>(table: string, columns: string, uploadId: string, orderBy: string): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .eq('upload_id', uploadId)
+      .order(orderBy)
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    rows.push(...(data as T[]));
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+async function insertAll(table: string, rows: object[]) {
+  for (let from = 0; from < rows.length; from += PAGE_SIZE) {
+    const { error } = await supabase.from(table).insert(rows.slice(from, from + PAGE_SIZE));
+    if (error) {
+      throw error;
+    }
+  }
+}
+
+// Write a parsed upload into the orders and line_items tables
+export async function saveNormalizedUpload(uploadId: string, city: string, data: ParsedOrder[]) {
+  const orders = new Map<string, object>();
+
+  data.forEach(order => {
+    if (!orders.has(order.orderId)) {
+      orders.set(order.orderId, {
+        upload_id: uploadId,
+        city,
+        order_id: order.orderId,
+        customer_email: order.customerEmail,
+        customer_name: order.customerName,
+        customer_phone: order.customerPhone || null,
+        status: order.status,
+        source_name: order.sourceName || null,
+        order_date: order.orderDate || null,
+        order_time: order.orderTime || null,
+        sub_total: order.orderSubTotal,
+        tax_amount: order.orderTaxAmount,
+        total_amount: order.orderTotalAmount,
+        payment_method: order.paymentMethod || null,
+        refund_status: order.refundStatus,
+        refunded_amount: order.orderRefundedAmount,
+        discount_code: order.discountCode || null,
+        discount_amount: order.orderDiscountAmount ?? null
+      });
+    }
+  });
+
+  const lineItems = data.map((order, position) => ({
+    upload_id: uploadId,
+    city,
+    order_id: order.orderId,
+    position,
+    class_name: order.className,
+    raw_class_name: order.rawClassName,
+    quantity: order.quantity,
+    price: order.price,
+    subtotal: order.lineItemSubtotal
+  }));
+
+  await insertAll('orders', Array.from(orders.values()));
+  await insertAll('line_items', lineItems);
+
+  const { error } = await supabase
+    .from('order_data')
+    .update({ normalized_at: new Date().toISOString() })
+    .eq('id', uploadId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/*
+  Refresh the city's shared customer rows from an upload. Rows are overwritten in place and no
+  upload owns them, so this only runs once the upload is saved and active: a failed upload is
+  rolled back by deleting its order_data row, which can't undo changes here.
+*/
+export async function saveUploadCustomers(city: string, data: ParsedOrder[]) {
+  const customers = new Map<string, object>();
+  data.forEach(order => {
+    customers.set(order.customerEmail.toLowerCase(), {
+      city,
+      email: order.customerEmail.toLowerCase(),
+      name: order.customerName,
+      phone: order.customerPhone || null,
+      updated_at: new Date().toISOString()
+    });
+  });
+
+  const customerRows = Array.from(customers.values());
+  for (let from = 0; from < customerRows.length; from += PAGE_SIZE) {
+    const { error } = await supabase
+      .from('customers')
+      .upsert(customerRows.slice(from, from + PAGE_SIZE), { onConflict: 'city,email' });
+    if (error) {
+      throw error;
+    }
+  }
+}
+
+// Load one upload's line items, reading the raw CSV only for uploads made before the tables existed
+export async function loadUploadOrders(uploadId: string, event: EventConfig): Promise<ParsedOrder[]> {
+  const { data: upload, error } = await supabase
+    .from('order_data')
+    .select('normalized_at, column_mapping')
+    .eq('id', uploadId)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!upload.normalized_at) {
+    const { data: raw, error: rawError } = await supabase
+      .from('order_data')
+      .select('csv_content')
+      .eq('id', uploadId)
+      .single();
+
+    if (rawError) {
+      throw rawError;
+    }
+
+    // Only legacy uploads keep their CSV; a new one without rows was never finished
+    if (!raw.csv_content) {
+      throw new Error('This upload was not saved completely. Please upload the file again.');
+    }
+
+    const { orders, malformedRecords } = await parseCSVDataAsync(raw.csv_content, event.source_names, upload.column_mapping || undefined);
+    if (malformedRecords.length > 0) {
+      console.warn(`Stored CSV for ${event.id} has ${malformedRecords.length} malformed records:`, malformedRecords);
+    }
+    return orders;
+  }
+
+  const [orderRows, lineItemRows] = await Promise.all([
+    fetchAll<OrderRow>('orders', '*', uploadId, 'order_id'),
+    fetchAll<LineItemRow>('line_items', 'order_id, position, class_name, raw_class_name, quantity, price, subtotal', uploadId, 'position')
+  ]);
+
+  const ordersById = new Map(orderRows.map(order => [order.order_id, order]));
+  return lineItemRows.flatMap(item => {
+    const order = ordersById.get(item.order_id);
+    if (!order) return [];
+    return [{
+      orderId: order.order_id,
+      customerName: order.customer_name,
+      customerEmail: order.customer_email,
+      customerPhone: order.customer_phone || '',
+      status: order.status,
+      sourceName: order.source_name || '',
+      orderDate: order.order_date || '',
+      orderTime: order.order_time || '',
+      className: item.class_name,
+      rawClassName: item.raw_class_name || item.class_name,
+      quantity: Number(item.quantity),
+      price: Number(item.price),
+      lineItemSubtotal: Number(item.subtotal),
+      orderSubTotal: Number(order.sub_total),
+      orderTaxAmount: Number(order.tax_amount),
+      orderTotalAmount: Number(order.total_amount),
+      paymentMethod: order.payment_method || undefined,
+      refundStatus: order.refund_status,
+      orderRefundedAmount: Number(order.refunded_amount),
+      discountCode: order.discount_code || undefined,
+      orderDiscountAmount: order.discount_amount === null ? undefined : Number(order.discount_amount)
+    }];
+  });
+}
+
+// Load an event's active dataset, falling back to its newest upload; empty when nothing was uploaded
+export async function loadActiveOrders(event: EventConfig): Promise<ParsedOrder[]> {
+  const { data, error } = await supabase
+    .from('order_data')
+    .select('id')
+    .eq('city', event.id)
+    .order('is_active', { ascending: false })
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throw error;
+  }
+
+  return data && data.length > 0 ? loadUploadOrders(data[0].id, event) : [];
+}
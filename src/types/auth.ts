@@ -1,7 +1,9 @@
+import type { EventId } from './event';
+
 export interface User {
   role: 'master' | 'team';
   hasAccess: boolean;
-  selectedCity?: 'dc' | 'atlanta' | 'houston';
+  selectedCity?: EventId;
 }
 
 export interface AuthState {
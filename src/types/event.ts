@@ -0,0 +1,18 @@
+// Events are keyed by the same id stored in the `city` columns
+export type EventId = string;
+
+export interface EventConfig {
+  id: EventId;
+  name: string;
+  short_name: string;
+  year: number;
+  // An empty list accepts orders from every source
+  source_names: string[];
+  timezone: string;
+  // Timezone the ticketing export writes order dates and times in
+  order_timezone: string;
+  // First day of the event (YYYY-MM-DD), null until it's set
+  event_date: string | null;
+  is_active: boolean;
+  sort_order: number;
+}
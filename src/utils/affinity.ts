@@ -0,0 +1,73 @@
+import type { DatasetMetrics } from './metrics';
+
+export interface AffinityClass {
+  name: string;
+  // Customers still holding a ticket for the class
+  customers: number;
+}
+
+export interface ClassPairing {
+  name: string;
+  // Customers holding tickets for both classes
+  customers: number;
+  // Share of the first class's customers who also bought this one
+  share: number;
+  // How much more often the pair is bought together than if buyers picked classes independently
+  lift: number;
+}
+
+export interface ClassAffinity {
+  // Most-bought first
+  classes: AffinityClass[];
+  // together[i][j]: customers holding both classes[i] and classes[j]; the diagonal is the class's own customers
+  together: number[][];
+  lift: number[][];
+  totalCustomers: number;
+}
+
+/*
+  Co-purchase counts from each customer's set of classes held. Bundles are left out: a pass
+  holder "buys" every class the pass covers, which would swamp the real pairings.
+*/
+export function buildClassAffinity(metrics: DatasetMetrics): ClassAffinity {
+  const bundles = new Set(metrics.classes.filter(cls => cls.isBundle).map(cls => cls.name));
+  const customerClasses = metrics.customers
+    .map(customer => Array.from(customer.classes).filter(name => !bundles.has(name)))
+    .filter(classes => classes.length > 0);
+
+  const counts = new Map<string, number>();
+  customerClasses.forEach(classes => classes.forEach(name => counts.set(name, (counts.get(name) || 0) + 1)));
+  const classes = Array.from(counts.entries())
+    .map(([name, customers]) => ({ name, customers }))
+    .sort((a, b) => b.customers - a.customers || a.name.localeCompare(b.name));
+  const index = new Map(classes.map((cls, position) => [cls.name, position]));
+
+  const together = classes.map(() => classes.map(() => 0));
+  customerClasses.forEach(names => {
+    const positions = names.map(name => index.get(name)!);
+    positions.forEach(i => positions.forEach(j => together[i][j]++));
+  });
+
+  const totalCustomers = customerClasses.length;
+  const lift = together.map((row, i) => row.map((both, j) =>
+    i === j || both === 0 ? 0 : (both * totalCustomers) / (classes[i].customers * classes[j].customers)
+  ));
+
+  return { classes, together, lift, totalCustomers };
+}
+
+// "Customers who bought X also bought": every other class X's customers hold, most shared first
+export function alsoBought(affinity: ClassAffinity, className: string): ClassPairing[] {
+  const i = affinity.classes.findIndex(cls => cls.name === className);
+  if (i === -1) return [];
+
+  return affinity.classes
+    .map((cls, j) => ({
+      name: cls.name,
+      customers: affinity.together[i][j],
+      share: affinity.together[i][j] / affinity.classes[i].customers,
+      lift: affinity.lift[i][j]
+    }))
+    .filter((pairing, j) => j !== i && pairing.customers > 0)
+    .sort((a, b) => b.customers - a.customers || b.lift - a.lift);
+}
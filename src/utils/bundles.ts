@@ -0,0 +1,188 @@
+import type { ParsedOrder } from './csvParser';
+import { buildCatalogLookup, findCatalogClass, type CatalogClass } from './classCatalog';
+import { isActiveTicket, lineItemNetRevenue, type AllocationStrategy } from './revenue';
+
+// Fallback for bundles the catalog doesn't size, e.g. "CLASS TICKET BUNDLES - 3 Class Ticket Bundle"
+const BUNDLE_NAME_PATTERN = /(\d+)\s+class\s+ticket\s+bundle/i;
+
+export interface BundleRedemption {
+  className: string;
+  bundleClassName: string;
+  orderId: string;
+  orderDate: string;
+  slots: number;
+  // Share of the bundle's net revenue that moves to the class
+  revenue: number;
+}
+
+export interface BundleHolder {
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string;
+  bundles: string[];
+  purchasedSlots: number;
+  redeemedSlots: number;
+  remainingSlots: number;
+  bundleRevenue: number;
+  redemptions: BundleRedemption[];
+}
+
+export interface BundleAllocation {
+  bundleClassName: string;
+  className: string;
+  slots: number;
+  revenue: number;
+}
+
+export interface BundleAnalysis {
+  holders: BundleHolder[];
+  // One entry per bundle and redeemed class
+  allocations: BundleAllocation[];
+  purchasedSlots: number;
+  redeemedSlots: number;
+  bundleRevenue: number;
+  allocatedRevenue: number;
+}
+
+interface SlotLot {
+  bundleClassName: string;
+  time: number;
+  remaining: number;
+  revenuePerSlot: number;
+}
+
+// Class tickets covered by one unit of a line item, 0 when it isn't a bundle
+export function getBundleSlots(className: string, entry?: CatalogClass): number {
+  if (entry?.bundle_slots) return entry.bundle_slots;
+  const match = className.match(BUNDLE_NAME_PATTERN);
+  return match ? Number(match[1]) : 0;
+}
+
+export function isBundleClass(className: string, lookup: Map<string, CatalogClass>): boolean {
+  return getBundleSlots(className, findCatalogClass(lookup, className)) > 0;
+}
+
+const orderTime = (order: ParsedOrder) => {
+  const time = new Date(`${order.orderDate} ${order.orderTime}`).getTime();
+  return isNaN(time) ? 0 : time;
+};
+
+/*
+  A bundle redemption is a free (zero subtotal) class ticket bought by a bundle holder,
+  matched on email, in an order placed no earlier than the bundle. Redemptions use up the
+  holder's oldest open slots first, and each redeemed slot moves an equal share of that
+  bundle's net revenue to the class it was used on.
+*/
+export function analyzeBundles(data: ParsedOrder[], catalog: CatalogClass[], strategy: AllocationStrategy): BundleAnalysis {
+  const lookup = buildCatalogLookup(catalog);
+  const holders = new Map<string, BundleHolder>();
+  const lots = new Map<string, SlotLot[]>();
+  let bundleRevenue = 0;
+
+  data.forEach(order => {
+    const slotsPerUnit = getBundleSlots(order.className, findCatalogClass(lookup, order.className));
+    if (slotsPerUnit === 0 || !isActiveTicket(order)) return;
+
+    const email = order.customerEmail.toLowerCase();
+    const slots = slotsPerUnit * order.quantity;
+    const revenue = lineItemNetRevenue(order, strategy);
+    bundleRevenue += revenue;
+
+    const holder = holders.get(email) || {
+      customerName: order.customerName,
+      customerEmail: order.customerEmail,
+      customerPhone: order.customerPhone,
+      bundles: [],
+      purchasedSlots: 0,
+      redeemedSlots: 0,
+      remainingSlots: 0,
+      bundleRevenue: 0,
+      redemptions: []
+    };
+    holder.bundles.push(order.className);
+    holder.purchasedSlots += slots;
+    holder.bundleRevenue += revenue;
+    holders.set(email, holder);
+
+    lots.set(email, [...(lots.get(email) || []), {
+      bundleClassName: order.className,
+      time: orderTime(order),
+      remaining: slots,
+      revenuePerSlot: slots > 0 ? revenue / slots : 0
+    }]);
+  });
+  lots.forEach(holderLots => holderLots.sort((a, b) => a.time - b.time));
+
+  const candidates = data
+    .filter(order =>
+      holders.has(order.customerEmail.toLowerCase())
+      && isActiveTicket(order)
+      && order.lineItemSubtotal <= 0
+      && !isBundleClass(order.className, lookup)
+    )
+    .sort((a, b) => orderTime(a) - orderTime(b));
+
+  const allocations = new Map<string, BundleAllocation>();
+  candidates.forEach(order => {
+    const email = order.customerEmail.toLowerCase();
+    const holder = holders.get(email)!;
+    const time = orderTime(order);
+    let needed = order.quantity;
+
+    for (const lot of lots.get(email)!) {
+      if (needed === 0) break;
+      if (lot.remaining === 0 || lot.time > time) continue;
+
+      const slots = Math.min(needed, lot.remaining);
+      const revenue = slots * lot.revenuePerSlot;
+      lot.remaining -= slots;
+      needed -= slots;
+
+      holder.redeemedSlots += slots;
+      holder.redemptions.push({
+        className: order.className,
+        bundleClassName: lot.bundleClassName,
+        orderId: order.orderId,
+        orderDate: order.orderDate,
+        slots,
+        revenue
+      });
+
+      const key = `${lot.bundleClassName}\n${order.className}`;
+      const allocation = allocations.get(key) || {
+        bundleClassName: lot.bundleClassName,
+        className: order.className,
+        slots: 0,
+        revenue: 0
+      };
+      allocation.slots += slots;
+      allocation.revenue += revenue;
+      allocations.set(key, allocation);
+    }
+  });
+
+  const holderList = Array.from(holders.values()).map(holder => ({
+    ...holder,
+    remainingSlots: holder.purchasedSlots - holder.redeemedSlots
+  }));
+  const allocationList = Array.from(allocations.values());
+
+  return {
+    holders: holderList.sort((a, b) => b.remainingSlots - a.remainingSlots || a.customerName.localeCompare(b.customerName)),
+    allocations: allocationList.sort((a, b) => b.slots - a.slots || a.className.localeCompare(b.className)),
+    purchasedSlots: holderList.reduce((sum, holder) => sum + holder.purchasedSlots, 0),
+    redeemedSlots: holderList.reduce((sum, holder) => sum + holder.redeemedSlots, 0),
+    bundleRevenue,
+    allocatedRevenue: allocationList.reduce((sum, allocation) => sum + allocation.revenue, 0)
+  };
+}
+
+// Revenue to add to each class name (negative for the bundles it moves out of)
+export function bundleRevenueShifts(analysis: BundleAnalysis): Map<string, number> {
+  const shifts = new Map<string, number>();
+  analysis.allocations.forEach(({ bundleClassName, className, revenue }) => {
+    shifts.set(className, (shifts.get(className) || 0) + revenue);
+    shifts.set(bundleClassName, (shifts.get(bundleClassName) || 0) - revenue);
+  });
+  return shifts;
+}
@@ -0,0 +1,31 @@
+import type { ParsedOrder } from './csvParser';
+
+export interface ClassAlias {
+  id: string;
+  city: string;
+  raw_name: string;
+  canonical_name: string;
+}
+
+// Alias names are matched case-insensitively
+const aliasKey = (name: string) => name.trim().toLowerCase();
+
+export function buildAliasLookup(aliases: ClassAlias[]): Map<string, string> {
+  return new Map(aliases.map(alias => [aliasKey(alias.raw_name), alias.canonical_name.trim()]));
+}
+
+// An alias can target the exact exported name or the name after the built-in cleanup
+export function resolveClassName(order: Pick<ParsedOrder, 'className' | 'rawClassName'>, lookup: Map<string, string>): string {
+  return lookup.get(aliasKey(order.rawClassName)) || lookup.get(aliasKey(order.className)) || order.className;
+}
+
+// Rewrite class names to their canonical form; rawClassName keeps what the export said
+export function applyClassAliases(data: ParsedOrder[], aliases: ClassAlias[]): ParsedOrder[] {
+  if (aliases.length === 0) return data;
+
+  const lookup = buildAliasLookup(aliases);
+  return data.map(order => {
+    const className = resolveClassName(order, lookup);
+    return className === order.className ? order : { ...order, className };
+  });
+}
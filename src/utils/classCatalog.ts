@@ -0,0 +1,51 @@
+export interface CatalogClass {
+  id: string;
+  city: string;
+  name: string;
+  // null when the class has no cap
+  capacity: number | null;
+  price: number | null;
+  is_active: boolean;
+  sort_order: number;
+  // Schedule, in the event's local time (YYYY-MM-DD and HH:MM[:SS])
+  session_date: string | null;
+  start_time: string | null;
+  duration_minutes: number | null;
+  location: string | null;
+  // Class tickets covered by a bundle entry, null for regular classes
+  bundle_slots: number | null;
+}
+
+export type CapacityStatus = 'open' | 'near-sold-out' | 'sold-out';
+
+export interface CapacityInfo {
+  capacity: number;
+  remaining: number;
+  // Share of capacity sold, 0-1 (can exceed 1 when oversold)
+  sellThrough: number;
+  status: CapacityStatus;
+}
+
+// A class counts as nearly sold out once this share of its spots is gone
+export const NEAR_SOLD_OUT_RATIO = 0.9;
+
+// Catalog entries are matched to class names case-insensitively
+export function buildCatalogLookup(catalog: CatalogClass[]): Map<string, CatalogClass> {
+  return new Map(catalog.map(entry => [entry.name.trim().toLowerCase(), entry]));
+}
+
+export function findCatalogClass(lookup: Map<string, CatalogClass>, className: string): CatalogClass | undefined {
+  return lookup.get(className.trim().toLowerCase());
+}
+
+export function getCapacityInfo(ticketsSold: number, entry?: CatalogClass): CapacityInfo | null {
+  if (!entry || entry.capacity === null || entry.capacity <= 0) return null;
+
+  const sellThrough = ticketsSold / entry.capacity;
+  return {
+    capacity: entry.capacity,
+    remaining: Math.max(0, entry.capacity - ticketsSold),
+    sellThrough,
+    status: sellThrough >= 1 ? 'sold-out' : sellThrough >= NEAR_SOLD_OUT_RATIO ? 'near-sold-out' : 'open'
+  };
+}
@@ -0,0 +1,108 @@
+export type ColumnKey =
+  | 'orderId'
+  | 'customerName'
+  | 'customerEmail'
+  | 'customerPhone'
+  | 'status'
+  | 'sourceName'
+  | 'orderDate'
+  | 'orderTime'
+  | 'className'
+  | 'quantity'
+  | 'price'
+  | 'lineItemSubtotal'
+  | 'orderSubTotal'
+  | 'orderTaxAmount'
+  | 'orderTotalAmount'
+  | 'paymentMethod'
+  | 'refundedAmount'
+  | 'discountCode'
+  | 'discountAmount';
+
+// Columns that may be absent from an export
+export type OptionalColumnKey = 'paymentMethod' | 'refundedAmount' | 'discountCode' | 'discountAmount';
+
+// Maps a field to the exact CSV header it should be read from
+export type ColumnMapping = Partial<Record<ColumnKey, string>>;
+
+export interface ColumnDefinition {
+  label: string;
+  // Other header spellings the ticketing platform has used for this column
+  aliases: string[];
+  required: boolean;
+}
+
+export const COLUMN_DEFINITIONS: Record<ColumnKey, ColumnDefinition> = {
+  orderId: { label: 'Internal order id', aliases: ['Order id', 'Order ID'], required: true },
+  customerName: { label: 'Customer name', aliases: [], required: true },
+  customerEmail: { label: 'Customer email', aliases: ['Email'], required: true },
+  customerPhone: { label: 'Customer phone', aliases: ['Phone'], required: true },
+  status: { label: 'Status', aliases: ['Order status'], required: true },
+  sourceName: { label: 'Source name', aliases: ['Source'], required: true },
+  orderDate: { label: 'Order date', aliases: [], required: true },
+  orderTime: { label: 'Order time', aliases: [], required: true },
+  className: { label: 'Line item Name', aliases: ['Line item name', 'Item name'], required: true },
+  quantity: { label: 'Line item Quantity', aliases: ['Quantity'], required: true },
+  price: { label: 'Line item Price', aliases: ['Price'], required: true },
+  lineItemSubtotal: { label: 'Line item Subtotal', aliases: ['Line item Sub total'], required: true },
+  orderSubTotal: { label: 'Sub total', aliases: ['Subtotal', 'Order sub total'], required: true },
+  orderTaxAmount: { label: 'Tax Amount', aliases: ['Tax', 'Order tax amount'], required: true },
+  orderTotalAmount: { label: 'Total Amount', aliases: ['Total', 'Order total amount'], required: true },
+  paymentMethod: { label: 'Payment Method', aliases: ['Payment type'], required: false },
+  refundedAmount: { label: 'Refunded Amount', aliases: ['Refund Amount', 'Amount refunded'], required: false },
+  discountCode: { label: 'Discount Code', aliases: ['Discount codes', 'Promo code', 'Coupon code'], required: false },
+  discountAmount: { label: 'Discount Amount', aliases: ['Discount', 'Order discount amount'], required: false }
+};
+
+export const COLUMN_KEYS = Object.keys(COLUMN_DEFINITIONS) as ColumnKey[];
+
+export interface ColumnMappingProfile {
+  id: string;
+  name: string;
+  mapping: ColumnMapping;
+  created_at: string;
+  updated_at: string;
+}
+
+// Thrown when required headers can't be resolved, so the uploader can ask for a mapping
+export class MissingColumnsError extends Error {
+  missing: ColumnKey[];
+  headers: string[];
+
+  constructor(missing: ColumnKey[], headers: string[]) {
+    super(`Column${missing.length === 1 ? '' : 's'} not found in CSV: ${missing.map(key => `"${COLUMN_DEFINITIONS[key].label}"`).join(', ')}`);
+    this.name = 'MissingColumnsError';
+    this.missing = missing;
+    this.headers = headers;
+  }
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s_]+/g, ' ');
+}
+
+// Resolve every known column to a header index. Headers must match exactly
+// (ignoring case and spacing) - either the mapped header, the default label or
+// one of its aliases - so 'Status' never picks up 'Fulfillment Status'.
+export function resolveColumns(headers: string[], mapping: ColumnMapping = {}) {
+  const normalizedHeaders = headers.map(normalizeHeader);
+  const findHeader = (header: string) => normalizedHeaders.indexOf(normalizeHeader(header));
+
+  const indices: Partial<Record<ColumnKey, number>> = {};
+  const missing: ColumnKey[] = [];
+
+  for (const key of COLUMN_KEYS) {
+    const definition = COLUMN_DEFINITIONS[key];
+    const candidates = [mapping[key], definition.label, ...definition.aliases]
+      .filter((header): header is string => !!header);
+
+    const index = candidates.map(findHeader).find(i => i !== -1);
+    if (index !== undefined) {
+      indices[key] = index;
+    } else if (definition.required) {
+      missing.push(key);
+    }
+  }
+
+  return { indices, missing };
+}
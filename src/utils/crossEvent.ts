@@ -0,0 +1,117 @@
+import type { ParsedOrder } from './csvParser';
+import { isActiveTicket } from './revenue';
+import { groupByContact } from './customerIdentity';
+import type { EventConfig, EventId } from '../types/event';
+
+export interface EventDataset {
+  event: EventConfig;
+  orders: ParsedOrder[];
+}
+
+export interface CrossEventCustomer {
+  name: string;
+  emails: string[];
+  phones: string[];
+  // Events the customer held tickets for, earliest first
+  events: EventId[];
+  tickets: Record<EventId, number>;
+  classes: Record<EventId, string[]>;
+}
+
+export interface ReturningClass {
+  name: string;
+  tickets: number;
+  // Tickets for the class bought by customers who came to an earlier event
+  returningTickets: number;
+}
+
+export interface EventRepeatStats {
+  event: EventConfig;
+  customers: number;
+  // Customers who also came to an earlier event
+  returning: number;
+  repeatRate: number;
+  // Customers shared with each other event
+  overlap: Record<EventId, number>;
+  classes: ReturningClass[];
+}
+
+export interface CrossEventAnalysis {
+  // Events with data, earliest first
+  events: EventRepeatStats[];
+  customers: CrossEventCustomer[];
+}
+
+// Events run in date order; undated ones fall back to their year and registry order
+export function compareEvents(a: EventConfig, b: EventConfig): number {
+  const keyA = a.event_date || `${a.year}-99`;
+  const keyB = b.event_date || `${b.year}-99`;
+  return keyA.localeCompare(keyB) || a.sort_order - b.sort_order;
+}
+
+/*
+  Matches customers across events by normalized email or phone, so someone who used a different
+  email in Houston but the same phone number still counts as returning. Only tickets still held
+  count as attending.
+*/
+export function analyzeCrossEvent(datasets: EventDataset[]): CrossEventAnalysis {
+  const sorted = [...datasets].sort((a, b) => compareEvents(a.event, b.event));
+  const lines = sorted.flatMap(({ event, orders }) =>
+    orders.filter(isActiveTicket).map(order => ({ event: event.id, order }))
+  );
+  const groups = groupByContact(lines.map(({ order }) => ({ email: order.customerEmail, phone: order.customerPhone })));
+
+  const customers = new Map<number, CrossEventCustomer>();
+  lines.forEach(({ event, order }, index) => {
+    const customer = customers.get(groups[index]) || {
+      name: order.customerName,
+      emails: [],
+      phones: [],
+      events: [],
+      tickets: {},
+      classes: {}
+    };
+    const email = order.customerEmail.trim();
+    const phone = order.customerPhone.trim();
+    if (email && !customer.emails.some(other => other.toLowerCase() === email.toLowerCase())) customer.emails.push(email);
+    if (phone && !customer.phones.includes(phone)) customer.phones.push(phone);
+    if (!customer.events.includes(event)) customer.events.push(event);
+    customer.tickets[event] = (customer.tickets[event] || 0) + order.quantity;
+    const classes = customer.classes[event] || [];
+    if (!classes.includes(order.className)) classes.push(order.className);
+    customer.classes[event] = classes;
+    customers.set(groups[index], customer);
+  });
+
+  const customerList = Array.from(customers.values());
+  const eventIds = sorted.map(({ event }) => event.id);
+
+  const events = sorted.map(({ event }, position) => {
+    const attendees = customerList.filter(customer => customer.events.includes(event.id));
+    const earlier = new Set(eventIds.slice(0, position));
+    const returning = attendees.filter(customer => customer.events.some(other => earlier.has(other)));
+    const returningSet = new Set(returning);
+
+    const classes = new Map<string, ReturningClass>();
+    lines.forEach(({ event: lineEvent, order }, index) => {
+      if (lineEvent !== event.id) return;
+      const entry = classes.get(order.className) || { name: order.className, tickets: 0, returningTickets: 0 };
+      entry.tickets += order.quantity;
+      if (returningSet.has(customers.get(groups[index])!)) entry.returningTickets += order.quantity;
+      classes.set(order.className, entry);
+    });
+
+    return {
+      event,
+      customers: attendees.length,
+      returning: returning.length,
+      repeatRate: attendees.length > 0 ? returning.length / attendees.length : 0,
+      overlap: Object.fromEntries(eventIds
+        .filter(id => id !== event.id)
+        .map(id => [id, attendees.filter(customer => customer.events.includes(id)).length])),
+      classes: Array.from(classes.values()).sort((a, b) => b.returningTickets - a.returningTickets || b.tickets - a.tickets)
+    };
+  });
+
+  return { events, customers: customerList };
+}
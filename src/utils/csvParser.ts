@@ -1,3 +1,6 @@
+import { tokenizeCSV, type MalformedRecord } from './csvTokenizer';
+import { resolveColumns, MissingColumnsError, type ColumnMapping, type ColumnKey, type OptionalColumnKey } from './columnMapping';
+
 export interface ParsedOrder {
   orderId: string;
   customerName: string;
@@ -8,6 +11,8 @@ export interface ParsedOrder {
   orderDate: string;
   orderTime: string;
   className: string;
+  // Line item name as exported, before cleanup and class aliases
+  rawClassName: string;
   quantity: number;
   price: number;
   lineItemSubtotal: number;
@@ -15,284 +20,350 @@ export interface ParsedOrder {
   orderTaxAmount: number;
   orderTotalAmount: number;
   paymentMethod?: string;
+  refundStatus: RefundStatus;
+  // Order-level amount refunded to the customer (0 when nothing was refunded)
+  orderRefundedAmount: number;
+  // Promo code applied to the order and the order-level discount it gave, when exported
+  discountCode?: string;
+  orderDiscountAmount?: number;
+}
+
+export type RefundStatus = 'none' | 'partial' | 'refunded' | 'cancelled';
+
+export type SkipReason =
+  | 'malformed'
+  | 'missing-order-id'
+  | 'not-completed'
+  | 'wrong-source'
+  | 'missing-class-name'
+  | 'missing-customer';
+
+export const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  'malformed': 'Malformed record',
+  'missing-order-id': 'Missing order id',
+  'not-completed': 'Order not completed or refunded',
+  'wrong-source': 'Different event / source',
+  'missing-class-name': 'Missing class name',
+  'missing-customer': 'Missing customer data'
+};
+
+export interface RejectedRow {
+  line: number;
+  reason: SkipReason;
+  detail: string;
+  orderId: string;
+  fields: string[];
+}
+
+export interface SubtotalMismatch {
+  orderId: string;
+  // Line of the order's first imported row
+  line: number;
+  orderSubTotal: number;
+  lineItemTotal: number;
+}
+
+export interface ImportDiagnostics {
+  headers: string[];
+  totalRows: number;
+  importedRows: number;
+  importedOrders: number;
+  rejectedRows: RejectedRow[];
+  subtotalMismatches: SubtotalMismatch[];
+}
+
+export interface CSVParseResult {
+  orders: ParsedOrder[];
+  malformedRecords: MalformedRecord[];
+  diagnostics: ImportDiagnostics;
+}
+
+interface OrderTotals {
+  orderSubTotal: number;
+  orderTaxAmount: number;
+  orderTotalAmount: number;
+  sourceName: string;
+  paymentMethod?: string;
+  refundStatus: RefundStatus;
+  orderRefundedAmount: number;
+  discountCode?: string;
+  orderDiscountAmount?: number;
+}
+
+interface CustomerFields {
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string;
+  status: string;
+  orderDate: string;
+  orderTime: string;
+}
+
+interface PendingRow {
+  line: number;
+  fields: string[];
+  orderId: string;
+  customer: CustomerFields;
+  sourceName: string;
+  isValidSource: boolean;
+  className: string;
+  quantity: number;
+  price: number;
+  lineItemSubtotal: number;
 }
 
-export function parseCSVData(csvText: string, filterCity?: 'dc' | 'atlanta' | 'houston'): ParsedOrder[] {
-  const lines = csvText.trim().split('\n');
-  const headers = parseCSVLine(lines[0]);
+export function parseCSVData(
+  csvText: string,
+  // Order sources to keep; empty or omitted keeps every source
+  sourceNames: string[] = [],
+  columnMapping?: ColumnMapping
+): CSVParseResult {
+  const { records, errors } = tokenizeCSV(csvText);
+  if (records.length === 0) {
+    throw new Error('CSV file is empty');
+  }
+
+  const headers = records[0].fields.map(h => h.trim());
+  const malformedRecords = [...errors];
   
   console.log('CSV Headers:', headers);
   
-  // Find column indices
-  const getColumnIndex = (header: string) => {
-    const index = headers.findIndex(h => h.toLowerCase().includes(header.toLowerCase()));
-    if (index === -1) {
-      throw new Error(`Column "${header}" not found in CSV`);
-    }
-    return index;
-  };
+  // Resolve column indices from the header row (and the upload's mapping, if any)
+  const { indices: resolved, missing } = resolveColumns(headers, columnMapping);
+  if (missing.length > 0) {
+    throw new MissingColumnsError(missing, headers);
+  }
+  // Every required column resolved; payment method, refund and discount columns are optional
+  const indices = resolved as Record<Exclude<ColumnKey, OptionalColumnKey>, number> & Partial<Record<OptionalColumnKey, number>>;
 
-  // Try to find payment method column (optional - may not exist in all CSVs)
-  let paymentMethodIndex: number | null = null;
-  try {
-    paymentMethodIndex = getColumnIndex('Payment Method');
-  } catch {
-    // Payment method column not found, that's okay
-    try {
-      paymentMethodIndex = getColumnIndex('Payment method');
-    } catch {
-      // Still not found, will be null
-    }
+  const acceptedSources = new Set(sourceNames);
+  if (acceptedSources.size > 0) {
+    console.log('Filtering for sources:', sourceNames);
+  } else {
+    console.log('Accepting all completed and refunded orders regardless of source name');
   }
 
-  const indices = {
-    orderId: getColumnIndex('Internal order id'),
-    customerName: getColumnIndex('Customer name'),
-    customerEmail: getColumnIndex('Customer email'),
-    customerPhone: getColumnIndex('Customer phone'),
-    status: getColumnIndex('Status'),
-    sourceName: getColumnIndex('Source name'),
-    orderDate: getColumnIndex('Order date'),
-    orderTime: getColumnIndex('Order time'),
-    className: getColumnIndex('Line item Name'),
-    quantity: getColumnIndex('Line item Quantity'),
-    price: getColumnIndex('Line item Price'),
-    lineItemSubtotal: getColumnIndex('Line item Subtotal'),
-    orderSubTotal: getColumnIndex('Sub total'),
-    orderTaxAmount: getColumnIndex('Tax Amount'),
-    orderTotalAmount: getColumnIndex('Total Amount'),
-    paymentMethod: paymentMethodIndex
+  // Single pass: parse every line exactly once, index each order's totals and
+  // main (customer) row, and queue its rows for assembly below
+  const orderTotals = new Map<string, OrderTotals>();
+  const mainRows = new Map<string, CustomerFields>();
+  const pendingRows: PendingRow[] = [];
+  const rejectedRows: RejectedRow[] = errors.map(error => ({
+    line: error.line,
+    reason: 'malformed',
+    detail: error.reason,
+    orderId: '',
+    fields: []
+  }));
+  const reject = (row: PendingRow, reason: SkipReason, detail: string) => {
+    rejectedRows.push({ line: row.line, reason, detail, orderId: row.orderId, fields: row.fields });
   };
 
-  // Determine which source to filter for
-  const isHouston = filterCity === 'houston';
-  const targetSource = filterCity && !isHouston
-    ? `Ebony Fit Weekend - ${filterCity === 'dc' ? 'DC' : 'Atlanta'}`
-    : null;
-
-  // First pass: identify all valid order IDs for the correct city
-  const validOrderIds = new Set<string>();
-  const orderTotals = new Map<string, {
-    orderSubTotal: number;
-    orderTaxAmount: number;
-    orderTotalAmount: number;
-    sourceName: string;
-    paymentMethod?: string;
-  }>();
-  
-  console.log('Starting first pass - looking for valid orders...');
-  if (targetSource) {
-    console.log(`Filtering for source: "${targetSource}"`);
-  } else if (isHouston) {
-    console.log('Houston mode: Accepting all completed orders regardless of source name');
-  }
-  
-  for (let i = 1; i < lines.length; i++) {
-    const values = parseCSVLine(lines[i]);
-    
-    // Skip empty lines or lines with insufficient data
-    // For second pass, we need at least the basic required columns
-    const requiredIndices = [
-      indices.orderId,
-      indices.className,
-      indices.quantity,
-      indices.price,
-      indices.lineItemSubtotal,
-      indices.orderSubTotal,
-      indices.orderTaxAmount,
-      indices.orderTotalAmount
-    ].filter((v): v is number => v !== null && typeof v === 'number');
-    if (requiredIndices.length === 0 || values.length < Math.max(...requiredIndices) + 1) continue;
-    
+  for (let i = 1; i < records.length; i++) {
+    const { fields: values, line } = records[i];
+    if (values.length !== headers.length) {
+      const reason = `Expected ${headers.length} fields but found ${values.length}`;
+      malformedRecords.push({ line, reason });
+      rejectedRows.push({ line, reason: 'malformed', detail: reason, orderId: '', fields: values });
+      continue;
+    }
+
     const orderId = values[indices.orderId]?.trim() || '';
-    const sourceName = values[indices.sourceName]?.trim() || '';
-    const status = values[indices.status]?.trim() || '';
-    
-    // Debug logging for first few rows
-    if (i <= 5) {
-      console.log(`Row ${i}: OrderID="${orderId}", Source="${sourceName}", Status="${status}"`);
+    if (!orderId) {
+      rejectedRows.push({ line, reason: 'missing-order-id', detail: 'Row has no order id', orderId, fields: values });
+      continue;
     }
-    
-    // For Houston, we don't require source name to match - we accept all completed orders
-    // For other cities, we need order ID and source name
-    if (!orderId) continue;
-    if (!isHouston && !sourceName) continue;
-    
-    // For debugging - log all unique source names we encounter
-    if (i <= 20) {
-      console.log(`Source found: "${sourceName}"`);
+
+    const customer: CustomerFields = {
+      customerName: values[indices.customerName]?.trim() || '',
+      customerEmail: values[indices.customerEmail]?.trim() || '',
+      customerPhone: values[indices.customerPhone]?.trim() || '',
+      status: values[indices.status]?.trim() || '',
+      orderDate: values[indices.orderDate]?.trim() || '',
+      orderTime: values[indices.orderTime]?.trim() || ''
+    };
+
+    // The first row carrying a customer name is the order's main row;
+    // continuation lines borrow their customer data from it
+    if (customer.customerName && !mainRows.has(orderId)) {
+      mainRows.set(orderId, customer);
     }
-    
-    // Check for valid city sources
-    // For Houston: accept all completed orders regardless of source name
-    // For other cities: match the target source
-    const isValidSource = isHouston 
-      ? true // Houston accepts all orders
-      : (targetSource ? sourceName === targetSource : 
-         (sourceName === 'Ebony Fit Weekend - DC' || sourceName === 'Ebony Fit Weekend - Atlanta'));
-    
-    if (isValidSource && status.toLowerCase() === 'completed' && orderId) {
-      const actualSourceName = isHouston ? 'Ebony Fit Weekend - Houston' : sourceName;
-      console.log(`Valid order found: ${orderId} for ${actualSourceName}`);
-      validOrderIds.add(orderId);
-      
-      // Get payment method if available
-      const paymentMethod = indices.paymentMethod !== null && indices.paymentMethod !== undefined
+
+    const sourceName = values[indices.sourceName]?.trim() || '';
+    const isValidSource = acceptedSources.size === 0 || acceptedSources.has(sourceName);
+
+    const refundStatus = getRefundStatus(customer.status);
+    if (isValidSource && refundStatus !== null && !orderTotals.has(orderId)) {
+      const paymentMethod = indices.paymentMethod !== undefined
         ? values[indices.paymentMethod]?.trim() || undefined
         : undefined;
-      
-      // Store order-level totals
-      if (!orderTotals.has(orderId)) {
-        orderTotals.set(orderId, {
-          orderSubTotal: parseFloat(values[indices.orderSubTotal]?.replace(/[^0-9.-]/g, '') || '0'),
-          orderTaxAmount: parseFloat(values[indices.orderTaxAmount]?.replace(/[^0-9.-]/g, '') || '0'),
-          orderTotalAmount: parseFloat(values[indices.orderTotalAmount]?.replace(/[^0-9.-]/g, '') || '0'),
-          sourceName: actualSourceName,
-          paymentMethod: paymentMethod
-        });
-      }
+      const orderTotalAmount = parseAmount(values[indices.orderTotalAmount]);
+      const refundedValue = indices.refundedAmount !== undefined
+        ? values[indices.refundedAmount]?.trim()
+        : '';
+      const discountCode = indices.discountCode !== undefined
+        ? values[indices.discountCode]?.trim() || undefined
+        : undefined;
+      const discountValue = indices.discountAmount !== undefined
+        ? values[indices.discountAmount]?.trim()
+        : '';
+
+      orderTotals.set(orderId, {
+        orderSubTotal: parseAmount(values[indices.orderSubTotal]),
+        orderTaxAmount: parseAmount(values[indices.orderTaxAmount]),
+        orderTotalAmount,
+        sourceName,
+        paymentMethod,
+        refundStatus,
+        // Without a refund amount column, a full refund or cancellation returns the whole order
+        orderRefundedAmount: refundedValue
+          ? Math.abs(parseAmount(refundedValue))
+          : (refundStatus === 'refunded' || refundStatus === 'cancelled' ? orderTotalAmount : 0),
+        discountCode,
+        // Some exports show discounts as negative amounts
+        orderDiscountAmount: discountValue ? Math.abs(parseAmount(discountValue)) : undefined
+      });
     }
+
+    pendingRows.push({
+      line,
+      fields: values,
+      orderId,
+      customer,
+      sourceName,
+      isValidSource,
+      className: values[indices.className]?.trim() || '',
+      quantity: parseInt(values[indices.quantity] || '0', 10),
+      price: parseAmount(values[indices.price]),
+      lineItemSubtotal: parseAmount(values[indices.lineItemSubtotal])
+    });
   }
 
-  console.log(`Found ${validOrderIds.size} valid orders`);
-  console.log('Valid order IDs:', Array.from(validOrderIds).slice(0, 10));
+  console.log(`Found ${orderTotals.size} valid orders`);
 
-  // Second pass: collect all line items for valid orders
+  // Assemble line items for valid orders from the index - no rescans
   const orders: ParsedOrder[] = [];
-  
-  console.log('Starting second pass - collecting line items...');
-  
-  for (let i = 1; i < lines.length; i++) {
-    const values = parseCSVLine(lines[i]);
-    
-    // Skip empty lines or lines with insufficient data
-    const allIndices = Object.values(indices).filter((v): v is number => v !== null && typeof v === 'number');
-    if (allIndices.length === 0 || values.length < Math.max(...allIndices) + 1) continue;
-    
-    const orderId = values[indices.orderId]?.trim() || '';
-    
-    // Only process line items that belong to valid orders
-    if (!orderId || !validOrderIds.has(orderId)) continue;
-    
-    const className = values[indices.className]?.trim() || '';
-    if (!className) continue;
-
-    // Get the source name from our stored order data
-    const orderData = orderTotals.get(orderId);
+  const lineItemTotals = new Map<string, { total: number; line: number }>();
+
+  for (const row of pendingRows) {
+    const orderData = orderTotals.get(row.orderId);
+    const mainRow = mainRows.get(row.orderId);
+
     if (!orderData) {
-      if (i <= 10) {
-        console.log(`Skipping line item for order ${orderId} - not in valid orders`);
+      // Continuation lines are often blank, so judge them by their main row
+      const status = row.customer.status || mainRow?.status || '';
+      const hasSource = row.sourceName !== '';
+      if (hasSource ? !row.isValidSource : getRefundStatus(status) !== null) {
+        reject(row, 'wrong-source', `Source "${row.sourceName}" is not part of this event`);
+      } else {
+        reject(row, 'not-completed', `Order status is "${status || 'blank'}"`);
       }
       continue;
     }
-    
-    // Debug logging for first few processed items
-    if (orders.length < 5) {
-      console.log(`Processing line item: ${className} for order ${orderId} with source ${orderData.sourceName}`);
+
+    if (!row.className) {
+      reject(row, 'missing-class-name', 'Line item has no class name');
+      continue;
     }
-    
+
     // For multi-item orders, customer data might be blank on continuation lines
-    let customerName = values[indices.customerName]?.trim() || '';
-    let customerEmail = values[indices.customerEmail]?.trim() || '';
-    let customerPhone = values[indices.customerPhone]?.trim() || '';
-    let status = values[indices.status]?.trim() || '';
-    let orderDate = values[indices.orderDate]?.trim() || '';
-    let orderTime = values[indices.orderTime]?.trim() || '';
-    
-    // If customer data is missing, find it from the main order line
-    if (!customerName || !customerEmail) {
-      for (let j = 1; j < lines.length; j++) {
-        const mainValues = parseCSVLine(lines[j]);
-        const mainRequiredIndices = [
-          indices.orderId,
-          indices.customerName,
-          indices.customerEmail
-        ].filter(v => v !== null && typeof v === 'number') as number[];
-        if (mainValues.length < Math.max(...mainRequiredIndices) + 1) continue;
-        
-        const mainOrderId = mainValues[indices.orderId]?.trim() || '';
-        const mainCustomerName = mainValues[indices.customerName]?.trim() || '';
-        
-        if (mainOrderId === orderId && mainCustomerName) {
-          customerName = mainCustomerName;
-          customerEmail = mainValues[indices.customerEmail]?.trim() || customerEmail;
-          customerPhone = mainValues[indices.customerPhone]?.trim() || '';
-          status = mainValues[indices.status]?.trim() || '';
-          orderDate = mainValues[indices.orderDate]?.trim() || '';
-          orderTime = mainValues[indices.orderTime]?.trim() || '';
-          break;
-        }
-      }
-    }
-    
+    const customer = row.customer.customerName && row.customer.customerEmail
+      ? row.customer
+      : mainRow;
+
     // Skip if we still don't have essential customer data
-    if (!customerName || !customerEmail) continue;
-    
-    const order: ParsedOrder = {
-      orderId: orderId,
-      customerName: customerName,
-      customerEmail: customerEmail,
-      customerPhone: customerPhone,
-      status: status,
+    if (!customer || !customer.customerName || !customer.customerEmail) {
+      reject(row, 'missing-customer', 'No customer name or email on this row or its main order row');
+      continue;
+    }
+
+    const running = lineItemTotals.get(row.orderId);
+    lineItemTotals.set(row.orderId, {
+      total: (running?.total || 0) + row.lineItemSubtotal,
+      line: running?.line || row.line
+    });
+
+    orders.push({
+      orderId: row.orderId,
+      customerName: customer.customerName,
+      customerEmail: customer.customerEmail,
+      customerPhone: customer.customerPhone,
+      status: customer.status,
       sourceName: orderData.sourceName,
-      orderDate: orderDate,
-      orderTime: orderTime,
-      className: cleanClassName(className),
-      quantity: parseInt(values[indices.quantity] || '0', 10),
-      price: parseFloat(values[indices.price]?.replace(/[^0-9.-]/g, '') || '0'),
-      lineItemSubtotal: parseFloat(values[indices.lineItemSubtotal]?.replace(/[^0-9.-]/g, '') || '0'),
+      orderDate: customer.orderDate,
+      orderTime: customer.orderTime,
+      className: cleanClassName(row.className),
+      rawClassName: row.className.replace(/\s+/g, ' '),
+      quantity: row.quantity,
+      price: row.price,
+      lineItemSubtotal: row.lineItemSubtotal,
       orderSubTotal: orderData.orderSubTotal,
       orderTaxAmount: orderData.orderTaxAmount,
       orderTotalAmount: orderData.orderTotalAmount,
-      paymentMethod: orderData.paymentMethod
-    };
-
-    orders.push(order);
+      paymentMethod: orderData.paymentMethod,
+      refundStatus: orderData.refundStatus,
+      orderRefundedAmount: orderData.orderRefundedAmount,
+      discountCode: orderData.discountCode,
+      orderDiscountAmount: orderData.orderDiscountAmount
+    });
   }
 
+  // Flag orders whose imported line items don't add up to the order's sub total
+  const subtotalMismatches: SubtotalMismatch[] = [];
+  lineItemTotals.forEach(({ total, line }, orderId) => {
+    const orderSubTotal = orderTotals.get(orderId)!.orderSubTotal;
+    if (Math.abs(total - orderSubTotal) > 0.01) {
+      subtotalMismatches.push({ orderId, line, orderSubTotal, lineItemTotal: total });
+    }
+  });
+
   console.log(`Final parsed orders: ${orders.length}`);
-  console.log('Sample classes:', orders.slice(0, 5).map(o => o.className));
-  console.log('Sample sources:', orders.slice(0, 5).map(o => o.sourceName));
+  if (rejectedRows.length > 0) {
+    console.warn(`Skipped ${rejectedRows.length} rows (${malformedRecords.length} malformed)`);
+  }
 
-  return orders;
-}
+  malformedRecords.sort((a, b) => a.line - b.line);
+  rejectedRows.sort((a, b) => a.line - b.line);
 
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    const nextChar = line[i + 1];
-    
-    if (char === '"') {
-      if (inQuotes && nextChar === '"') {
-        // Escaped quote
-        current += '"';
-        i++; // Skip next quote
-      } else {
-        // Toggle quote state
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      // End of field
-      result.push(current);
-      current = '';
-    } else {
-      current += char;
+  return {
+    orders,
+    malformedRecords,
+    diagnostics: {
+      headers,
+      totalRows: records.length - 1 + errors.length,
+      importedRows: orders.length,
+      importedOrders: lineItemTotals.size,
+      rejectedRows,
+      subtotalMismatches
     }
+  };
+}
+
+// Orders we import and how much of them was refunded; null for statuses we skip (pending, failed, ...)
+function getRefundStatus(status: string): RefundStatus | null {
+  switch (status.toLowerCase().replace(/[\s_-]+/g, ' ').trim()) {
+    case 'completed':
+      return 'none';
+    case 'partially refunded':
+    case 'partial refund':
+      return 'partial';
+    case 'refunded':
+      return 'refunded';
+    case 'cancelled':
+    case 'canceled':
+      return 'cancelled';
+    default:
+      return null;
   }
-  
-  // Add the last field
-  result.push(current);
-  
-  return result;
+}
+
+export function parseAmount(value: string | undefined): number {
+  return parseFloat(value?.replace(/[^0-9.-]/g, '') || '0');
 }
 
 function cleanClassName(className: string): string {
-  // Remove "@ 24" or similar patterns
-  let cleaned = className.replace(/\s*@\s*\d+\s*$/, '');
+  // Collapse line breaks from quoted multi-line values, then remove "@ 24" or similar patterns
+  let cleaned = className.replace(/\s+/g, ' ').replace(/\s*@\s*\d+\s*$/, '');
   
   // Handle duplicate names with various patterns
   const parts = cleaned.split(' - ');
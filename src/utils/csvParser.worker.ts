@@ -0,0 +1,27 @@
+/// <reference lib="webworker" />
+import { parseCSVData } from './csvParser';
+import { MissingColumnsError } from './columnMapping';
+import type { ParseRequest, ParseResponse } from './csvParserClient';
+
+declare const self: DedicatedWorkerGlobalScope;
+
+// Runs parseCSVData off the main thread so large exports don't freeze the tab
+self.onmessage = (event: MessageEvent<ParseRequest>) => {
+  const { id, csvText, sourceNames, columnMapping } = event.data;
+  let response: ParseResponse;
+
+  try {
+    response = { id, result: parseCSVData(csvText, sourceNames, columnMapping) };
+  } catch (err) {
+    response = {
+      id,
+      error: err instanceof Error ? err.message : 'Failed to parse CSV',
+      // Error subclasses don't survive postMessage, so send what's needed to rebuild it
+      missingColumns: err instanceof MissingColumnsError
+        ? { missing: err.missing, headers: err.headers }
+        : undefined
+    };
+  }
+
+  self.postMessage(response);
+};
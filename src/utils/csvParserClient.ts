@@ -0,0 +1,78 @@
+import { parseCSVData, type CSVParseResult } from './csvParser';
+import { MissingColumnsError, type ColumnKey, type ColumnMapping } from './columnMapping';
+
+export interface ParseRequest {
+  id: number;
+  csvText: string;
+  sourceNames?: string[];
+  columnMapping?: ColumnMapping;
+}
+
+export type ParseResponse =
+  | { id: number; result: CSVParseResult; error?: undefined }
+  | {
+      id: number;
+      error: string;
+      missingColumns?: { missing: ColumnKey[]; headers: string[] };
+      result?: undefined;
+    };
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, {
+  resolve: (result: CSVParseResult) => void;
+  reject: (error: Error) => void;
+}>();
+
+function getWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+
+  if (!worker) {
+    worker = new Worker(new URL('./csvParser.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<ParseResponse>) => {
+      const request = pending.get(event.data.id);
+      if (!request) return;
+      pending.delete(event.data.id);
+
+      const response = event.data;
+      if (response.error === undefined) {
+        request.resolve(response.result);
+      } else if (response.missingColumns) {
+        request.reject(new MissingColumnsError(response.missingColumns.missing, response.missingColumns.headers));
+      } else {
+        request.reject(new Error(response.error));
+      }
+    };
+
+    worker.onerror = (event) => {
+      console.error('CSV parser worker failed:', event.message);
+      pending.forEach(request => request.reject(new Error('CSV parser worker failed')));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+
+  return worker;
+}
+
+// Parse a CSV export in a background worker, falling back to the main thread
+// where workers aren't available
+export function parseCSVDataAsync(
+  csvText: string,
+  sourceNames?: string[],
+  columnMapping?: ColumnMapping
+): Promise<CSVParseResult> {
+  const parserWorker = getWorker();
+  if (!parserWorker) {
+    return Promise.resolve().then(() => parseCSVData(csvText, sourceNames, columnMapping));
+  }
+
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    const request: ParseRequest = { id, csvText, sourceNames, columnMapping };
+    parserWorker.postMessage(request);
+  });
+}
@@ -0,0 +1,105 @@
+export interface CSVRecord {
+  fields: string[];
+  // Physical line (1-based) the record starts on
+  line: number;
+}
+
+export interface MalformedRecord {
+  line: number;
+  reason: string;
+}
+
+export interface TokenizeResult {
+  records: CSVRecord[];
+  errors: MalformedRecord[];
+}
+
+// RFC 4180 tokenizer: quoted fields may contain commas, escaped quotes ("")
+// and line breaks. Accepts \n, \r\n and bare \r line endings and drops a
+// leading UTF-8 BOM. Blank lines are skipped.
+export function tokenizeCSV(text: string): TokenizeResult {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const records: CSVRecord[] = [];
+  const errors: MalformedRecord[] = [];
+
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let fieldWasQuoted = false;
+  let line = 1;
+  let recordLine = 1;
+  let quoteLine = 1;
+  let recordError: string | null = null;
+
+  const endField = () => {
+    fields.push(field);
+    field = '';
+    fieldWasQuoted = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    const isBlank = fields.length === 1 && fields[0] === '' && !recordError;
+    if (!isBlank) {
+      if (recordError) {
+        errors.push({ line: recordLine, reason: recordError });
+      } else {
+        records.push({ fields, line: recordLine });
+      }
+    }
+    fields = [];
+    recordError = null;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          // Escaped quote
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else if (char === '\r' || char === '\n') {
+        // Line break inside a quoted value - keep it, normalized to \n
+        if (char === '\r' && input[i + 1] === '\n') i++;
+        field += '\n';
+        line++;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === ',') {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else if (char === '"' && field === '' && !fieldWasQuoted) {
+      inQuotes = true;
+      fieldWasQuoted = true;
+      quoteLine = line;
+    } else {
+      if (fieldWasQuoted && !recordError) {
+        recordError = `Unexpected character after closing quote on line ${line}`;
+      }
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    // Everything after the opening quote was swallowed into one value
+    recordError = `Unterminated quoted field starting on line ${quoteLine}`;
+  }
+  if (field !== '' || fields.length > 0 || recordError) {
+    endRecord();
+  }
+
+  return { records, errors };
+}
@@ -0,0 +1,184 @@
+import type { ParsedOrder } from './csvParser';
+import { isActiveTicket } from './revenue';
+
+// Emails are matched case-insensitively and without surrounding whitespace
+export function normalizeEmail(email: string): string | null {
+  const normalized = email.trim().toLowerCase();
+  return normalized.includes('@') ? normalized : null;
+}
+
+// Phones are matched on their digits, dropping the US country code; too-short numbers don't match anything
+export function normalizePhone(phone: string): string | null {
+  let digits = phone.replace(/\D/g, '');
+  if (digits.length === 11 && digits.startsWith('1')) digits = digits.slice(1);
+  return digits.length >= 10 ? digits : null;
+}
+
+/*
+  Groups records that share a normalized email or phone, directly or through a chain of other
+  records (A shares an email with B, B shares a phone with C). Returns a group id per record.
+*/
+export function groupByContact(contacts: { email: string; phone: string }[]): number[] {
+  const parent = contacts.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const union = (a: number, b: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+  };
+
+  const firstWith = new Map<string, number>();
+  contacts.forEach((contact, index) => {
+    const keys = [normalizeEmail(contact.email), normalizePhone(contact.phone)]
+      .map((key, position) => key && `${position === 0 ? 'email' : 'phone'}:${key}`)
+      .filter((key): key is string => !!key);
+    keys.forEach(key => {
+      const first = firstWith.get(key);
+      if (first === undefined) {
+        firstWith.set(key, index);
+      } else {
+        union(first, index);
+      }
+    });
+  });
+
+  return contacts.map((_, index) => find(index));
+}
+
+export interface CustomerMerge {
+  id: string;
+  // Normalized email folded into another customer
+  email: string;
+  canonical_email: string;
+}
+
+export function buildMergeLookup(merges: CustomerMerge[]): Map<string, string> {
+  return new Map(merges.map(merge => [merge.email, merge.canonical_email]));
+}
+
+// Follows merge chains (A into B, later B into C) and stops on a cycle rather than looping
+export function resolveEmail(email: string, lookup: Map<string, string>): string {
+  const seen = new Set<string>();
+  let current = email;
+  while (lookup.has(current) && !seen.has(current)) {
+    seen.add(current);
+    current = lookup.get(current)!;
+  }
+  return current;
+}
+
+/*
+  Rewrite every line's email to the customer's resolved identity: normalized, then followed
+  through confirmed merges. Every tab groups customers by email, so they all see one person
+  where the export had two spellings or two addresses.
+*/
+export function applyCustomerMerges(data: ParsedOrder[], merges: CustomerMerge[]): ParsedOrder[] {
+  const lookup = buildMergeLookup(merges);
+  return data.map(order => {
+    const email = normalizeEmail(order.customerEmail);
+    if (!email) return order;
+    const resolved = resolveEmail(email, lookup);
+    return resolved === order.customerEmail ? order : { ...order, customerEmail: resolved };
+  });
+}
+
+// Names are compared on their letters only, so "Jane  O'Neal" and "jane oneal" are the same
+export function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z\s]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Names this close are typos of each other ("Tanya Smith" / "Tanya Smtih")
+const MAX_NAME_DISTANCE = 2;
+
+export type DuplicateReason = 'phone' | 'name';
+
+export interface CustomerIdentity {
+  email: string;
+  name: string;
+  phones: string[];
+  tickets: number;
+}
+
+export interface DuplicateSuggestion {
+  customers: [CustomerIdentity, CustomerIdentity];
+  reasons: DuplicateReason[];
+}
+
+// One identity per resolved email, with the tickets still held under it
+export function collectIdentities(data: ParsedOrder[]): CustomerIdentity[] {
+  const identities = new Map<string, CustomerIdentity>();
+  data.forEach(order => {
+    const email = normalizeEmail(order.customerEmail);
+    if (!email) return;
+    const identity = identities.get(email) || { email, name: order.customerName, phones: [], tickets: 0 };
+    const phone = order.customerPhone.trim();
+    if (phone && !identity.phones.includes(phone)) identity.phones.push(phone);
+    if (isActiveTicket(order)) identity.tickets += order.quantity;
+    identities.set(email, identity);
+  });
+  return Array.from(identities.values());
+}
+
+/*
+  Pairs of customers under different emails who are probably the same person: they share a phone
+  number, or their names are near-identical. Names are only compared when they share a first or
+  last name, so the check stays fast on a full event's customer list.
+*/
+export function suggestDuplicates(identities: CustomerIdentity[]): DuplicateSuggestion[] {
+  const suggestions = new Map<string, DuplicateSuggestion>();
+  const suggest = (a: CustomerIdentity, b: CustomerIdentity, reason: DuplicateReason) => {
+    const [first, second] = a.email < b.email ? [a, b] : [b, a];
+    const key = `${first.email}|${second.email}`;
+    const suggestion = suggestions.get(key) || { customers: [first, second], reasons: [] };
+    if (!suggestion.reasons.includes(reason)) suggestion.reasons.push(reason);
+    suggestions.set(key, suggestion);
+  };
+  const eachPair = (groups: Map<string, CustomerIdentity[]>, visit: (a: CustomerIdentity, b: CustomerIdentity) => void) => {
+    groups.forEach(group => {
+      for (let i = 0; i < group.length; i++) {
+        for (let j = i + 1; j < group.length; j++) visit(group[i], group[j]);
+      }
+    });
+  };
+
+  const byPhone = new Map<string, CustomerIdentity[]>();
+  const byNamePart = new Map<string, CustomerIdentity[]>();
+  identities.forEach(identity => {
+    new Set(identity.phones.map(normalizePhone)).forEach(phone => {
+      if (phone) byPhone.set(phone, [...(byPhone.get(phone) || []), identity]);
+    });
+    const parts = normalizeName(identity.name).split(' ').filter(Boolean);
+    new Set([`first:${parts[0]}`, `last:${parts[parts.length - 1]}`]).forEach(part => {
+      if (parts.length > 0) byNamePart.set(part, [...(byNamePart.get(part) || []), identity]);
+    });
+  });
+
+  eachPair(byPhone, (a, b) => suggest(a, b, 'phone'));
+  eachPair(byNamePart, (a, b) => {
+    if (editDistance(normalizeName(a.name), normalizeName(b.name)) <= MAX_NAME_DISTANCE) suggest(a, b, 'name');
+  });
+
+  return Array.from(suggestions.values()).sort((a, b) =>
+    b.reasons.length - a.reasons.length ||
+    Number(b.reasons.includes('phone')) - Number(a.reasons.includes('phone')) ||
+    a.customers[0].name.localeCompare(b.customers[0].name)
+  );
+}
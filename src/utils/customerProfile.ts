@@ -0,0 +1,129 @@
+import type { ParsedOrder, RefundStatus } from './csvParser';
+import { isActiveTicket } from './revenue';
+import { buildMergeLookup, normalizeEmail, normalizePhone, resolveEmail, type CustomerMerge } from './customerIdentity';
+import { orderDateKey } from './timeline';
+import { normalizeTimeInput } from './schedule';
+
+export interface CustomerContact {
+  name: string;
+  email: string;
+  phone: string;
+}
+
+export interface CustomerOrder {
+  orderId: string;
+  orderDate: string;
+  orderTime: string;
+  status: string;
+  paymentMethod?: string;
+  discountCode?: string;
+  totalAmount: number;
+  refundedAmount: number;
+  // Every line item of the order, refunded and cancelled ones included
+  lines: ParsedOrder[];
+}
+
+export interface CustomerPurchases {
+  orders: CustomerOrder[];
+  // Tickets and classes still held
+  tickets: number;
+  classes: string[];
+  totalSpent: number;
+  totalRefunded: number;
+}
+
+export const REFUND_STATUS_LABELS: Record<RefundStatus, string> = {
+  none: 'Active',
+  partial: 'Partially refunded',
+  refunded: 'Refunded',
+  cancelled: 'Cancelled'
+};
+
+const emailResolver = (merges: CustomerMerge[]) => {
+  const lookup = buildMergeLookup(merges);
+  return (value: string) => {
+    const email = normalizeEmail(value);
+    return email && resolveEmail(email, lookup);
+  };
+};
+
+/*
+  A line belongs to the customer when its email resolves to theirs through confirmed merges.
+  A shared phone alone isn't enough: families and gift buyers share numbers.
+*/
+export function contactMatcher(contact: { email: string }, merges: CustomerMerge[]): (order: ParsedOrder) => boolean {
+  const resolve = emailResolver(merges);
+  const email = resolve(contact.email);
+  return order => !!email && resolve(order.customerEmail) === email;
+}
+
+// Other customers with the same phone number, to offer as possible duplicates rather than fold in
+export function findSharedPhoneContacts(data: ParsedOrder[], contact: CustomerContact, merges: CustomerMerge[]): CustomerContact[] {
+  const phone = normalizePhone(contact.phone);
+  if (!phone) return [];
+  const resolve = emailResolver(merges);
+  const email = resolve(contact.email);
+
+  const others = new Map<string, CustomerContact>();
+  data.forEach(order => {
+    const otherEmail = resolve(order.customerEmail);
+    if (!otherEmail || otherEmail === email || others.has(otherEmail)) return;
+    if (normalizePhone(order.customerPhone) !== phone) return;
+    others.set(otherEmail, { name: order.customerName, email: order.customerEmail, phone: order.customerPhone });
+  });
+  return Array.from(others.values());
+}
+
+// YYYY-MM-DD HH:MM, so M/D/YYYY dates and 12-hour times sort in time order; unreadable ones sort oldest
+const purchaseSortKey = (order: CustomerOrder) =>
+  `${orderDateKey(order.orderDate) ?? ''} ${normalizeTimeInput(order.orderTime) ?? ''}`;
+
+/*
+  Every order a customer placed in a dataset, newest first, with all its line items so refunded
+  and cancelled tickets still show up when someone asks what happened to them. Amounts are the
+  order-level totals the customer was charged, counted once per order.
+*/
+export function buildCustomerPurchases(data: ParsedOrder[], contact: CustomerContact, merges: CustomerMerge[]): CustomerPurchases {
+  const matches = contactMatcher(contact, merges);
+  const orders = new Map<string, CustomerOrder>();
+
+  data.filter(matches).forEach(line => {
+    const order = orders.get(line.orderId) || {
+      orderId: line.orderId,
+      orderDate: line.orderDate,
+      orderTime: line.orderTime,
+      status: line.status,
+      paymentMethod: line.paymentMethod,
+      discountCode: line.discountCode,
+      totalAmount: line.orderTotalAmount,
+      refundedAmount: line.orderRefundedAmount,
+      lines: []
+    };
+    order.lines.push(line);
+    orders.set(line.orderId, order);
+  });
+
+  const orderList = Array.from(orders.values()).sort((a, b) => purchaseSortKey(b).localeCompare(purchaseSortKey(a)));
+  const activeLines = orderList.flatMap(order => order.lines).filter(isActiveTicket);
+
+  return {
+    orders: orderList,
+    tickets: activeLines.reduce((sum, line) => sum + line.quantity, 0),
+    classes: Array.from(new Set(activeLines.map(line => line.className))).sort(),
+    totalSpent: orderList.reduce((sum, order) => sum + order.totalAmount, 0),
+    totalRefunded: orderList.reduce((sum, order) => sum + order.refundedAmount, 0)
+  };
+}
+
+// Plain-text recap for pasting into a reply to the customer
+export function formatPurchaseSummary(contact: CustomerContact, eventLabel: string, purchases: CustomerPurchases): string {
+  return [
+    `${contact.name} — ${eventLabel}`,
+    ...purchases.orders.flatMap(order => [
+      `Order ${order.orderId} (${order.orderDate} ${order.orderTime}) — $${order.totalAmount.toFixed(2)}${order.paymentMethod ? ` via ${order.paymentMethod}` : ''}`,
+      ...order.lines.map(line =>
+        `  ${line.quantity} × ${line.className}${line.refundStatus === 'none' ? '' : ` (${REFUND_STATUS_LABELS[line.refundStatus]})`}`
+      )
+    ])
+  ].join('\n');
+}
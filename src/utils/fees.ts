@@ -0,0 +1,55 @@
+import type { OrderMetrics } from './metrics';
+
+export interface PaymentFee {
+  id: string;
+  city: string;
+  // Payment method as it appears in the order export
+  method: string;
+  // Percentage of each charge, e.g. 2.9 for 2.9%
+  percent_fee: number;
+  fixed_fee: number;
+}
+
+export interface MethodFees {
+  fees: number;
+  // Order totals as charged and refunded, independent of the allocation strategy
+  charged: number;
+  refunded: number;
+  // What the processor should pay out: charged, less refunds and fees, as in payout reconciliation
+  payout: number;
+  // Orders whose method has no fee configured
+  unconfiguredOrders: number;
+}
+
+// Fees are matched to payment methods case-insensitively
+export function buildFeeLookup(fees: PaymentFee[]): Map<string, PaymentFee> {
+  return new Map(fees.map(fee => [fee.method.trim().toLowerCase(), fee]));
+}
+
+export function findPaymentFee(lookup: Map<string, PaymentFee>, method: string): PaymentFee | undefined {
+  return lookup.get(method.trim().toLowerCase());
+}
+
+// Processors keep their fee on every charged order, even when it's later refunded.
+// Each order's fee is rounded to the cent, as the processor charges it.
+export function orderProcessingFee(order: Pick<OrderMetrics, 'totalAmount'>, fee?: PaymentFee): number {
+  if (!fee || order.totalAmount <= 0) return 0;
+  return Math.round((order.totalAmount * (fee.percent_fee / 100) + fee.fixed_fee) * 100) / 100;
+}
+
+export function feesByMethod(orders: OrderMetrics[], fees: PaymentFee[]): Map<string, MethodFees> {
+  const lookup = buildFeeLookup(fees);
+  const totals = new Map<string, MethodFees>();
+  orders.forEach(order => {
+    const fee = findPaymentFee(lookup, order.paymentMethod);
+    const methodTotals = totals.get(order.paymentMethod) || { fees: 0, charged: 0, refunded: 0, payout: 0, unconfiguredOrders: 0 };
+    const orderFee = orderProcessingFee(order, fee);
+    methodTotals.fees += orderFee;
+    methodTotals.charged += order.totalAmount;
+    methodTotals.refunded += order.refundedAmount;
+    methodTotals.payout += order.totalAmount - order.refundedAmount - orderFee;
+    if (!fee && order.totalAmount > 0) methodTotals.unconfiguredOrders += 1;
+    totals.set(order.paymentMethod, methodTotals);
+  });
+  return totals;
+}
@@ -0,0 +1,147 @@
+import type { ParsedOrder } from './csvParser';
+import { computeMetrics, type DatasetMetrics } from './metrics';
+import type { AllocationStrategy } from './revenue';
+import { buildSalesTimeline, type TimelinePoint } from './timeline';
+import { buildPacingCurve, pacingAt, type PacingPoint } from './pacing';
+import type { EventConfig } from '../types/event';
+
+// The range also covers selling this many days earlier or later than the past curve did
+export const FORECAST_TIMING_WINDOW = 7;
+
+export interface HistoricalCurve {
+  event: EventConfig;
+  curve: PacingPoint[];
+  final: TimelinePoint;
+}
+
+export interface ForecastRange {
+  low: number;
+  expected: number;
+  high: number;
+}
+
+export interface ForecastBasis {
+  event: EventConfig;
+  // Share of that event's final tickets and revenue it had sold at the same point
+  ticketShare: number;
+  revenueShare: number;
+}
+
+export interface ClassForecast {
+  tickets: ForecastRange;
+  revenue: ForecastRange;
+  // The ticket forecast was held to the class's capacity
+  capped: boolean;
+}
+
+export interface SalesForecast {
+  // Days before the event as of the latest sale in the upload
+  daysBefore: number;
+  tickets: ForecastRange;
+  revenue: ForecastRange;
+  classes: Record<string, ClassForecast>;
+  basis: ForecastBasis[];
+}
+
+// A past event's cumulative sales curve, revenue allocated the same way as the current event's
+export function buildHistoricalCurve(event: EventConfig, orders: ParsedOrder[], strategy: AllocationStrategy): HistoricalCurve | null {
+  if (!event.event_date) return null;
+  const curve = buildPacingCurve(buildSalesTimeline(computeMetrics(orders, [], strategy), 'none'), event.event_date);
+  const last = curve[curve.length - 1];
+  if (!last || last.tickets <= 0) return null;
+  return { event, curve, final: { tickets: last.tickets, revenue: last.revenue } };
+}
+
+const share = (curve: HistoricalCurve, daysBefore: number) => {
+  const point = pacingAt(curve.curve, daysBefore);
+  return {
+    tickets: point.tickets / curve.final.tickets,
+    revenue: curve.final.revenue > 0 ? point.revenue / curve.final.revenue : 0
+  };
+};
+
+// Growth factors (final / to date) implied by each curve, at the same point and a timing window either side
+const growthRange = (factors: { expected: number[]; all: number[] }): ForecastRange | null => {
+  if (factors.expected.length === 0) return null;
+  const expected = factors.expected.reduce((sum, factor) => sum + factor, 0) / factors.expected.length;
+  return {
+    low: Math.min(expected, ...factors.all),
+    expected,
+    high: Math.max(expected, ...factors.all)
+  };
+};
+
+const scale = (value: number, growth: ForecastRange): ForecastRange => ({
+  low: value * growth.low,
+  expected: value * growth.expected,
+  high: value * growth.high
+});
+
+/*
+  Assumes the event sells the rest of the way like past events did: if a past event had sold 60%
+  of its final tickets this many days out, today's tickets are 60% of the final count. With several
+  past curves the forecast averages them. The range spans every curve, read up to a week either
+  side of today in case this event is selling earlier or later than they did. Classes grow by the
+  event's factor and stop at their capacity. Nothing is forecast once the event date has passed.
+*/
+export function forecastSales(metrics: DatasetMetrics, eventDate: string | null, curves: HistoricalCurve[]): SalesForecast | null {
+  if (!eventDate || curves.length === 0) return null;
+
+  const current = buildPacingCurve(buildSalesTimeline(metrics, 'none'), eventDate);
+  const latest = current[current.length - 1];
+  if (!latest || latest.daysBefore < 0) return null;
+
+  const ticketFactors = { expected: [] as number[], all: [] as number[] };
+  const revenueFactors = { expected: [] as number[], all: [] as number[] };
+  const basis: ForecastBasis[] = [];
+
+  curves.forEach(curve => {
+    const atSamePoint = share(curve, latest.daysBefore);
+    // A curve that hadn't started selling yet says nothing about this point
+    if (atSamePoint.tickets <= 0) return;
+    basis.push({ event: curve.event, ticketShare: atSamePoint.tickets, revenueShare: atSamePoint.revenue });
+
+    ticketFactors.expected.push(1 / atSamePoint.tickets);
+    if (atSamePoint.revenue > 0) revenueFactors.expected.push(1 / atSamePoint.revenue);
+
+    [latest.daysBefore - FORECAST_TIMING_WINDOW, latest.daysBefore + FORECAST_TIMING_WINDOW].forEach(daysBefore => {
+      const shifted = share(curve, Math.max(0, daysBefore));
+      if (shifted.tickets > 0) ticketFactors.all.push(1 / shifted.tickets);
+      if (shifted.revenue > 0) revenueFactors.all.push(1 / shifted.revenue);
+    });
+  });
+
+  const ticketGrowth = growthRange(ticketFactors);
+  if (!ticketGrowth) return null;
+  const revenueGrowth = growthRange(revenueFactors) || ticketGrowth;
+
+  const classes: Record<string, ClassForecast> = {};
+  metrics.classes.forEach(cls => {
+    const tickets = scale(cls.quantity, ticketGrowth);
+    const capacity = cls.capacity?.capacity;
+    const capped = capacity !== undefined && tickets.high > capacity;
+    if (capacity !== undefined) {
+      const limit = Math.max(capacity, cls.quantity);
+      tickets.low = Math.min(tickets.low, limit);
+      tickets.expected = Math.min(tickets.expected, limit);
+      tickets.high = Math.min(tickets.high, limit);
+    }
+    // Revenue follows the tickets, so a capped class stops growing its revenue too
+    const revenue = capped && cls.quantity > 0
+      ? {
+          low: cls.revenue * (tickets.low / cls.quantity),
+          expected: cls.revenue * (tickets.expected / cls.quantity),
+          high: cls.revenue * (tickets.high / cls.quantity)
+        }
+      : scale(cls.revenue, revenueGrowth);
+    classes[cls.name] = { tickets, revenue, capped };
+  });
+
+  return {
+    daysBefore: latest.daysBefore,
+    tickets: scale(latest.tickets, ticketGrowth),
+    revenue: scale(latest.revenue, revenueGrowth),
+    classes,
+    basis
+  };
+}
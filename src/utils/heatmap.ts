@@ -0,0 +1,70 @@
+import type { DatasetMetrics } from './metrics';
+import { isActiveTicket } from './revenue';
+import { normalizeTimeInput } from './schedule';
+import { orderDateKey } from './timeline';
+import { zonedParts, zonedTimeToInstant } from './timezone';
+
+export interface HeatmapFilters {
+  // null shows every class or payment method
+  className: string | null;
+  paymentMethod: string | null;
+}
+
+export interface HeatmapCell {
+  orders: number;
+  tickets: number;
+}
+
+export interface PurchaseHeatmap {
+  // cells[weekday][hour], weekday 0 = Sunday
+  cells: HeatmapCell[][];
+  totalOrders: number;
+  maxOrders: number;
+  // Orders left off because their date or time couldn't be read
+  untimedOrders: number;
+}
+
+/*
+  Orders holding at least one ticket that matches the filters, bucketed by the weekday and hour
+  they were placed. Export timestamps are read in the export's timezone and shown in the event's.
+  With a class filter, tickets only count that class's line items.
+*/
+export function buildPurchaseHeatmap(
+  metrics: DatasetMetrics,
+  filters: HeatmapFilters,
+  exportTimeZone: string,
+  eventTimeZone: string
+): PurchaseHeatmap {
+  const orders = new Map<string, { date: string; time: string; tickets: number }>();
+  metrics.classes.forEach(cls => {
+    if (filters.className && cls.name !== filters.className) return;
+    cls.orders.forEach(order => {
+      if (!isActiveTicket(order)) return;
+      if (filters.paymentMethod && (order.paymentMethod || 'Unknown') !== filters.paymentMethod) return;
+      const entry = orders.get(order.orderId) || { date: order.orderDate, time: order.orderTime, tickets: 0 };
+      entry.tickets += order.quantity;
+      orders.set(order.orderId, entry);
+    });
+  });
+
+  const cells = Array.from({ length: 7 }, () => Array.from({ length: 24 }, () => ({ orders: 0, tickets: 0 })));
+  let untimedOrders = 0;
+  orders.forEach(({ date, time, tickets }) => {
+    const day = orderDateKey(date);
+    const clock = normalizeTimeInput(time);
+    if (!day || !clock) {
+      untimedOrders += 1;
+      return;
+    }
+    const { weekday, hour } = zonedParts(zonedTimeToInstant(day, clock, exportTimeZone), eventTimeZone);
+    cells[weekday][hour].orders += 1;
+    cells[weekday][hour].tickets += tickets;
+  });
+
+  return {
+    cells,
+    totalOrders: orders.size - untimedOrders,
+    maxOrders: Math.max(0, ...cells.flat().map(cell => cell.orders)),
+    untimedOrders
+  };
+}
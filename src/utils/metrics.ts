@@ -0,0 +1,296 @@
+import type { ParsedOrder } from './csvParser';
+import { allocateLineItem, isActiveTicket, type AllocationStrategy } from './revenue';
+import { buildCatalogLookup, findCatalogClass, getCapacityInfo, type CapacityInfo, type CatalogClass } from './classCatalog';
+import { analyzeBundles, bundleRevenueShifts, isBundleClass, type BundleAnalysis } from './bundles';
+
+export interface ClassMetrics {
+  // The catalog's spelling when the class is catalogued
+  name: string;
+  isBundle: boolean;
+  quantity: number;
+  refundedTickets: number;
+  grossRevenue: number;
+  refunds: number;
+  revenue: number;
+  // Bundle revenue moved in from redeemed slots (negative on the bundles themselves)
+  bundleRevenue: number;
+  customers: Set<string>;
+  uniqueCustomers: number;
+  orders: ParsedOrder[];
+  capacity: CapacityInfo | null;
+}
+
+export interface CustomerMetrics {
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string;
+  // Classes the customer still holds tickets for
+  classes: Set<string>;
+  orders: ParsedOrder[];
+  tickets: number;
+  grossRevenue: number;
+  refunds: number;
+  revenue: number;
+}
+
+export interface PaymentMethodMetrics {
+  method: string;
+  // Orders with at least one ticket still held
+  orderIds: Set<string>;
+  tickets: number;
+  grossRevenue: number;
+  refunds: number;
+  revenue: number;
+}
+
+export interface PromoCodeMetrics {
+  // Codes are grouped case-insensitively and shown upper-cased
+  code: string;
+  // Orders with at least one ticket still held
+  orderIds: Set<string>;
+  customers: Set<string>;
+  tickets: number;
+  // Discount given on those orders
+  discount: number;
+  grossRevenue: number;
+  refunds: number;
+  revenue: number;
+  // Tickets still held per class
+  classes: Record<string, number>;
+}
+
+export interface OrderMetrics {
+  orderId: string;
+  customerName: string;
+  customerEmail: string;
+  orderDate: string;
+  orderTime: string;
+  paymentMethod: string;
+  refundStatus: ParsedOrder['refundStatus'];
+  discountCode?: string;
+  discount: number;
+  // Order-level amounts as charged and refunded, independent of the allocation strategy
+  totalAmount: number;
+  refundedAmount: number;
+  tickets: number;
+  classNames: string[];
+  grossRevenue: number;
+  refunds: number;
+  revenue: number;
+}
+
+export interface MetricsTotals {
+  grossRevenue: number;
+  refunds: number;
+  revenue: number;
+  tickets: number;
+  refundedTickets: number;
+  // Orders and customers still holding at least one ticket
+  orders: number;
+  customers: number;
+  refundCounts: { refunded: number; partial: number; cancelled: number };
+}
+
+export interface DatasetMetrics {
+  strategy: AllocationStrategy;
+  classes: ClassMetrics[];
+  customers: CustomerMetrics[];
+  paymentMethods: PaymentMethodMetrics[];
+  promoCodes: PromoCodeMetrics[];
+  orders: OrderMetrics[];
+  bundles: BundleAnalysis;
+  totals: MetricsTotals;
+}
+
+const emptyClass = (name: string, isBundle: boolean): ClassMetrics => ({
+  name,
+  isBundle,
+  quantity: 0,
+  refundedTickets: 0,
+  grossRevenue: 0,
+  refunds: 0,
+  revenue: 0,
+  bundleRevenue: 0,
+  customers: new Set<string>(),
+  uniqueCustomers: 0,
+  orders: [],
+  capacity: null
+});
+
+/*
+  Every revenue figure on the dashboard comes from here, so all tabs agree. Line items are
+  allocated once with the chosen strategy, then rolled up by class, customer, payment method,
+  promo code and order. Redeemed bundle slots move their share of bundle revenue onto the class
+  they were used for, so class revenue still adds up to the total.
+*/
+export function computeMetrics(data: ParsedOrder[], catalog: CatalogClass[], strategy: AllocationStrategy): DatasetMetrics {
+  const catalogLookup = buildCatalogLookup(catalog);
+  const classes = new Map<string, ClassMetrics>();
+  const customers = new Map<string, CustomerMetrics>();
+  const paymentMethods = new Map<string, PaymentMethodMetrics>();
+  const promoCodes = new Map<string, PromoCodeMetrics>();
+  const orders = new Map<string, OrderMetrics>();
+
+  // Every active catalog class shows up, even before it sells
+  catalog.filter(entry => entry.is_active).forEach(entry => {
+    classes.set(entry.name, emptyClass(entry.name, isBundleClass(entry.name, catalogLookup)));
+  });
+
+  data.forEach(order => {
+    const active = isActiveTicket(order);
+    const { gross, refunds, net } = allocateLineItem(order, strategy);
+    // Sales land on the catalog's spelling of the class name
+    const className = findCatalogClass(catalogLookup, order.className)?.name || order.className;
+
+    const cls = classes.get(className) || emptyClass(className, isBundleClass(className, catalogLookup));
+    if (active) {
+      cls.quantity += order.quantity;
+      cls.customers.add(order.customerEmail);
+    } else {
+      cls.refundedTickets += order.quantity;
+    }
+    cls.grossRevenue += gross;
+    cls.refunds += refunds;
+    cls.revenue += net;
+    cls.orders.push(order);
+    classes.set(className, cls);
+
+    const email = order.customerEmail.toLowerCase();
+    const customer = customers.get(email) || {
+      customerName: order.customerName,
+      customerEmail: order.customerEmail,
+      customerPhone: order.customerPhone,
+      classes: new Set<string>(),
+      orders: [],
+      tickets: 0,
+      grossRevenue: 0,
+      refunds: 0,
+      revenue: 0
+    };
+    if (active) {
+      customer.classes.add(className);
+      customer.tickets += order.quantity;
+    }
+    customer.orders.push(order);
+    customer.grossRevenue += gross;
+    customer.refunds += refunds;
+    customer.revenue += net;
+    customers.set(email, customer);
+
+    const method = order.paymentMethod || 'Unknown';
+    const payment = paymentMethods.get(method) || {
+      method,
+      orderIds: new Set<string>(),
+      tickets: 0,
+      grossRevenue: 0,
+      refunds: 0,
+      revenue: 0
+    };
+    if (active) {
+      payment.orderIds.add(order.orderId);
+      payment.tickets += order.quantity;
+    }
+    payment.grossRevenue += gross;
+    payment.refunds += refunds;
+    payment.revenue += net;
+    paymentMethods.set(method, payment);
+
+    const isFirstLine = !orders.has(order.orderId);
+    const summary = orders.get(order.orderId) || {
+      orderId: order.orderId,
+      customerName: order.customerName,
+      customerEmail: order.customerEmail,
+      orderDate: order.orderDate,
+      orderTime: order.orderTime,
+      paymentMethod: method,
+      refundStatus: order.refundStatus,
+      discountCode: order.discountCode,
+      discount: order.orderDiscountAmount || 0,
+      totalAmount: order.orderTotalAmount,
+      refundedAmount: order.orderRefundedAmount,
+      tickets: 0,
+      classNames: [],
+      grossRevenue: 0,
+      refunds: 0,
+      revenue: 0
+    };
+    if (active) {
+      summary.tickets += order.quantity;
+    }
+    if (!summary.classNames.includes(className)) {
+      summary.classNames.push(className);
+    }
+    summary.grossRevenue += gross;
+    summary.refunds += refunds;
+    summary.revenue += net;
+    orders.set(order.orderId, summary);
+
+    if (order.discountCode) {
+      const code = order.discountCode.toUpperCase();
+      const promo = promoCodes.get(code) || {
+        code,
+        orderIds: new Set<string>(),
+        customers: new Set<string>(),
+        tickets: 0,
+        discount: 0,
+        grossRevenue: 0,
+        refunds: 0,
+        revenue: 0,
+        classes: {}
+      };
+      if (active) {
+        promo.orderIds.add(order.orderId);
+        promo.customers.add(email);
+        promo.tickets += order.quantity;
+        promo.classes[className] = (promo.classes[className] || 0) + order.quantity;
+        // The discount is order-level, so count it once per order
+        if (isFirstLine) promo.discount += order.orderDiscountAmount || 0;
+      }
+      promo.grossRevenue += gross;
+      promo.refunds += refunds;
+      promo.revenue += net;
+      promoCodes.set(code, promo);
+    }
+  });
+
+  const bundles = analyzeBundles(data, catalog, strategy);
+  bundleRevenueShifts(bundles).forEach((amount, name) => {
+    const cls = classes.get(findCatalogClass(catalogLookup, name)?.name || name);
+    if (!cls) return;
+    cls.bundleRevenue += amount;
+    cls.grossRevenue += amount;
+    cls.revenue += amount;
+  });
+
+  const classList = Array.from(classes.values()).map(cls => ({
+    ...cls,
+    uniqueCustomers: cls.customers.size,
+    capacity: getCapacityInfo(cls.quantity, findCatalogClass(catalogLookup, cls.name))
+  }));
+  const orderList = Array.from(orders.values());
+  const customerList = Array.from(customers.values());
+
+  return {
+    strategy,
+    classes: classList,
+    customers: customerList,
+    paymentMethods: Array.from(paymentMethods.values()),
+    promoCodes: Array.from(promoCodes.values()),
+    orders: orderList,
+    bundles,
+    totals: {
+      grossRevenue: orderList.reduce((sum, order) => sum + order.grossRevenue, 0),
+      refunds: orderList.reduce((sum, order) => sum + order.refunds, 0),
+      revenue: orderList.reduce((sum, order) => sum + order.revenue, 0),
+      tickets: classList.reduce((sum, cls) => sum + cls.quantity, 0),
+      refundedTickets: classList.reduce((sum, cls) => sum + cls.refundedTickets, 0),
+      orders: orderList.filter(order => order.tickets > 0).length,
+      customers: customerList.filter(customer => customer.tickets > 0).length,
+      refundCounts: {
+        refunded: orderList.filter(order => order.refundStatus === 'refunded').length,
+        partial: orderList.filter(order => order.refundStatus === 'partial').length,
+        cancelled: orderList.filter(order => order.refundStatus === 'cancelled').length
+      }
+    }
+  };
+}
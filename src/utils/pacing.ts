@@ -0,0 +1,64 @@
+import type { SalesTimeline, TimelinePoint } from './timeline';
+
+export interface PacingPoint extends TimelinePoint {
+  // 0 on the event date, negative for sales after it started
+  daysBefore: number;
+}
+
+export interface PacingSnapshot {
+  daysBefore: number;
+  current: TimelinePoint;
+  // Where the previous event stood the same number of days out
+  previous: TimelinePoint;
+  previousFinal: TimelinePoint;
+  // Current minus previous, as a share of previous (null when previous had no sales yet)
+  ticketsChange: number | null;
+  revenueChange: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function daysBeforeEvent(date: string, eventDate: string): number {
+  return Math.round((Date.parse(`${eventDate}T00:00:00Z`) - Date.parse(`${date}T00:00:00Z`)) / DAY_MS);
+}
+
+// Cumulative sales keyed by days before the event, furthest out first
+export function buildPacingCurve(timeline: SalesTimeline, eventDate: string): PacingPoint[] {
+  return timeline.days.map(day => ({
+    daysBefore: daysBeforeEvent(day.date, eventDate),
+    tickets: day.cumulativeTickets,
+    revenue: day.cumulativeRevenue
+  }));
+}
+
+// Cumulative sales as of a number of days out: the last point at or before it
+export function pacingAt(curve: PacingPoint[], daysBefore: number): TimelinePoint {
+  let point: TimelinePoint = { tickets: 0, revenue: 0 };
+  for (const entry of curve) {
+    if (entry.daysBefore < daysBefore) break;
+    point = { tickets: entry.tickets, revenue: entry.revenue };
+  }
+  return point;
+}
+
+const change = (current: number, previous: number) => previous > 0 ? (current - previous) / previous : null;
+
+/*
+  Compares the two curves at the current event's latest sale, the closest thing to "now" the
+  upload knows about. The previous event's final totals come from its last sale.
+*/
+export function comparePacing(current: PacingPoint[], previous: PacingPoint[]): PacingSnapshot | null {
+  if (current.length === 0) return null;
+
+  const latest = current[current.length - 1];
+  const atSamePoint = pacingAt(previous, latest.daysBefore);
+  const last = previous[previous.length - 1];
+  return {
+    daysBefore: latest.daysBefore,
+    current: { tickets: latest.tickets, revenue: latest.revenue },
+    previous: atSamePoint,
+    previousFinal: last ? { tickets: last.tickets, revenue: last.revenue } : { tickets: 0, revenue: 0 },
+    ticketsChange: change(latest.tickets, atSamePoint.tickets),
+    revenueChange: change(latest.revenue, atSamePoint.revenue)
+  };
+}
@@ -0,0 +1,163 @@
+import { tokenizeCSV } from './csvTokenizer';
+import { parseAmount } from './csvParser';
+import { buildFeeLookup, findPaymentFee, orderProcessingFee, type PaymentFee } from './fees';
+import type { OrderMetrics } from './metrics';
+import { normalizeDateInput } from './schedule';
+
+// Differences under a cent are rounding, not a reconciliation problem
+export const PAYOUT_TOLERANCE = 0.01;
+
+export interface PayoutReportRow {
+  line: number;
+  date: string;
+  // null when the report has no payment method column
+  method: string | null;
+  amount: number;
+  fees: number | null;
+}
+
+export interface PayoutReport {
+  rows: PayoutReportRow[];
+  hasMethod: boolean;
+  hasFees: boolean;
+  // Lines without a readable date or amount
+  skippedLines: number[];
+}
+
+export type ReconciliationStatus = 'matched' | 'mismatch' | 'missing-payout' | 'unexpected-payout';
+
+export interface ReconciliationRow {
+  date: string;
+  // null when the report is matched by date only
+  method: string | null;
+  orders: number;
+  charged: number;
+  refunded: number;
+  fees: number;
+  expected: number;
+  reported: number | null;
+  reportedFees: number | null;
+  difference: number;
+  status: ReconciliationStatus;
+}
+
+const HEADER_NAMES = {
+  date: ['date', 'payout date', 'arrival date', 'transaction date', 'created', 'created date'],
+  method: ['payment method', 'method', 'payment type', 'type', 'source'],
+  amount: ['net', 'net amount', 'amount', 'payout', 'payout amount', 'total'],
+  fees: ['fee', 'fees', 'processing fee', 'processing fees']
+};
+
+// Order and payout dates both come down to YYYY-MM-DD; times after the date are ignored
+export function normalizeReportDate(value: string): string {
+  const datePart = value.trim().split(/[ T]/)[0];
+  return normalizeDateInput(datePart) || datePart;
+}
+
+export function parsePayoutReport(csvText: string): PayoutReport {
+  const { records } = tokenizeCSV(csvText);
+  if (records.length < 2) {
+    throw new Error('The payout report has no rows.');
+  }
+
+  const headers = records[0].fields.map(header => header.trim().toLowerCase());
+  const columnIndex = (names: string[]) => {
+    for (const name of names) {
+      const index = headers.indexOf(name);
+      if (index !== -1) return index;
+    }
+    return -1;
+  };
+  const columns = {
+    date: columnIndex(HEADER_NAMES.date),
+    method: columnIndex(HEADER_NAMES.method),
+    amount: columnIndex(HEADER_NAMES.amount),
+    fees: columnIndex(HEADER_NAMES.fees)
+  };
+  if (columns.date === -1 || columns.amount === -1) {
+    throw new Error('The payout report needs a "Date" column and a "Net" or "Amount" column, plus an optional "Payment Method" and "Fees".');
+  }
+
+  const rows: PayoutReportRow[] = [];
+  const skippedLines: number[] = [];
+  records.slice(1).forEach(({ fields, line }) => {
+    const date = fields[columns.date]?.trim();
+    const amount = fields[columns.amount]?.trim();
+    if (!date || !amount || isNaN(parseAmount(amount))) {
+      if (fields.some(field => field.trim())) skippedLines.push(line);
+      return;
+    }
+    rows.push({
+      line,
+      date: normalizeReportDate(date),
+      method: columns.method === -1 ? null : fields[columns.method]?.trim() || 'Unknown',
+      amount: parseAmount(amount),
+      // Reports often show fees as negative amounts
+      fees: fields[columns.fees]?.trim() ? Math.abs(parseAmount(fields[columns.fees])) : null
+    });
+  });
+
+  return { rows, hasMethod: columns.method !== -1, hasFees: columns.fees !== -1, skippedLines };
+}
+
+/*
+  Expected payouts are grouped by order date and payment method: what was charged, less refunds
+  and the configured processing fee. Refunds are counted on the date of the original order.
+  When the report has no method column, each day is matched as a whole.
+*/
+export function reconcilePayouts(orders: OrderMetrics[], fees: PaymentFee[], report: PayoutReport): ReconciliationRow[] {
+  const feeLookup = buildFeeLookup(fees);
+  const rows = new Map<string, ReconciliationRow>();
+  const rowFor = (date: string, method: string | null) => {
+    const key = `${date}\n${method?.toLowerCase() ?? ''}`;
+    const row = rows.get(key) || {
+      date,
+      method,
+      orders: 0,
+      charged: 0,
+      refunded: 0,
+      fees: 0,
+      expected: 0,
+      reported: null,
+      reportedFees: null,
+      difference: 0,
+      status: 'matched' as ReconciliationStatus
+    };
+    rows.set(key, row);
+    return row;
+  };
+
+  orders.forEach(order => {
+    if (order.totalAmount <= 0 && order.refundedAmount <= 0) return;
+    const row = rowFor(normalizeReportDate(order.orderDate), report.hasMethod ? order.paymentMethod : null);
+    const fee = orderProcessingFee(order, findPaymentFee(feeLookup, order.paymentMethod));
+    row.orders += 1;
+    row.charged += order.totalAmount;
+    row.refunded += order.refundedAmount;
+    row.fees += fee;
+    row.expected += order.totalAmount - order.refundedAmount - fee;
+  });
+
+  report.rows.forEach(payout => {
+    const row = rowFor(payout.date, payout.method);
+    row.reported = (row.reported ?? 0) + payout.amount;
+    if (payout.fees !== null) {
+      row.reportedFees = (row.reportedFees ?? 0) + payout.fees;
+    }
+  });
+
+  return Array.from(rows.values())
+    .map(row => {
+      const difference = (row.reported ?? 0) - row.expected;
+      let status: ReconciliationStatus;
+      if (row.reported === null) {
+        status = 'missing-payout';
+      } else if (row.orders === 0) {
+        status = 'unexpected-payout';
+      } else {
+        status = Math.abs(difference) < PAYOUT_TOLERANCE ? 'matched' : 'mismatch';
+      }
+      return { ...row, difference, status };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date) || (a.method || '').localeCompare(b.method || ''));
+}
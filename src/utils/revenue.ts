@@ -0,0 +1,73 @@
+import type { ParsedOrder } from './csvParser';
+
+export type AllocationStrategy = 'tax-proportional' | 'pre-tax' | 'discount-fee-aware';
+
+export const DEFAULT_ALLOCATION_STRATEGY: AllocationStrategy = 'tax-proportional';
+
+export const ALLOCATION_STRATEGIES: { id: AllocationStrategy; label: string; description: string }[] = [
+  {
+    id: 'tax-proportional',
+    label: 'Tax-proportional',
+    description: 'Each line item keeps its subtotal plus its share of the order\'s tax.'
+  },
+  {
+    id: 'pre-tax',
+    label: 'Pre-tax only',
+    description: 'Each line item keeps its subtotal. Tax is left out of every revenue figure.'
+  },
+  {
+    id: 'discount-fee-aware',
+    label: 'Discount- and fee-aware',
+    description: 'The amount actually charged for the order, after discounts and including fees, is split across its line items by subtotal.'
+  }
+];
+
+export function isAllocationStrategy(value: unknown): value is AllocationStrategy {
+  return ALLOCATION_STRATEGIES.some(strategy => strategy.id === value);
+}
+
+export interface LineItemRevenue {
+  gross: number;
+  refunds: number;
+  net: number;
+}
+
+// Tickets on fully refunded or cancelled orders no longer count as sold
+export function isActiveTicket(order: ParsedOrder): boolean {
+  return order.refundStatus !== 'refunded' && order.refundStatus !== 'cancelled';
+}
+
+// The order-level amount the strategy spreads over line items, and the line item's share of it
+function allocationBasis(order: ParsedOrder, strategy: AllocationStrategy): { orderAmount: number; share: number } {
+  const share = order.orderSubTotal > 0 ? order.lineItemSubtotal / order.orderSubTotal : 0;
+  switch (strategy) {
+    case 'pre-tax':
+      return { orderAmount: order.orderSubTotal, share };
+    case 'discount-fee-aware':
+      return { orderAmount: order.orderTotalAmount, share };
+    default:
+      return { orderAmount: order.orderSubTotal + order.orderTaxAmount, share };
+  }
+}
+
+// Splits the line item's revenue and its share of the order's refund under the given strategy
+export function allocateLineItem(order: ParsedOrder, strategy: AllocationStrategy = DEFAULT_ALLOCATION_STRATEGY): LineItemRevenue {
+  const { orderAmount, share } = allocationBasis(order, strategy);
+  // Orders without a sub total (free tickets) fall back to the line item's own subtotal
+  const gross = order.orderSubTotal > 0 ? orderAmount * share : order.lineItemSubtotal;
+
+  // Refunds are spread like the charge, in proportion to what the customer paid for the order
+  let refunds = 0;
+  const orderCharged = strategy === 'discount-fee-aware'
+    ? order.orderTotalAmount
+    : order.orderSubTotal + order.orderTaxAmount;
+  if (order.orderRefundedAmount > 0 && orderCharged > 0 && orderAmount > 0) {
+    refunds = Math.min(order.orderRefundedAmount, orderCharged) * (orderAmount / orderCharged) * share;
+  }
+
+  return { gross, refunds, net: gross - refunds };
+}
+
+export function lineItemNetRevenue(order: ParsedOrder, strategy: AllocationStrategy = DEFAULT_ALLOCATION_STRATEGY): number {
+  return allocateLineItem(order, strategy).net;
+}
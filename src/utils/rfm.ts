@@ -0,0 +1,151 @@
+import type { CustomerMetrics, DatasetMetrics } from './metrics';
+import { isActiveTicket } from './revenue';
+import { orderDateKey } from './timeline';
+import { daysBeforeEvent } from './pacing';
+
+// 1 (lowest fifth of customers) to 5 (highest fifth)
+export type RfmScore = 1 | 2 | 3 | 4 | 5;
+
+export type RfmSegmentId = 'vip' | 'big-spender' | 'one-and-done' | 'late-buyer' | 'early-bird';
+
+export interface RfmSegmentDefinition {
+  id: RfmSegmentId;
+  name: string;
+  description: string;
+}
+
+export interface RfmCustomer {
+  customer: CustomerMetrics;
+  firstPurchase: string | null;
+  lastPurchase: string | null;
+  // Days from the last purchase to the reference date; null when no order date could be read
+  daysSinceLastPurchase: number | null;
+  // Orders with at least one ticket still held
+  orders: number;
+  classCount: number;
+  recency: RfmScore;
+  frequency: RfmScore;
+  monetary: RfmScore;
+  segments: RfmSegmentId[];
+}
+
+export interface RfmSegment extends RfmSegmentDefinition {
+  customers: RfmCustomer[];
+  revenue: number;
+  revenueShare: number;
+}
+
+export interface RfmAnalysis {
+  // Recency is measured back from the event date, or from the last sale when the event has none
+  referenceDate: string | null;
+  customers: RfmCustomer[];
+  segments: RfmSegment[];
+  revenue: number;
+}
+
+// Width of the opening and closing sales windows for early birds and late buyers
+export const PURCHASE_WINDOW_DAYS = 7;
+
+export const RFM_SEGMENTS: RfmSegmentDefinition[] = [
+  { id: 'vip', name: 'VIP', description: 'Top scores for recency, classes and spend' },
+  { id: 'big-spender', name: 'Big Spender', description: 'Top fifth of customers by spend' },
+  { id: 'one-and-done', name: 'One-and-Done', description: 'A single order for a single class' },
+  { id: 'late-buyer', name: 'Late Buyer', description: `First purchase in the last ${PURCHASE_WINDOW_DAYS} days before the event` },
+  { id: 'early-bird', name: 'Early Bird', description: `First purchase in the first ${PURCHASE_WINDOW_DAYS} days of sales` }
+];
+
+/*
+  Scores values by their rank among all customers. Equal values share the score of the middle of
+  their run, so when most people bought one class they all land low rather than spread over 1–3.
+*/
+function quintileScores(values: number[]): RfmScore[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  const ranks = new Map<number, { first: number; last: number }>();
+  sorted.forEach((value, index) => {
+    const rank = ranks.get(value) || { first: index, last: index };
+    rank.last = index;
+    ranks.set(value, rank);
+  });
+  return values.map(value => {
+    const { first, last } = ranks.get(value)!;
+    return (1 + Math.floor((5 * (first + last)) / 2 / values.length)) as RfmScore;
+  });
+}
+
+/*
+  Scores each customer still holding tickets on recency (last purchase date), frequency (classes
+  held) and monetary value (revenue under the current allocation strategy), then sorts them into
+  campaign segments. Segments can overlap: a VIP is usually a big spender too.
+*/
+export function analyzeRfm(metrics: DatasetMetrics, eventDate: string | null): RfmAnalysis {
+  const active = metrics.customers.filter(customer => customer.tickets > 0);
+
+  const purchases = active.map(customer => {
+    const activeLines = customer.orders.filter(isActiveTicket);
+    const dates = activeLines
+      .map(order => orderDateKey(order.orderDate))
+      .filter((date): date is string => !!date)
+      .sort();
+    return {
+      customer,
+      firstPurchase: dates[0] ?? null,
+      lastPurchase: dates[dates.length - 1] ?? null,
+      orders: new Set(activeLines.map(order => order.orderId)).size
+    };
+  });
+
+  const saleDates = purchases.flatMap(({ firstPurchase, lastPurchase }) => [firstPurchase, lastPurchase])
+    .filter((date): date is string => !!date)
+    .sort();
+  const firstSale = saleDates[0] ?? null;
+  const referenceDate = eventDate || saleDates[saleDates.length - 1] || null;
+
+  const daysSince = purchases.map(({ lastPurchase }) =>
+    lastPurchase && referenceDate ? Math.max(0, daysBeforeEvent(lastPurchase, referenceDate)) : null
+  );
+  // Customers without a readable date rank as least recent
+  const recency = quintileScores(daysSince.map(days => (days === null ? -Infinity : -days)));
+  const frequency = quintileScores(active.map(customer => customer.classes.size));
+  const monetary = quintileScores(active.map(customer => customer.revenue));
+
+  const customers = purchases.map((purchase, index): RfmCustomer => {
+    const { customer, firstPurchase } = purchase;
+    const scored = {
+      ...purchase,
+      daysSinceLastPurchase: daysSince[index],
+      classCount: customer.classes.size,
+      recency: recency[index],
+      frequency: frequency[index],
+      monetary: monetary[index]
+    };
+    const segments = RFM_SEGMENTS.map(({ id }) => id).filter(id => {
+      switch (id) {
+        case 'vip':
+          return scored.recency >= 4 && scored.frequency >= 4 && scored.monetary >= 4;
+        case 'big-spender':
+          return scored.monetary === 5;
+        case 'one-and-done':
+          return scored.orders === 1 && scored.classCount === 1;
+        case 'late-buyer':
+          return !!firstPurchase && !!referenceDate && daysBeforeEvent(firstPurchase, referenceDate) < PURCHASE_WINDOW_DAYS;
+        case 'early-bird':
+          return !!firstPurchase && !!firstSale && daysBeforeEvent(firstSale, firstPurchase) < PURCHASE_WINDOW_DAYS;
+      }
+    });
+    return { ...scored, segments };
+  });
+
+  const revenue = customers.reduce((sum, { customer }) => sum + customer.revenue, 0);
+  const segments = RFM_SEGMENTS.map(definition => {
+    const members = customers.filter(customer => customer.segments.includes(definition.id));
+    const segmentRevenue = members.reduce((sum, { customer }) => sum + customer.revenue, 0);
+    return {
+      ...definition,
+      customers: members,
+      revenue: segmentRevenue,
+      revenueShare: revenue > 0 ? segmentRevenue / revenue : 0
+    };
+  });
+
+  return { referenceDate, customers, segments, revenue };
+}
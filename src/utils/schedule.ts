@@ -0,0 +1,128 @@
+import type { ParsedOrder } from './csvParser';
+import { buildCatalogLookup, findCatalogClass, type CatalogClass } from './classCatalog';
+
+// Sessions without a duration are assumed to run an hour
+export const DEFAULT_DURATION_MINUTES = 60;
+
+export interface ClassSession {
+  className: string;
+  entry: CatalogClass;
+  date: string;
+  // Minutes after midnight, event local time
+  startMinutes: number;
+  endMinutes: number;
+  location: string | null;
+  tickets: number;
+  buyers: Map<string, string>;
+}
+
+export interface SessionOverlap {
+  first: ClassSession;
+  second: ClassSession;
+  // Names of customers holding tickets to both sessions
+  sharedBuyers: string[];
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export function formatMinutes(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60) % 24;
+  const minutes = totalMinutes % 60;
+  const suffix = hours < 12 ? 'AM' : 'PM';
+  return `${hours % 12 || 12}:${minutes.toString().padStart(2, '0')} ${suffix}`;
+}
+
+// Dates are calendar days at the event, so format them without a timezone shift
+export function formatSessionDate(date: string, options: Intl.DateTimeFormatOptions = { weekday: 'long', month: 'long', day: 'numeric' }): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+}
+
+export function describeSession(entry?: CatalogClass): string | null {
+  if (!entry?.session_date || !entry.start_time) return null;
+
+  const start = toMinutes(entry.start_time);
+  const end = start + (entry.duration_minutes || DEFAULT_DURATION_MINUTES);
+  const when = `${formatSessionDate(entry.session_date, { weekday: 'short', month: 'short', day: 'numeric' })} • ${formatMinutes(start)}–${formatMinutes(end)}`;
+  return entry.location ? `${when} • ${entry.location}` : when;
+}
+
+// One session per scheduled catalog class, with ticket holders from the given orders
+export function buildSessions(data: ParsedOrder[], catalog: CatalogClass[]): ClassSession[] {
+  const sessions = new Map<string, ClassSession>();
+  catalog.forEach(entry => {
+    if (!entry.session_date || !entry.start_time) return;
+    const startMinutes = toMinutes(entry.start_time);
+    sessions.set(entry.id, {
+      className: entry.name,
+      entry,
+      date: entry.session_date,
+      startMinutes,
+      endMinutes: startMinutes + (entry.duration_minutes || DEFAULT_DURATION_MINUTES),
+      location: entry.location,
+      tickets: 0,
+      buyers: new Map()
+    });
+  });
+
+  const lookup = buildCatalogLookup(catalog);
+  data.forEach(order => {
+    const entry = findCatalogClass(lookup, order.className);
+    const session = entry && sessions.get(entry.id);
+    if (!session) return;
+    session.tickets += order.quantity;
+    session.buyers.set(order.customerEmail.toLowerCase(), order.customerName);
+  });
+
+  return Array.from(sessions.values()).sort((a, b) =>
+    a.date.localeCompare(b.date) || a.startMinutes - b.startMinutes || a.className.localeCompare(b.className)
+  );
+}
+
+// Sessions on the same day whose times overlap and that share at least one buyer
+export function findOverlaps(sessions: ClassSession[]): SessionOverlap[] {
+  const overlaps: SessionOverlap[] = [];
+  sessions.forEach((first, i) => {
+    sessions.slice(i + 1).forEach(second => {
+      if (first.date !== second.date) return;
+      if (first.startMinutes >= second.endMinutes || second.startMinutes >= first.endMinutes) return;
+
+      const sharedBuyers = Array.from(first.buyers.entries())
+        .filter(([email]) => second.buyers.has(email))
+        .map(([, name]) => name)
+        .sort();
+      if (sharedBuyers.length > 0) {
+        overlaps.push({ first, second, sharedBuyers });
+      }
+    });
+  });
+  return overlaps;
+}
+
+// Accept YYYY-MM-DD or M/D/YYYY from spreadsheets
+export function normalizeDateInput(value: string): string | null {
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed;
+
+  const match = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
+  if (!match) return null;
+  const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+  return `${year}-${match[1].padStart(2, '0')}-${match[2].padStart(2, '0')}`;
+}
+
+// Accept 24-hour "HH:MM" or "h:MM AM/PM"
+export function normalizeTimeInput(value: string): string | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*([AaPp][Mm])?$/);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const meridiem = match[3]?.toUpperCase();
+  if (meridiem === 'PM' && hours < 12) hours += 12;
+  if (meridiem === 'AM' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+  return `${hours.toString().padStart(2, '0')}:${match[2]}`;
+}
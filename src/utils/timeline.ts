@@ -0,0 +1,124 @@
+import type { DatasetMetrics } from './metrics';
+import { allocateLineItem, isActiveTicket } from './revenue';
+import { normalizeDateInput } from './schedule';
+
+export type TimelineSplit = 'none' | 'class' | 'method';
+
+export interface TimelinePoint {
+  tickets: number;
+  revenue: number;
+}
+
+export interface TimelineDay extends TimelinePoint {
+  // YYYY-MM-DD
+  date: string;
+  // Running totals since the first sale, regardless of the selected range
+  cumulativeTickets: number;
+  cumulativeRevenue: number;
+  // Per class or payment method when the timeline is split
+  series: Record<string, TimelinePoint>;
+  cumulativeSeries: Record<string, TimelinePoint>;
+}
+
+export interface SalesTimeline {
+  days: TimelineDay[];
+  // Series names, largest first; the smallest are folded into OTHER_SERIES
+  series: string[];
+  // Line items whose order date couldn't be read
+  undatedLineItems: number;
+}
+
+// Splits with more series than this fold the rest into "Other" so the chart stays readable
+export const MAX_TIMELINE_SERIES = 8;
+export const OTHER_SERIES = 'Other';
+
+// Order dates come as YYYY-MM-DD or M/D/YYYY, sometimes with a time after them
+export function orderDateKey(value: string): string | null {
+  return normalizeDateInput(value.trim().split(/[ T]/)[0]);
+}
+
+const addDay = (date: string) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+};
+
+/*
+  Tickets still held and their net revenue, by the day they were bought. Refunds come off
+  the day of the original purchase, so a day's figures can drop after a later refund. Bundle
+  tickets count as bundles on the day they sold, not on the classes they're redeemed for.
+*/
+export function buildSalesTimeline(metrics: DatasetMetrics, split: TimelineSplit): SalesTimeline {
+  const byDate = new Map<string, { point: TimelinePoint; series: Map<string, TimelinePoint> }>();
+  const seriesTotals = new Map<string, number>();
+  let undatedLineItems = 0;
+
+  metrics.classes.forEach(cls => {
+    cls.orders.forEach(order => {
+      const date = orderDateKey(order.orderDate);
+      if (!date) {
+        undatedLineItems += 1;
+        return;
+      }
+
+      const tickets = isActiveTicket(order) ? order.quantity : 0;
+      const { net } = allocateLineItem(order, metrics.strategy);
+      const day = byDate.get(date) || { point: { tickets: 0, revenue: 0 }, series: new Map<string, TimelinePoint>() };
+      day.point.tickets += tickets;
+      day.point.revenue += net;
+
+      if (split !== 'none') {
+        const name = split === 'class' ? cls.name : order.paymentMethod || 'Unknown';
+        const point = day.series.get(name) || { tickets: 0, revenue: 0 };
+        point.tickets += tickets;
+        point.revenue += net;
+        day.series.set(name, point);
+        seriesTotals.set(name, (seriesTotals.get(name) || 0) + tickets);
+      }
+      byDate.set(date, day);
+    });
+  });
+
+  const ranked = Array.from(seriesTotals.entries())
+    .sort(([nameA, a], [nameB, b]) => b - a || nameA.localeCompare(nameB))
+    .map(([name]) => name);
+  const shown = new Set(ranked.length > MAX_TIMELINE_SERIES ? ranked.slice(0, MAX_TIMELINE_SERIES - 1) : ranked);
+  const series = ranked.length > MAX_TIMELINE_SERIES ? [...shown, OTHER_SERIES] : ranked;
+  const seriesName = (name: string) => shown.has(name) ? name : OTHER_SERIES;
+
+  const dates = Array.from(byDate.keys()).sort();
+  const days: TimelineDay[] = [];
+  const running: TimelinePoint = { tickets: 0, revenue: 0 };
+  const runningSeries: Record<string, TimelinePoint> = Object.fromEntries(series.map(name => [name, { tickets: 0, revenue: 0 }]));
+
+  // Every day from the first sale to the last, including days without any
+  for (let date = dates[0]; dates.length > 0 && date <= dates[dates.length - 1]; date = addDay(date)) {
+    const day = byDate.get(date);
+    const point = day?.point || { tickets: 0, revenue: 0 };
+    const daySeries: Record<string, TimelinePoint> = {};
+    day?.series.forEach((value, name) => {
+      const key = seriesName(name);
+      const existing = daySeries[key] || { tickets: 0, revenue: 0 };
+      daySeries[key] = { tickets: existing.tickets + value.tickets, revenue: existing.revenue + value.revenue };
+    });
+
+    running.tickets += point.tickets;
+    running.revenue += point.revenue;
+    series.forEach(name => {
+      runningSeries[name].tickets += daySeries[name]?.tickets || 0;
+      runningSeries[name].revenue += daySeries[name]?.revenue || 0;
+    });
+
+    days.push({
+      date,
+      tickets: point.tickets,
+      revenue: point.revenue,
+      cumulativeTickets: running.tickets,
+      cumulativeRevenue: running.revenue,
+      series: daySeries,
+      cumulativeSeries: Object.fromEntries(series.map(name => [name, { ...runningSeries[name] }]))
+    });
+  }
+
+  return { days, series, undatedLineItems };
+}
@@ -0,0 +1,62 @@
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  // 0 = Sunday, as Date#getDay
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Building a formatter is slow, and heatmaps read thousands of timestamps
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// Wall-clock date and time of an instant in a timezone
+export function zonedParts(instant: number, timeZone: string): ZonedParts {
+  const parts = Object.fromEntries(formatterFor(timeZone).formatToParts(new Date(instant)).map(part => [part.type, part.value]));
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute)
+  };
+}
+
+const offsetAt = (instant: number, timeZone: string) => {
+  const parts = zonedParts(instant, timeZone);
+  const asUTC = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return asUTC - Math.floor(instant / 60000) * 60000;
+};
+
+/*
+  The instant a wall-clock time in a timezone refers to. The offset is read twice because the
+  first guess can land on the other side of a daylight saving change.
+*/
+export function zonedTimeToInstant(date: string, time: string, timeZone: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const firstGuess = wallClock - offsetAt(wallClock, timeZone);
+  return wallClock - offsetAt(firstGuess, timeZone);
+}
@@ -0,0 +1,80 @@
+import type { ClassMetrics, DatasetMetrics, OrderMetrics } from './metrics';
+
+// Orders are summarized the same way as on every other tab
+export type OrderSummary = OrderMetrics;
+
+export interface ClassDelta {
+  className: string;
+  previousTickets: number;
+  currentTickets: number;
+  ticketDelta: number;
+  previousRevenue: number;
+  currentRevenue: number;
+  revenueDelta: number;
+}
+
+export interface UploadDiff {
+  newOrders: OrderSummary[];
+  // Orders in the earlier upload that are missing from the later one
+  disappearedOrders: OrderSummary[];
+  // Orders that were live before and are now refunded or cancelled
+  newlyRefundedOrders: OrderSummary[];
+  newCustomers: { customerName: string; customerEmail: string; tickets: number }[];
+  classDeltas: ClassDelta[];
+}
+
+const isLive = (order: OrderSummary) => order.refundStatus !== 'refunded' && order.refundStatus !== 'cancelled';
+
+// Catalog classes that never sold in either upload have nothing to compare
+const hasSales = (cls?: ClassMetrics) => !!cls && (cls.quantity > 0 || cls.refundedTickets > 0 || cls.revenue !== 0);
+
+/*
+  Compare two uploads of the same city, earlier first. Both sides come from computeMetrics, so
+  class names, bundle revenue and totals match what the other tabs show for each upload.
+*/
+export function diffUploads(previous: DatasetMetrics, current: DatasetMetrics): UploadDiff {
+  const previousOrders = new Map(previous.orders.map(order => [order.orderId, order]));
+  const currentOrders = new Map(current.orders.map(order => [order.orderId, order]));
+
+  const newOrders = current.orders.filter(order => !previousOrders.has(order.orderId));
+  const disappearedOrders = previous.orders.filter(order => !currentOrders.has(order.orderId));
+  const newlyRefundedOrders = current.orders.filter(order => {
+    const before = previousOrders.get(order.orderId);
+    return before !== undefined && isLive(before) && !isLive(order);
+  });
+
+  const previousEmails = new Set(previous.customers
+    .filter(customer => customer.tickets > 0)
+    .map(customer => customer.customerEmail.toLowerCase()));
+  const newCustomers = current.customers
+    .filter(customer => customer.tickets > 0 && !previousEmails.has(customer.customerEmail.toLowerCase()))
+    .map(({ customerName, customerEmail, tickets }) => ({ customerName, customerEmail, tickets }));
+
+  const previousClasses = new Map(previous.classes.map(cls => [cls.name, cls]));
+  const currentClasses = new Map(current.classes.map(cls => [cls.name, cls]));
+  const classNames = new Set([...previousClasses.keys(), ...currentClasses.keys()]);
+  const classDeltas = Array.from(classNames)
+    .filter(className => hasSales(previousClasses.get(className)) || hasSales(currentClasses.get(className)))
+    .map(className => {
+      const before = previousClasses.get(className) || { quantity: 0, revenue: 0 };
+      const after = currentClasses.get(className) || { quantity: 0, revenue: 0 };
+      return {
+        className,
+        previousTickets: before.quantity,
+        currentTickets: after.quantity,
+        ticketDelta: after.quantity - before.quantity,
+        previousRevenue: before.revenue,
+        currentRevenue: after.revenue,
+        revenueDelta: after.revenue - before.revenue
+      };
+    })
+    .sort((a, b) => b.ticketDelta - a.ticketDelta || a.className.localeCompare(b.className));
+
+  return {
+    newOrders,
+    disappearedOrders,
+    newlyRefundedOrders,
+    newCustomers: newCustomers.sort((a, b) => b.tickets - a.tickets),
+    classDeltas
+  };
+}
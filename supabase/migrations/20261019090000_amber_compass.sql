@@ -0,0 +1,39 @@
+/*
+  # Add column-mapping profiles
+
+  1. New Tables
+    - `column_mapping_profiles`
+      - `id` (uuid, primary key)
+      - `name` (text, unique, profile name shown in the uploader)
+      - `mapping` (jsonb, maps each dashboard field to the CSV header it is read from)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Changes
+    - Add `column_mapping` column to `order_data` so stored uploads are re-parsed
+      with the same mapping they were uploaded with
+
+  3. Security
+    - Enable RLS on `column_mapping_profiles` table
+    - Add policy for public access (since we're using password-based auth in the app)
+*/
+
+CREATE TABLE IF NOT EXISTS column_mapping_profiles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  mapping jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE column_mapping_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Allow public access since we handle auth in the application
+CREATE POLICY "Allow public access to column mapping profiles"
+  ON column_mapping_profiles
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
+
+ALTER TABLE order_data ADD COLUMN IF NOT EXISTS column_mapping jsonb;
@@ -0,0 +1,90 @@
+/*
+  # Keep every upload as a version
+
+  1. Changes
+    - Add `version` column to `order_data` (per-city upload number, starting at 1)
+    - Add `is_active` column to `order_data` (the version the dashboard shows for its city)
+    - Add `uploaded_by` column to `order_data` (role of the user who uploaded the file)
+    - Backfill versions for existing rows and mark the newest upload per city active
+    - Allow at most one active version per city
+    - Version numbers are unique per city
+
+  2. New Functions
+    - `activate_order_data_version(target_id)` makes one upload the active dataset
+      for its city, deactivating the previous one in the same transaction
+    - `assign_order_data_version()` trigger numbers each new upload as the next version
+      for its city, so concurrent uploads can't both take the same number
+
+  3. Security
+    - No changes to existing RLS policies needed
+*/
+
+ALTER TABLE order_data ADD COLUMN IF NOT EXISTS version integer;
+ALTER TABLE order_data ADD COLUMN IF NOT EXISTS is_active boolean NOT NULL DEFAULT false;
+ALTER TABLE order_data ADD COLUMN IF NOT EXISTS uploaded_by text;
+
+-- Number existing uploads per city in upload order
+UPDATE order_data o
+SET version = numbered.version
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY city ORDER BY created_at) AS version
+  FROM order_data
+) numbered
+WHERE o.id = numbered.id AND o.version IS NULL;
+
+-- The newest upload per city was the one the dashboard showed
+UPDATE order_data
+SET is_active = true
+WHERE id IN (
+  SELECT DISTINCT ON (city) id
+  FROM order_data
+  ORDER BY city, created_at DESC
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_order_data_active_city ON order_data (city) WHERE is_active;
+CREATE INDEX IF NOT EXISTS idx_order_data_city_version ON order_data (city, version DESC);
+
+ALTER TABLE order_data ADD CONSTRAINT order_data_city_version_key UNIQUE (city, version);
+
+CREATE OR REPLACE FUNCTION assign_order_data_version()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Uploads for the same city wait for each other until the inserting transaction ends
+  PERFORM pg_advisory_xact_lock(hashtext('order_data_version:' || NEW.city));
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+  FROM order_data
+  WHERE city = NEW.city;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER order_data_assign_version
+  BEFORE INSERT ON order_data
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_order_data_version();
+
+CREATE OR REPLACE FUNCTION activate_order_data_version(target_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target_city text;
+BEGIN
+  SELECT city INTO target_city FROM order_data WHERE id = target_id;
+  IF target_city IS NULL THEN
+    RAISE EXCEPTION 'Upload % not found', target_id;
+  END IF;
+
+  UPDATE order_data
+  SET is_active = false, updated_at = now()
+  WHERE city = target_city AND is_active AND id <> target_id;
+
+  UPDATE order_data
+  SET is_active = true, updated_at = now()
+  WHERE id = target_id;
+END;
+$$;
@@ -0,0 +1,122 @@
+/*
+  # Normalized order tables
+
+  1. New Tables
+    - `customers`
+      - `id` (uuid, primary key)
+      - `city` (text)
+      - `email` (text, lower-cased, unique per city)
+      - `name` (text, as written on the customer's most recent upload)
+      - `phone` (text)
+      - `created_at`, `updated_at` (timestamp)
+    - `orders`
+      - `id` (uuid, primary key)
+      - `upload_id` (uuid, the `order_data` upload the order was imported from)
+      - `city` (text)
+      - `order_id` (text, the export's internal order id, unique per upload)
+      - `customer_email`, `customer_name`, `customer_phone` (text, as written on the order)
+      - `status`, `source_name`, `order_date`, `order_time` (text, as exported)
+      - `sub_total`, `tax_amount`, `total_amount`, `refunded_amount` (numeric)
+      - `payment_method` (text)
+      - `refund_status` (text: none, partial, refunded or cancelled)
+    - `line_items`
+      - `id` (uuid, primary key)
+      - `upload_id`, `city`, `order_id` (the order the line item belongs to)
+      - `position` (integer, row order within the upload)
+      - `class_name` (text)
+      - `quantity` (integer)
+      - `price`, `subtotal` (numeric)
+
+  2. Changes
+    - Add `normalized_at` column to `order_data` (set once the upload's rows are in
+      the tables above; older uploads are still read from `csv_content`)
+    - Add `skipped_row_count` column to `order_data` (rows left out when the file was imported)
+    - Make `order_data.csv_content` nullable: new uploads are stored only in the tables above,
+      and the raw CSV is kept just for uploads made before them
+
+  3. Security
+    - Enable RLS on the new tables
+    - Add policies for public access (since we're using password-based auth in the app)
+*/
+
+ALTER TABLE order_data ADD COLUMN IF NOT EXISTS normalized_at timestamptz;
+ALTER TABLE order_data ADD COLUMN IF NOT EXISTS skipped_row_count integer;
+ALTER TABLE order_data ALTER COLUMN csv_content DROP NOT NULL;
+
+CREATE TABLE IF NOT EXISTS customers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  city text NOT NULL,
+  email text NOT NULL,
+  name text NOT NULL,
+  phone text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (city, email)
+);
+
+CREATE TABLE IF NOT EXISTS orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  upload_id uuid NOT NULL REFERENCES order_data(id) ON DELETE CASCADE,
+  city text NOT NULL,
+  order_id text NOT NULL,
+  customer_email text NOT NULL,
+  customer_name text NOT NULL,
+  customer_phone text,
+  status text NOT NULL,
+  source_name text,
+  order_date text,
+  order_time text,
+  sub_total numeric(12,2) NOT NULL DEFAULT 0,
+  tax_amount numeric(12,2) NOT NULL DEFAULT 0,
+  total_amount numeric(12,2) NOT NULL DEFAULT 0,
+  payment_method text,
+  refund_status text NOT NULL DEFAULT 'none',
+  refunded_amount numeric(12,2) NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (upload_id, order_id)
+);
+
+CREATE TABLE IF NOT EXISTS line_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  upload_id uuid NOT NULL,
+  city text NOT NULL,
+  order_id text NOT NULL,
+  position integer NOT NULL,
+  class_name text NOT NULL,
+  quantity integer NOT NULL DEFAULT 0,
+  price numeric(12,2) NOT NULL DEFAULT 0,
+  subtotal numeric(12,2) NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  FOREIGN KEY (upload_id, order_id) REFERENCES orders(upload_id, order_id) ON DELETE CASCADE
+);
+
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE line_items ENABLE ROW LEVEL SECURITY;
+
+-- Allow public access since we handle auth in the application
+CREATE POLICY "Allow public access to customers"
+  ON customers
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public access to orders"
+  ON orders
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public access to line items"
+  ON line_items
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_orders_city_order_id ON orders (city, order_id);
+CREATE INDEX IF NOT EXISTS idx_orders_customer_email ON orders (city, customer_email);
+CREATE INDEX IF NOT EXISTS idx_line_items_upload_position ON line_items (upload_id, position);
+CREATE INDEX IF NOT EXISTS idx_line_items_class_name ON line_items (city, class_name);
@@ -0,0 +1,41 @@
+/*
+  # Class name aliases
+
+  1. New Tables
+    - `class_aliases`
+      - `id` (uuid, primary key)
+      - `city` (text, the event the alias applies to)
+      - `raw_name` (text, a line item name as exported, or its cleaned-up form)
+      - `canonical_name` (text, the class name shown on every tab)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Changes
+    - Add `raw_class_name` column to `line_items` (the line item name before cleanup and aliases)
+
+  3. Security
+    - Enable RLS on `class_aliases` table
+    - Add policy for public access (since we're using password-based auth in the app)
+*/
+
+CREATE TABLE IF NOT EXISTS class_aliases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  city text NOT NULL,
+  raw_name text NOT NULL,
+  canonical_name text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (city, raw_name)
+);
+
+ALTER TABLE class_aliases ENABLE ROW LEVEL SECURITY;
+
+-- Allow public access since we handle auth in the application
+CREATE POLICY "Allow public access to class aliases"
+  ON class_aliases
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
+
+ALTER TABLE line_items ADD COLUMN IF NOT EXISTS raw_class_name text;
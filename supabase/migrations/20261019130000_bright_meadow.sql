@@ -0,0 +1,51 @@
+/*
+  # Event registry
+
+  1. New Tables
+    - `events`
+      - `id` (text, primary key, the key stored in `city` columns elsewhere)
+      - `name` (text, e.g. "Washington DC")
+      - `short_name` (text, e.g. "DC", used in the header and menus)
+      - `year` (integer)
+      - `source_names` (text[], order sources that belong to the event; empty accepts every source)
+      - `timezone` (text, IANA timezone the event's times are shown in)
+      - `is_active` (boolean, whether the event is offered in the city selector)
+      - `sort_order` (integer)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - Seed the DC, Atlanta and Houston events the dashboard previously hard-coded
+
+  3. Security
+    - Enable RLS on `events` table
+    - Add policy for public access (since we're using password-based auth in the app)
+*/
+
+CREATE TABLE IF NOT EXISTS events (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  short_name text NOT NULL,
+  year integer NOT NULL,
+  source_names text[] NOT NULL DEFAULT '{}',
+  timezone text NOT NULL DEFAULT 'America/New_York',
+  is_active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE events ENABLE ROW LEVEL SECURITY;
+
+-- Allow public access since we handle auth in the application
+CREATE POLICY "Allow public access to events"
+  ON events
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
+
+INSERT INTO events (id, name, short_name, year, source_names, timezone, sort_order) VALUES
+  ('dc', 'Washington DC', 'DC', 2025, ARRAY['Ebony Fit Weekend - DC'], 'America/New_York', 1),
+  ('atlanta', 'Atlanta', 'Atlanta', 2025, ARRAY['Ebony Fit Weekend - Atlanta'], 'America/New_York', 2),
+  -- Houston's ticketing platform doesn't set a usable source name
+  ('houston', 'Houston', 'Houston', 2026, '{}', 'America/Chicago', 3)
+ON CONFLICT (id) DO NOTHING;
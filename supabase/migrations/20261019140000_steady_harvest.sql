@@ -0,0 +1,91 @@
+/*
+  # Class catalog
+
+  1. New Tables
+    - `class_catalog`
+      - `id` (uuid, primary key)
+      - `city` (text, the event the class belongs to)
+      - `name` (text, canonical class name, unique per event)
+      - `capacity` (integer, spots available; null when uncapped)
+      - `price` (numeric, list price of one ticket)
+      - `is_active` (boolean, inactive classes aren't listed until they sell)
+      - `sort_order` (integer)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Changes
+    - Seed the Atlanta and Houston class lists the class breakdown previously hard-coded
+
+  3. Security
+    - Enable RLS on `class_catalog` table
+    - Add policy for public access (since we're using password-based auth in the app)
+*/
+
+CREATE TABLE IF NOT EXISTS class_catalog (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  city text NOT NULL,
+  name text NOT NULL,
+  capacity integer CHECK (capacity IS NULL OR capacity >= 0),
+  price numeric(10,2),
+  is_active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (city, name)
+);
+
+ALTER TABLE class_catalog ENABLE ROW LEVEL SECURITY;
+
+-- Allow public access since we handle auth in the application
+CREATE POLICY "Allow public access to class catalog"
+  ON class_catalog
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
+
+INSERT INTO class_catalog (city, name, sort_order) VALUES
+  ('atlanta', 'GO GET IT CALESTHITICS', 1),
+  ('atlanta', 'FOU BRUNCH BOOTCAMP', 2),
+  ('atlanta', 'NEXT LEVEL BOOT CAMP', 3),
+  ('atlanta', 'SUNDAY SERVICE', 4),
+  ('atlanta', 'TRAP YOGA', 5),
+  ('atlanta', 'EBONY FIT DEADLIFT PARTY', 6),
+  ('atlanta', 'POWER HOUR', 7),
+  ('atlanta', 'BODY BLAST DRIP CHECK', 8),
+  ('atlanta', 'BOXING MITT CAMP', 9),
+  ('atlanta', 'PEACH CAMP', 10),
+  ('atlanta', 'BANDS & BADDIES', 11),
+  ('atlanta', 'KEDDLESTHENICS', 12),
+  ('atlanta', 'CLIMATE CONTROL', 13),
+  ('atlanta', 'ONLY YAMS GLUTE CAMP', 14),
+  ('atlanta', 'SPIN CLASS', 15),
+  ('atlanta', 'TRAP MOBILITY', 16),
+  ('atlanta', 'HYPE HIIT', 17),
+  ('atlanta', 'TRAP BOXING', 18),
+  ('atlanta', 'BRICK FIT', 19),
+  ('atlanta', 'TWERK FIT, GIRLS NIGHT OUT', 20),
+  ('atlanta', 'VIP LOUNGE', 21),
+  ('atlanta', 'CLASS TICKET BUNDLES - 2 Class Ticket Bundle', 22),
+  ('atlanta', 'CLASS TICKET BUNDLES - 3 Class Ticket Bundle', 23),
+  ('atlanta', 'CLASS TICKET BUNDLES - 4 Class Ticket Bundle', 24),
+  ('houston', 'CLASS TICKET BUNDLES - 2 Class Ticket Bundle', 1),
+  ('houston', 'CLASS TICKET BUNDLES - 3 Class Ticket Bundle', 2),
+  ('houston', 'CLASS TICKET BUNDLES - 4 Class Ticket Bundle', 3),
+  ('houston', 'VIP LOUNGE', 4),
+  ('houston', 'FAMILY & FRIENDS LIFT PARTY', 5),
+  ('houston', 'AFRO BEAT BOOTCAMP', 6),
+  ('houston', 'TRAP SCULPT & MOBILITY', 7),
+  ('houston', 'GLUTE CAMP', 8),
+  ('houston', 'HTX - NORTHSIDE VS SOUTHSIDE', 9),
+  ('houston', 'ONLY YAMS', 10),
+  ('houston', 'STEP WITH MARSHE', 11),
+  ('houston', 'POWER HOUR', 12),
+  ('houston', 'BRICK WIT RINA', 13),
+  ('houston', 'EBONY FIT DEADLIFT PARTY', 14),
+  ('houston', 'TRAP YOGA', 15),
+  ('houston', 'RECOMP BOOTCAMP', 16),
+  ('houston', 'LINE DANCE LAB', 17),
+  ('houston', 'BEAT BOXING BOOTCAMP', 18),
+  ('houston', 'EBONY FIT CLOSE OUT', 19)
+ON CONFLICT (city, name) DO NOTHING;
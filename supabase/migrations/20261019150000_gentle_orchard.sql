@@ -0,0 +1,17 @@
+/*
+  # Class schedule
+
+  1. Changes
+    - Add `session_date` column to `class_catalog` (day the class runs)
+    - Add `start_time` column to `class_catalog` (local start time at the event)
+    - Add `duration_minutes` column to `class_catalog`
+    - Add `location` column to `class_catalog` (room, stage or venue)
+
+  2. Security
+    - No changes to existing RLS policies needed
+*/
+
+ALTER TABLE class_catalog ADD COLUMN IF NOT EXISTS session_date date;
+ALTER TABLE class_catalog ADD COLUMN IF NOT EXISTS start_time time;
+ALTER TABLE class_catalog ADD COLUMN IF NOT EXISTS duration_minutes integer CHECK (duration_minutes IS NULL OR duration_minutes > 0);
+ALTER TABLE class_catalog ADD COLUMN IF NOT EXISTS location text;
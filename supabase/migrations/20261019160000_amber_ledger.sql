@@ -0,0 +1,17 @@
+/*
+  # Class ticket bundles
+
+  1. Changes
+    - Add `bundle_slots` column to `class_catalog` (number of class tickets a bundle entry covers, null for regular classes)
+    - Fill in `bundle_slots` for the existing "N Class Ticket Bundle" entries
+
+  2. Security
+    - No changes to existing RLS policies needed
+*/
+
+ALTER TABLE class_catalog ADD COLUMN IF NOT EXISTS bundle_slots integer CHECK (bundle_slots IS NULL OR bundle_slots > 0);
+
+UPDATE class_catalog
+SET bundle_slots = substring(name FROM '(\d+) Class Ticket Bundle')::integer
+WHERE bundle_slots IS NULL
+  AND name ~* '\d+ Class Ticket Bundle';
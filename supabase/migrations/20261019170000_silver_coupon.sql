@@ -0,0 +1,16 @@
+/*
+  # Discount codes on orders
+
+  1. Changes
+    - Add `discount_code` column to `orders` (promo code applied at checkout, when exported)
+    - Add `discount_amount` column to `orders` (order-level discount the code gave)
+    - Index `orders` by city and discount code for promo reporting
+
+  2. Security
+    - No changes to existing RLS policies needed
+*/
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_code text;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_amount numeric(12,2);
+
+CREATE INDEX IF NOT EXISTS idx_orders_city_discount_code ON orders (city, discount_code) WHERE discount_code IS NOT NULL;
@@ -0,0 +1,38 @@
+/*
+  # Payment processor fees
+
+  1. New Tables
+    - `payment_fees`
+      - `id` (uuid, primary key)
+      - `city` (text, the event the fee applies to)
+      - `method` (text, payment method as it appears in the order export)
+      - `percent_fee` (numeric, percentage of each charge kept by the processor)
+      - `fixed_fee` (numeric, flat amount kept per order)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `payment_fees` table
+    - Add policy for public access (since we're using password-based auth in the app)
+*/
+
+CREATE TABLE IF NOT EXISTS payment_fees (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  city text NOT NULL,
+  method text NOT NULL,
+  percent_fee numeric(6,3) NOT NULL DEFAULT 0 CHECK (percent_fee >= 0),
+  fixed_fee numeric(10,2) NOT NULL DEFAULT 0 CHECK (fixed_fee >= 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (city, method)
+);
+
+ALTER TABLE payment_fees ENABLE ROW LEVEL SECURITY;
+
+-- Allow public access since we handle auth in the application
+CREATE POLICY "Allow public access to payment fees"
+  ON payment_fees
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,11 @@
+/*
+  # Event dates for pacing
+
+  1. Changes
+    - Add `event_date` column to `events` (first day of the event weekend, used to line up sales curves by days before the event)
+
+  2. Security
+    - No changes to existing RLS policies needed
+*/
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS event_date date;
@@ -0,0 +1,12 @@
+/*
+  # Order export timezone
+
+  1. Changes
+    - Add `order_timezone` column to `events` (IANA timezone the ticketing export writes order dates and times in,
+      so they can be shown in the event's own `timezone`)
+
+  2. Security
+    - No changes to existing RLS policies needed
+*/
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS order_timezone text NOT NULL DEFAULT 'America/New_York';
@@ -0,0 +1,34 @@
+/*
+  # Customer merges
+
+  1. New Tables
+    - `customer_merges`
+      - `id` (uuid, primary key)
+      - `email` (text, normalized email of a customer record folded into another)
+      - `canonical_email` (text, normalized email of the customer it was merged into)
+      - `created_at` (timestamp)
+
+    Merges describe people rather than orders, so they apply to every event.
+
+  2. Security
+    - Enable RLS on `customer_merges` table
+    - Add policy for public access (since we're using password-based auth in the app)
+*/
+
+CREATE TABLE IF NOT EXISTS customer_merges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL UNIQUE,
+  canonical_email text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK (email <> canonical_email)
+);
+
+ALTER TABLE customer_merges ENABLE ROW LEVEL SECURITY;
+
+-- Allow public access since we handle auth in the application
+CREATE POLICY "Allow public access to customer merges"
+  ON customer_merges
+  FOR ALL
+  TO public
+  USING (true)
+  WITH CHECK (true);